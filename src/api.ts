@@ -0,0 +1,124 @@
+import { cachedGet, invalidateForMutation } from "./cache.js";
+import { apiError, ServerError, TeamhoodError } from "./errors.js";
+import { currentProfile } from "./profiles.js";
+import { rateLimitedFetch } from "./rateLimit.js";
+import { validateResponse } from "./validation.js";
+
+// Typed error for a non-2xx response, from its status and error body
+async function failure(response: Response, method: string, endpoint: string): Promise<TeamhoodError> {
+  const errorText = await response.text().catch(() => "");
+  const retryAfter = response.headers.get("Retry-After");
+  const retryAfterSeconds = retryAfter && /^\d+$/.test(retryAfter.trim()) ? Number(retryAfter) : undefined;
+  return apiError(response.status, errorText, method, endpoint, retryAfterSeconds);
+}
+
+// JSON body of a 2xx response; an empty body is an empty object
+function parseBody(text: string, method: string, endpoint: string): unknown {
+  if (!text) return {};
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ServerError(`Unexpected API response from ${method} ${endpoint.split("?")[0]}: body is not JSON`, {
+      hint: "Check that the base URL points at the Teamhood API (.../api/v1)",
+    });
+  }
+}
+
+// API Client
+export async function apiRequest<T>(
+  endpoint: string,
+  method: "GET" | "POST" | "PUT" | "DELETE" = "GET",
+  body?: unknown
+): Promise<T> {
+  if (method === "GET") {
+    return cachedGet(endpoint, () => sendRequest<T>(endpoint, method));
+  }
+  const result = await sendRequest<T>(endpoint, method, body);
+  invalidateForMutation(endpoint, method, body);
+  return result;
+}
+
+async function sendRequest<T>(
+  endpoint: string,
+  method: "GET" | "POST" | "PUT" | "DELETE",
+  body?: unknown
+): Promise<T> {
+  const profile = currentProfile();
+  const url = `${profile.baseUrl}${endpoint}`;
+
+  const headers: Record<string, string> = {
+    "Authorization": profile.apiKey,
+    "Content-Type": "application/json",
+  };
+
+  const options: RequestInit = {
+    method,
+    headers,
+  };
+
+  if (body && (method === "POST" || method === "PUT")) {
+    options.body = JSON.stringify(body);
+  }
+
+  const response = await rateLimitedFetch(url, options, profile.name);
+
+  if (!response.ok) throw await failure(response, method, endpoint);
+
+  const data = parseBody(await response.text(), method, endpoint);
+  validateResponse(endpoint, method, data);
+  return data as T;
+}
+
+export interface Download {
+  data: Buffer;
+  contentType?: string;
+  fileName?: string;
+}
+
+function fileNameFrom(disposition: string | null): string | undefined {
+  if (!disposition) return undefined;
+  const encoded = disposition.match(/filename\*=(?:UTF-8'')?([^;]+)/i);
+  if (encoded) return decodeURIComponent(encoded[1].trim().replace(/^"|"$/g, ""));
+  return disposition.match(/filename="?([^";]+)"?/i)?.[1];
+}
+
+// Binary GET - the body is returned as bytes, never parsed or cached
+export async function apiDownload(endpoint: string, maxBytes: number): Promise<Download> {
+  const profile = currentProfile();
+  const response = await rateLimitedFetch(`${profile.baseUrl}${endpoint}`, {
+    headers: {
+      Authorization: profile.apiKey,
+    },
+  }, profile.name);
+
+  if (!response.ok) throw await failure(response, "GET", endpoint);
+
+  const length = Number(response.headers.get("Content-Length"));
+  if (length > maxBytes) {
+    await response.body?.cancel();
+    throw new Error(`Download is ${length} bytes, more than the ${maxBytes} byte limit`);
+  }
+  const data = Buffer.from(await response.arrayBuffer());
+  if (data.length > maxBytes) throw new Error(`Download is ${data.length} bytes, more than the ${maxBytes} byte limit`);
+  return {
+    data,
+    contentType: response.headers.get("Content-Type")?.split(";")[0].trim() || undefined,
+    fileName: fileNameFrom(response.headers.get("Content-Disposition")),
+  };
+}
+
+// Multipart upload - fetch sets the multipart Content-Type boundary itself
+export async function apiUpload<T>(formData: FormData): Promise<T> {
+  const profile = currentProfile();
+  const response = await rateLimitedFetch(`${profile.baseUrl}/attachments`, {
+    method: "POST",
+    headers: {
+      Authorization: profile.apiKey,
+    },
+    body: formData,
+  }, profile.name);
+
+  if (!response.ok) throw await failure(response, "POST", "/attachments");
+
+  return parseBody(await response.text(), "POST", "/attachments") as T;
+}
@@ -0,0 +1,241 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { extname } from "path";
+import { downloadAttachment, formatBytes } from "./attachments.js";
+import { currentProfile } from "./profiles.js";
+
+// ============================================================================
+// ATTACHMENT TEXT - plain text from text-based attachments (txt, md, csv,
+// json, html, PDF text layers), split into chunks the model can read in turn
+// ============================================================================
+
+const DEFAULT_CHUNK_SIZE = 20_000;
+// A chunk ends at the last paragraph or line break in its final fifth, so
+// sentences are not cut in half when avoidable
+const BREAK_WINDOW = 0.2;
+// Reading a long attachment takes one call per chunk; the extracted text is
+// kept for a few minutes so the file is downloaded and parsed only once
+const TEXT_TTL_MS = 5 * 60 * 1000;
+const MAX_CACHED_TEXTS = 10;
+
+type TextFormat = "pdf" | "html" | "json" | "csv" | "markdown" | "text";
+
+const FORMAT_BY_EXTENSION: Record<string, TextFormat> = {
+  ".pdf": "pdf",
+  ".html": "html",
+  ".htm": "html",
+  ".json": "json",
+  ".csv": "csv",
+  ".md": "markdown",
+  ".markdown": "markdown",
+  ".txt": "text",
+  ".log": "text",
+  ".xml": "text",
+  ".yaml": "text",
+  ".yml": "text",
+};
+
+export const attachmentTextTools: Tool[] = [
+  {
+    name: "read_attachment_text",
+    description: "Extract plain text from an attachment (txt, md, csv, json, html, or the text layer of a PDF) so its content can be read and summarised. PDF text is marked with [page N] lines. Long text is split into chunks of about chunkSize characters; the result gives the chunk's character offsets and pages, and nextChunk to continue.",
+    annotations: { readOnlyHint: true },
+    inputSchema: {
+      type: "object",
+      properties: {
+        attachmentId: { type: "string", description: "Attachment UUID (see list_attachments)" },
+        chunk: { type: "integer", minimum: 1, description: "Chunk to return, starting at 1 (default 1)" },
+        chunkSize: { type: "integer", minimum: 1000, maximum: 100000, description: `Characters per chunk (default ${DEFAULT_CHUNK_SIZE})` },
+      },
+      required: ["attachmentId"],
+    },
+  },
+];
+
+interface ExtractedText {
+  text: string;
+  // Character offset where each PDF page starts in text
+  pageOffsets?: number[];
+}
+
+function formatOf(name: string | undefined, mimeType: string): TextFormat | undefined {
+  if (mimeType === "application/pdf") return "pdf";
+  if (mimeType === "text/html") return "html";
+  if (mimeType === "application/json") return "json";
+  if (mimeType === "text/csv") return "csv";
+  if (mimeType === "text/markdown") return "markdown";
+  const byName = name ? FORMAT_BY_EXTENSION[extname(name).toLowerCase()] : undefined;
+  if (byName) return byName;
+  if (mimeType.startsWith("text/") || /^application\/(xml|yaml)$/.test(mimeType)) return "text";
+  return undefined;
+}
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " " };
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|head)\b[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<\/(p|div|h[1-6]|ul|ol|tr|table|section|article|blockquote|pre)>/gi, "\n")
+    .replace(/<\/t[dh]>/gi, "\t")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] === "#") {
+        const point = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+      }
+      return ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// pdf.js is large; load it only when a PDF is read
+async function pdfToText(data: Buffer): Promise<ExtractedText> {
+  const { extractText, getDocumentProxy } = await import("unpdf");
+  const document = await getDocumentProxy(new Uint8Array(data));
+  const { text: pages } = await extractText(document, { mergePages: false });
+  const pageOffsets: number[] = [];
+  let text = "";
+  pages.forEach((page, index) => {
+    pageOffsets.push(text.length);
+    text += `[page ${index + 1}]\n${page.trim()}\n\n`;
+  });
+  if (pages.every((page) => page.trim() === "")) {
+    throw new Error("The PDF has no text layer (it is probably scanned); its text cannot be extracted");
+  }
+  return { text: text.trimEnd(), pageOffsets };
+}
+
+async function extractAttachmentText(format: TextFormat, data: Buffer): Promise<ExtractedText> {
+  if (format === "pdf") return pdfToText(data);
+  const raw = data.toString("utf-8").replace(/^\uFEFF/, "");
+  if (format === "html") return { text: htmlToText(raw) };
+  if (format === "json") {
+    try {
+      return { text: JSON.stringify(JSON.parse(raw), null, 2) };
+    } catch {
+      return { text: raw };
+    }
+  }
+  return { text: raw };
+}
+
+// Chunk boundaries as [start, end) character offsets
+export function chunkText(text: string, size: number): Array<[number, number]> {
+  const chunks: Array<[number, number]> = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + size, text.length);
+    if (end < text.length) {
+      const windowStart = end - Math.floor(size * BREAK_WINDOW);
+      const paragraph = text.lastIndexOf("\n\n", end - 2);
+      const line = text.lastIndexOf("\n", end - 1);
+      const cut = paragraph >= windowStart ? paragraph + 2 : line >= windowStart ? line + 1 : end;
+      if (cut > start) end = cut;
+    }
+    chunks.push([start, end]);
+    start = end;
+  }
+  return chunks.length > 0 ? chunks : [[0, 0]];
+}
+
+// 1-based page holding offset: the number of pages starting at or before it
+function pageAt(pageOffsets: number[], offset: number): number {
+  let low = 0;
+  let high = pageOffsets.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (pageOffsets[mid] <= offset) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+interface AttachmentText extends ExtractedText {
+  name?: string;
+  mimeType: string;
+  format: TextFormat;
+  bytes: number;
+}
+
+interface CachedText {
+  expiresAt: number;
+  value: Promise<AttachmentText>;
+}
+
+// Keyed by profile and attachment ID, like the metadata cache
+const cachedTexts = new Map<string, CachedText>();
+
+async function loadAttachmentText(attachmentId: string): Promise<AttachmentText> {
+  const { attachment, data, mimeType } = await downloadAttachment(attachmentId);
+  const format = formatOf(attachment.name, mimeType);
+  if (!format) {
+    throw new Error(
+      `Cannot extract text from ${attachment.name ?? attachmentId} (${mimeType}). ` +
+        "Supported: txt, md, csv, json, html and PDFs with a text layer. Use download_attachment for other files."
+    );
+  }
+  const extracted = await extractAttachmentText(format, data);
+  return { ...extracted, name: attachment.name, mimeType, format, bytes: data.length };
+}
+
+// In-flight extractions are shared and failures are not kept
+function attachmentText(attachmentId: string): Promise<AttachmentText> {
+  const key = `${currentProfile().name} ${attachmentId}`;
+  const now = Date.now();
+  for (const [id, cached] of cachedTexts) {
+    if (cached.expiresAt <= now) cachedTexts.delete(id);
+  }
+  const cached = cachedTexts.get(key);
+  if (cached) return cached.value;
+
+  // Oldest first, as the map keeps insertion order
+  while (cachedTexts.size >= MAX_CACHED_TEXTS) cachedTexts.delete(cachedTexts.keys().next().value!);
+  const value = loadAttachmentText(attachmentId);
+  const entry = { expiresAt: now + TEXT_TTL_MS, value };
+  cachedTexts.set(key, entry);
+  value.catch(() => {
+    if (cachedTexts.get(key) === entry) cachedTexts.delete(key);
+  });
+  return value;
+}
+
+export async function handleAttachmentTextTool(name: string, args: Record<string, unknown>): Promise<unknown> {
+  if (name !== "read_attachment_text") throw new Error(`Unknown tool: ${name}`);
+
+  const attachmentId = args.attachmentId as string;
+  const chunkSize = (args.chunkSize as number | undefined) ?? DEFAULT_CHUNK_SIZE;
+  const chunkNumber = (args.chunk as number | undefined) ?? 1;
+
+  const { text, pageOffsets, ...attachment } = await attachmentText(attachmentId);
+  const chunks = chunkText(text, chunkSize);
+  if (chunkNumber > chunks.length) {
+    throw new Error(`chunk ${chunkNumber} does not exist: the text has ${chunks.length} chunk(s) of up to ${chunkSize} characters`);
+  }
+  const [start, end] = chunks[chunkNumber - 1];
+
+  // Pages overlapping the chunk, 1-based
+  let pages: { from: number; to: number } | undefined;
+  if (pageOffsets) {
+    pages = { from: pageAt(pageOffsets, start), to: pageAt(pageOffsets, Math.max(start, end - 1)) };
+  }
+
+  return {
+    attachmentId,
+    name: attachment.name,
+    mimeType: attachment.mimeType,
+    format: attachment.format,
+    size: formatBytes(attachment.bytes),
+    totalPages: pageOffsets?.length,
+    totalChars: text.length,
+    chunk: chunkNumber,
+    chunks: chunks.length,
+    start,
+    end,
+    pages,
+    nextChunk: chunkNumber < chunks.length ? chunkNumber + 1 : undefined,
+    text: text.slice(start, end),
+  };
+}
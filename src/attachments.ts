@@ -0,0 +1,312 @@
+import { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import * as fs from "fs";
+import { readFile, stat } from "fs/promises";
+import { basename, extname } from "path";
+import { apiDownload, apiRequest, apiUpload } from "./api.js";
+import { outputPathFrom, readablePath, writeLocalFile } from "./files.js";
+import { confirmDeletion } from "./safety.js";
+import { Attachment } from "./types.js";
+
+// ============================================================================
+// ATTACHMENTS - item files: binary-safe downloads (inline as MCP content or
+// saved to disk) and uploads from a local path or base64
+// ============================================================================
+
+function envMegabytes(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return fallback * 1024 * 1024;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`${name} must be a positive number of megabytes, got "${raw}"`);
+  }
+  return value * 1024 * 1024;
+}
+
+// Largest file uploaded or downloaded
+const MAX_FILE_BYTES = envMegabytes("TEAMHOOD_MAX_ATTACHMENT_MB", 100);
+// Larger downloads must be saved with outputPath: base64 inflates them by a
+// third and the whole result goes into the conversation
+const MAX_INLINE_BYTES = envMegabytes("TEAMHOOD_MAX_INLINE_ATTACHMENT_MB", 5);
+
+const MIME_TYPES: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".txt": "text/plain",
+  ".md": "text/markdown",
+  ".csv": "text/csv",
+  ".html": "text/html",
+  ".json": "application/json",
+  ".xml": "application/xml",
+  ".yaml": "application/yaml",
+  ".yml": "application/yaml",
+  ".zip": "application/zip",
+  ".doc": "application/msword",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".xls": "application/vnd.ms-excel",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".ppt": "application/vnd.ms-powerpoint",
+  ".pptx": "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  ".mp4": "video/mp4",
+  ".mp3": "audio/mpeg",
+};
+
+// Leading bytes of common formats, for files without a known extension
+const SIGNATURES: Array<[string, string]> = [
+  ["25504446", "application/pdf"],
+  ["89504e47", "image/png"],
+  ["ffd8ff", "image/jpeg"],
+  ["47494638", "image/gif"],
+  ["504b0304", "application/zip"],
+];
+
+const GENERIC_MIME_TYPE = "application/octet-stream";
+
+export const attachmentTools: Tool[] = [
+  {
+    name: "list_attachments",
+    description: "List all attachments on an item, with human-readable sizes",
+    annotations: { readOnlyHint: true },
+    inputSchema: {
+      type: "object",
+      properties: {
+        itemId: { type: "string", description: "Item UUID" },
+      },
+      required: ["itemId"],
+    },
+  },
+  {
+    name: "get_attachment",
+    description: "Get attachment metadata (name, size, type)",
+    annotations: { readOnlyHint: true },
+    inputSchema: {
+      type: "object",
+      properties: {
+        attachmentId: { type: "string", description: "Attachment UUID" },
+      },
+      required: ["attachmentId"],
+    },
+  },
+  {
+    name: "download_attachment",
+    description: `Download an attachment. Returned inline as an image or embedded resource with its MIME type (up to ${MAX_INLINE_BYTES / 1024 / 1024} MB), or saved to outputPath.`,
+    // Writes a local file when given outputPath
+    annotations: { readOnlyHint: false, destructiveHint: false },
+    inputSchema: {
+      type: "object",
+      properties: {
+        attachmentId: { type: "string", description: "Attachment UUID" },
+        outputPath: { type: "string", description: "Save the file to this path under the server's file root instead of returning its content" },
+        overwrite: { type: "boolean", description: "Replace outputPath if it already exists (default false)" },
+      },
+      required: ["attachmentId"],
+    },
+  },
+  {
+    name: "update_attachment",
+    description: "Update attachment name",
+    annotations: { readOnlyHint: false, destructiveHint: true },
+    inputSchema: {
+      type: "object",
+      properties: {
+        attachmentId: { type: "string", description: "Attachment UUID" },
+        name: { type: "string", description: "New filename" },
+      },
+      required: ["attachmentId", "name"],
+    },
+  },
+  {
+    name: "delete_attachment",
+    description: "Permanently delete an attachment. The first call returns a preview and a confirmToken; call again with confirmToken to delete.",
+    annotations: { readOnlyHint: false, destructiveHint: true },
+    inputSchema: {
+      type: "object",
+      properties: {
+        attachmentId: { type: "string", description: "Attachment UUID to delete" },
+        dryRun: { type: "boolean", description: "Show the attachment that would be deleted without deleting it" },
+        confirmToken: { type: "string", description: "Token returned by the previous delete_attachment call for this attachment" },
+      },
+      required: ["attachmentId"],
+    },
+  },
+  {
+    name: "upload_attachment",
+    description: `Upload a file to an item from a local path (streamed) or base64 content. Up to ${MAX_FILE_BYTES / 1024 / 1024} MB; the MIME type is detected from the name or content.`,
+    annotations: { readOnlyHint: false, destructiveHint: false },
+    inputSchema: {
+      type: "object",
+      properties: {
+        itemId: { type: "string", description: "Item UUID to attach file to" },
+        path: { type: "string", description: "Local file under the server's file root (off over HTTP unless TEAMHOOD_MCP_FILE_ROOT is set; send content there)" },
+        content: { type: "string", description: "File content, base64 encoded (instead of path; for small files)" },
+        name: { type: "string", description: "Filename with extension (e.g., 'report.pdf'); defaults to the file name of path" },
+        mimeType: { type: "string", description: "Override the detected MIME type" },
+      },
+      required: ["itemId"],
+    },
+  },
+];
+
+// A tool result that is already MCP content (images, embedded resources)
+// rather than data to serialize as JSON text
+export class ContentResult {
+  constructor(readonly content: CallToolResult["content"]) {}
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+export function detectMimeType(name: string | undefined, head?: Buffer): string {
+  const byName = name ? MIME_TYPES[extname(name).toLowerCase()] : undefined;
+  if (byName) return byName;
+  const hex = head?.subarray(0, 4).toString("hex") ?? "";
+  return SIGNATURES.find(([signature]) => hex.startsWith(signature))?.[1] ?? GENERIC_MIME_TYPE;
+}
+
+function isTextMimeType(mimeType: string): boolean {
+  return mimeType.startsWith("text/") || /^application\/(json|xml|yaml)$/.test(mimeType) || mimeType === "image/svg+xml";
+}
+
+function withSizeLabel(attachment: Attachment): Attachment & { sizeLabel?: string } {
+  return attachment.size === undefined ? attachment : { ...attachment, sizeLabel: formatBytes(attachment.size) };
+}
+
+// Metadata plus content, with the most specific MIME type available: the
+// response header unless generic, then the stored type, then the name/bytes
+export async function downloadAttachment(attachmentId: string): Promise<{ attachment: Attachment; data: Buffer; mimeType: string }> {
+  const attachment = await apiRequest<Attachment>(`/attachments/${attachmentId}`);
+  const download = await apiDownload(`/attachments/${attachmentId}/content`, MAX_FILE_BYTES);
+  const mimeType = [download.contentType, attachment.contentType].find((type) => type && type !== GENERIC_MIME_TYPE)
+    ?? detectMimeType(attachment.name ?? download.fileName, download.data);
+  return { attachment: { ...attachment, name: attachment.name ?? download.fileName }, data: download.data, mimeType };
+}
+
+async function handleDownload(args: Record<string, unknown>): Promise<unknown> {
+  const attachmentId = args.attachmentId as string;
+  const outputPath = outputPathFrom(args);
+  const { attachment, data, mimeType } = await downloadAttachment(attachmentId);
+  const summary = { attachmentId, name: attachment.name, mimeType, bytes: data.length, size: formatBytes(data.length) };
+
+  if (outputPath) {
+    await writeLocalFile(outputPath, data, args.overwrite === true);
+    return { ...summary, path: outputPath };
+  }
+  if (data.length > MAX_INLINE_BYTES) {
+    throw new Error(
+      `${attachment.name ?? attachmentId} is ${formatBytes(data.length)}, too large to return inline ` +
+        `(limit ${formatBytes(MAX_INLINE_BYTES)}). Pass outputPath to save it instead.`
+    );
+  }
+
+  const uri = `teamhood://attachment/${attachmentId}`;
+  const body = mimeType.startsWith("image/") && mimeType !== "image/svg+xml"
+    ? { type: "image" as const, data: data.toString("base64"), mimeType }
+    : {
+        type: "resource" as const,
+        resource: isTextMimeType(mimeType)
+          ? { uri, mimeType, text: data.toString("utf-8") }
+          : { uri, mimeType, blob: data.toString("base64") },
+      };
+  return new ContentResult([{ type: "text", text: JSON.stringify(summary, null, 2) }, body]);
+}
+
+// Local files are sent as file-backed blobs so they stream from disk rather
+// than being read into memory (Node 19.8+; older versions read the file)
+async function fileBlob(path: string, mimeType: string): Promise<Blob> {
+  if (typeof fs.openAsBlob === "function") return fs.openAsBlob(path, { type: mimeType });
+  return new Blob([await readFile(path)], { type: mimeType });
+}
+
+async function handleUpload(args: Record<string, unknown>): Promise<unknown> {
+  if ((args.path === undefined) === (args.content === undefined)) {
+    throw new Error("Pass either path or content");
+  }
+  const source = args.path as string | undefined;
+  const name = (args.name as string | undefined) ?? (source ? basename(source) : undefined);
+  if (!name) throw new Error("name is required when uploading content");
+
+  let blob: Blob;
+  let head: Buffer | undefined;
+  let bytes: number;
+  if (source) {
+    const path = readablePath(source);
+    const info = await stat(path).catch((error: Error) => {
+      throw new Error(`Cannot read ${source}: ${error.message}`);
+    });
+    if (!info.isFile()) throw new Error(`${source} is not a file`);
+    bytes = info.size;
+    if (bytes > MAX_FILE_BYTES) {
+      throw new Error(`${source} is ${formatBytes(bytes)}, more than the ${formatBytes(MAX_FILE_BYTES)} upload limit (TEAMHOOD_MAX_ATTACHMENT_MB)`);
+    }
+    const handle = await fs.promises.open(path, "r");
+    try {
+      head = Buffer.alloc(Math.min(8, bytes));
+      await handle.read(head, 0, head.length, 0);
+    } finally {
+      await handle.close();
+    }
+    blob = await fileBlob(path, (args.mimeType as string | undefined) ?? detectMimeType(name, head));
+  } else {
+    const data = Buffer.from(args.content as string, "base64");
+    bytes = data.length;
+    if (bytes > MAX_FILE_BYTES) {
+      throw new Error(`Content is ${formatBytes(bytes)}, more than the ${formatBytes(MAX_FILE_BYTES)} upload limit (TEAMHOOD_MAX_ATTACHMENT_MB)`);
+    }
+    head = data.subarray(0, 8);
+    blob = new Blob([data], { type: (args.mimeType as string | undefined) ?? detectMimeType(name, head) });
+  }
+
+  const formData = new FormData();
+  formData.append("ItemId", args.itemId as string);
+  formData.append("Name", name);
+  formData.append("Content", blob, name);
+  const uploaded = await apiUpload<Attachment>(formData);
+  return { ...uploaded, mimeType: blob.type, bytes, size: formatBytes(bytes) };
+}
+
+export async function handleAttachmentTool(name: string, args: Record<string, unknown>): Promise<unknown> {
+  switch (name) {
+    case "list_attachments": {
+      const attachments = await apiRequest<Attachment[]>(`/items/${args.itemId}/attachments`);
+      return attachments.map(withSizeLabel);
+    }
+
+    case "get_attachment":
+      return withSizeLabel(await apiRequest<Attachment>(`/attachments/${args.attachmentId}`));
+
+    case "download_attachment":
+      return handleDownload(args);
+
+    case "update_attachment":
+      return apiRequest(`/attachments/${args.attachmentId}`, "PUT", {
+        Name: args.name,
+      });
+
+    case "delete_attachment": {
+      const attachmentId = args.attachmentId as string;
+      const loadAttachment = () => apiRequest<Attachment>(`/attachments/${attachmentId}`);
+      if (args.dryRun) return { dryRun: true, wouldDelete: await loadAttachment() };
+      return confirmDeletion(name, attachmentId, args.confirmToken, loadAttachment, () =>
+        apiRequest(`/attachments/${attachmentId}`, "DELETE")
+      );
+    }
+
+    case "upload_attachment":
+      return handleUpload(args);
+
+    default:
+      throw new Error(`Unknown tool: ${name}`);
+  }
+}
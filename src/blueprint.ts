@@ -0,0 +1,480 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { readFile } from "fs/promises";
+import { parse as parseYaml, YAMLParseError } from "yaml";
+import { apiRequest } from "./api.js";
+import { readablePath } from "./files.js";
+import { buildItemCreate } from "./items.js";
+import { fetchAllItems } from "./pagination.js";
+import { NameResolver } from "./resolver.js";
+import { Board, Item, Row, Status, Workspace } from "./types.js";
+import { isIsoDate } from "./validation.js";
+
+// ============================================================================
+// BLUEPRINTS - declarative workspace scaffolding: a YAML/JSON spec of the
+// workspace, members, boards, rows and seed items is diffed against what
+// exists and only the missing parts are created
+// ============================================================================
+
+// Existing board items scanned for seed item titles
+const MAX_BOARD_ITEMS = 20000;
+const DEFAULT_ICON = "briefcase";
+const DEFAULT_VIEW_TYPE = "Kanban";
+const VIEW_TYPES = ["Kanban", "Gantt", "List", "Overview"];
+
+export const blueprintTools: Tool[] = [
+  {
+    name: "apply_blueprint",
+    description: "Scaffold a workspace from a declarative YAML or JSON blueprint: workspace (title, displayId, template, owner), members by email or name, boards with templates by name, rows with dates and seed items. Compares the blueprint with what already exists (by display ID, otherwise title) and only creates what is missing, so it can be re-run. Run with dryRun first to see the plan. Example:\nworkspace: { title: Launch, displayId: LAUNCH, template: Default, owner: anna@example.com, members: [bob@example.com] }\nboards:\n  - { title: Roadmap, displayId: ROAD, template: Kanban, rows: [{ title: Q1, startDate: 2026-01-01, endDate: 2026-03-31 }], items: [{ title: Kickoff, status: To Do, row: Q1, assignee: bob@example.com }] }",
+    annotations: { readOnlyHint: false, destructiveHint: false },
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "Local .yaml, .yml or .json blueprint file under the server's file root (off over HTTP unless TEAMHOOD_MCP_FILE_ROOT is set; prefer content there)" },
+        content: { type: "string", description: "Blueprint as YAML or JSON text (instead of path)" },
+        dryRun: { type: "boolean", description: "Return the plan (what exists, what would be created) without changing anything" },
+      },
+    },
+  },
+];
+
+interface WorkspaceSpec {
+  title: string;
+  displayId?: string;
+  template?: string;
+  owner?: string;
+  icon?: string;
+  color?: number;
+  members: string[];
+}
+
+interface RowSpec {
+  title: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+interface ItemSpec {
+  title: string;
+  description?: string;
+  status?: string;
+  row?: string;
+  assignee?: string;
+  startDate?: string;
+  dueDate?: string;
+  tags?: string[];
+  color?: number;
+}
+
+interface BoardSpec {
+  title: string;
+  displayId?: string;
+  template?: string;
+  viewType: string;
+  rows: RowSpec[];
+  items: ItemSpec[];
+}
+
+interface Blueprint {
+  workspace: WorkspaceSpec;
+  boards: BoardSpec[];
+}
+
+interface StepResult {
+  type: "workspace" | "member" | "board" | "row" | "item";
+  name: string;
+  action: "create" | "add" | "exists";
+  id?: string;
+  // Request payload for planned creations
+  payload?: Record<string, unknown>;
+  ok?: boolean;
+  error?: string;
+}
+
+interface Step {
+  result: StepResult;
+  // Creates the entity and returns its ID; absent for existing ones
+  run?: () => Promise<string | undefined>;
+}
+
+// ----------------------------------------------------------------------------
+// Parsing
+// ----------------------------------------------------------------------------
+
+async function readBlueprintText(args: Record<string, unknown>): Promise<string> {
+  if ((args.path === undefined) === (args.content === undefined)) {
+    throw new Error("Pass either path or content");
+  }
+  return args.path ? readFile(readablePath(args.path as string), "utf-8") : (args.content as string);
+}
+
+// Field readers that collect every problem instead of stopping at the first
+class SpecReader {
+  errors: string[] = [];
+
+  object(value: unknown, path: string): Record<string, unknown> {
+    if (value && typeof value === "object" && !Array.isArray(value)) return value as Record<string, unknown>;
+    this.errors.push(`${path}: expected an object`);
+    return {};
+  }
+
+  list(value: unknown, path: string): unknown[] {
+    if (value === undefined || value === null) return [];
+    if (Array.isArray(value)) return value;
+    this.errors.push(`${path}: expected a list`);
+    return [];
+  }
+
+  string(record: Record<string, unknown>, key: string, path: string, required = false): string | undefined {
+    const value = record[key];
+    if (value === undefined || value === null || value === "") {
+      if (required) this.errors.push(`${path}.${key}: required`);
+      return undefined;
+    }
+    // YAML reads unquoted dates and numbers as such
+    if (value instanceof Date) return value.toISOString().slice(0, 10);
+    if (typeof value === "string" || typeof value === "number") return String(value).trim();
+    this.errors.push(`${path}.${key}: expected a string`);
+    return undefined;
+  }
+
+  date(record: Record<string, unknown>, key: string, path: string): string | undefined {
+    const value = this.string(record, key, path);
+    if (value !== undefined && !isIsoDate(value)) {
+      this.errors.push(`${path}.${key}: expected an ISO 8601 date, got "${value}"`);
+      return undefined;
+    }
+    return value;
+  }
+
+  integer(record: Record<string, unknown>, key: string, path: string): number | undefined {
+    const value = record[key];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value === "number" && Number.isInteger(value)) return value;
+    this.errors.push(`${path}.${key}: expected a whole number`);
+    return undefined;
+  }
+
+  strings(record: Record<string, unknown>, key: string, path: string): string[] {
+    return this.list(record[key], `${path}.${key}`).map(String).map((entry) => entry.trim()).filter(Boolean);
+  }
+}
+
+function parseBlueprint(text: string, path?: string): Blueprint {
+  let raw: unknown;
+  try {
+    raw = parseYaml(text);
+  } catch (error) {
+    // The parser quotes the text around the error; a file is not echoed back
+    if (path) {
+      const line = error instanceof YAMLParseError ? error.linePos?.[0].line : undefined;
+      throw new Error(`${path} is not valid YAML or JSON${line ? ` (line ${line})` : ""}`);
+    }
+    throw new Error(`Blueprint is not valid YAML or JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const reader = new SpecReader();
+  const root = reader.object(raw, "blueprint");
+  const ws = reader.object(root.workspace, "workspace");
+  const workspace: WorkspaceSpec = {
+    title: reader.string(ws, "title", "workspace", true) ?? "",
+    displayId: reader.string(ws, "displayId", "workspace"),
+    template: reader.string(ws, "template", "workspace"),
+    owner: reader.string(ws, "owner", "workspace"),
+    icon: reader.string(ws, "icon", "workspace"),
+    color: reader.integer(ws, "color", "workspace"),
+    members: reader.strings(ws, "members", "workspace"),
+  };
+
+  const boards = reader.list(root.boards, "boards").map((entry, b): BoardSpec => {
+    const path = `boards[${b}]`;
+    const board = reader.object(entry, path);
+    const viewType = reader.string(board, "viewType", path) ?? DEFAULT_VIEW_TYPE;
+    if (!VIEW_TYPES.includes(viewType)) reader.errors.push(`${path}.viewType: expected one of ${VIEW_TYPES.join(", ")}`);
+
+    const rows = reader.list(board.rows, `${path}.rows`).map((rowEntry, r): RowSpec => {
+      const rowPath = `${path}.rows[${r}]`;
+      const row = reader.object(rowEntry, rowPath);
+      return {
+        title: reader.string(row, "title", rowPath, true) ?? "",
+        startDate: reader.date(row, "startDate", rowPath),
+        endDate: reader.date(row, "endDate", rowPath),
+      };
+    });
+
+    const items = reader.list(board.items, `${path}.items`).map((itemEntry, i): ItemSpec => {
+      const itemPath = `${path}.items[${i}]`;
+      const item = reader.object(itemEntry, itemPath);
+      return {
+        title: reader.string(item, "title", itemPath, true) ?? "",
+        description: reader.string(item, "description", itemPath),
+        status: reader.string(item, "status", itemPath),
+        row: reader.string(item, "row", itemPath),
+        assignee: reader.string(item, "assignee", itemPath),
+        startDate: reader.date(item, "startDate", itemPath),
+        dueDate: reader.date(item, "dueDate", itemPath),
+        tags: item.tags === undefined ? undefined : reader.strings(item, "tags", itemPath),
+        color: reader.integer(item, "color", itemPath),
+      };
+    });
+
+    for (const [kind, entries] of [["rows", rows], ["items", items]] as const) {
+      const seen = new Set<string>();
+      for (const { title } of entries) {
+        if (title && seen.has(key(title))) reader.errors.push(`${path}.${kind}: "${title}" appears more than once`);
+        seen.add(key(title));
+      }
+    }
+
+    return {
+      title: reader.string(board, "title", path, true) ?? "",
+      displayId: reader.string(board, "displayId", path),
+      template: reader.string(board, "template", path),
+      viewType,
+      rows,
+      items,
+    };
+  });
+
+  if (reader.errors.length > 0) throw new Error(`Invalid blueprint: ${reader.errors.join("; ")}`);
+  return { workspace, boards };
+}
+
+// ----------------------------------------------------------------------------
+// Planning
+// ----------------------------------------------------------------------------
+
+// Blueprint entries match existing ones by exact title or display ID (case
+// and surrounding spaces ignored), never by the fuzzy name resolver, so a
+// near-miss is created rather than mistaken for an existing entity
+function key(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function findExisting<T extends { title?: string; displayId?: string }>(
+  candidates: T[],
+  spec: { title: string; displayId?: string }
+): T | undefined {
+  if (spec.displayId) {
+    const byDisplayId = candidates.find((c) => c.displayId && key(c.displayId) === key(spec.displayId!));
+    if (byDisplayId) return byDisplayId;
+  }
+  return candidates.find((c) => c.title && key(c.title) === key(spec.title));
+}
+
+async function planBlueprint(blueprint: Blueprint): Promise<Step[]> {
+  const resolver = new NameResolver(true);
+  const errors: string[] = [];
+  const attempt = async <T>(path: string, fn: () => Promise<T>): Promise<T | undefined> => {
+    try {
+      return await fn();
+    } catch (error) {
+      errors.push(`${path}: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  };
+  const steps: Step[] = [];
+
+  // Workspace
+  const ws = blueprint.workspace;
+  const existingWorkspace = findExisting(await apiRequest<Workspace[]>("/workspaces"), ws);
+  let workspaceId = existingWorkspace?.id;
+  if (existingWorkspace) {
+    steps.push({ result: { type: "workspace", name: ws.title, action: "exists", id: existingWorkspace.id } });
+  } else {
+    for (const field of ["displayId", "template", "owner"] as const) {
+      if (!ws[field]) errors.push(`workspace.${field}: required to create workspace "${ws.title}"`);
+    }
+    const payload = {
+      title: ws.title,
+      displayId: ws.displayId,
+      icon: ws.icon ?? DEFAULT_ICON,
+      color: ws.color,
+      templateId: ws.template && (await attempt("workspace.template", () => resolver.workspaceTemplate(ws.template!))),
+      ownerId: ws.owner && (await attempt("workspace.owner", () => resolver.user(ws.owner!))),
+    };
+    steps.push({
+      result: { type: "workspace", name: ws.title, action: "create", payload },
+      run: async () => {
+        workspaceId = (await apiRequest<Workspace>("/workspaces", "POST", payload)).id;
+        return workspaceId;
+      },
+    });
+  }
+
+  // Members: the API cannot list workspace members, and adding an existing
+  // member again is harmless, so every member is (re-)added
+  for (const member of ws.members) {
+    const userId = await attempt(`workspace.members "${member}"`, () => resolver.user(member));
+    steps.push({
+      result: { type: "member", name: member, action: "add", id: userId },
+      run: async () => {
+        await apiRequest(`/workspaces/${workspaceId}/users/${userId}`, "PUT", {});
+        return userId;
+      },
+    });
+  }
+
+  // Boards, their rows and seed items
+  const existingBoards = existingWorkspace ? await apiRequest<Board[]>(`/workspaces/${existingWorkspace.id}/boards`) : [];
+  for (const [b, spec] of blueprint.boards.entries()) {
+    const path = `boards[${b}]`;
+    const existingBoard = findExisting(existingBoards, spec);
+    let boardId = existingBoard?.id;
+    let statuses: Status[] = [];
+    const rowIds = new Map<string, string>();
+    const itemTitles = new Set<string>();
+
+    if (existingBoard) {
+      steps.push({ result: { type: "board", name: spec.title, action: "exists", id: existingBoard.id } });
+      const [boardStatuses, rows, items] = await Promise.all([
+        apiRequest<Status[]>(`/boards/${existingBoard.id}/statuses`),
+        apiRequest<Row[]>(`/boards/${existingBoard.id}/rows`),
+        fetchAllItems({ boardId: existingBoard.id, includeChildItems: true }, MAX_BOARD_ITEMS),
+      ]);
+      statuses = boardStatuses;
+      for (const row of rows) if (row.title) rowIds.set(key(row.title), row.id);
+      for (const item of items.records) if (item.title) itemTitles.add(key(item.title));
+    } else {
+      for (const field of ["displayId", "template"] as const) {
+        if (!spec[field]) errors.push(`${path}.${field}: required to create board "${spec.title}"`);
+      }
+      const templateId = spec.template && (await attempt(`${path}.template`, () => resolver.boardTemplate(spec.template!)));
+      const payload = { title: spec.title, displayId: spec.displayId, templateId, viewType: spec.viewType };
+      steps.push({
+        result: { type: "board", name: spec.title, action: "create", payload },
+        run: async () => {
+          boardId = (await apiRequest<Board>("/boards", "POST", { workspaceId, ...payload })).id;
+          // The template decides the statuses and any default rows
+          const [boardStatuses, rows] = await Promise.all([
+            apiRequest<Status[]>(`/boards/${boardId}/statuses`),
+            apiRequest<Row[]>(`/boards/${boardId}/rows`),
+          ]);
+          statuses = boardStatuses;
+          for (const row of rows) if (row.title) rowIds.set(key(row.title), row.id);
+          return boardId;
+        },
+      });
+    }
+
+    for (const row of spec.rows) {
+      const name = `${spec.title} / ${row.title}`;
+      const existingRowId = rowIds.get(key(row.title));
+      if (existingRowId) {
+        steps.push({ result: { type: "row", name, action: "exists", id: existingRowId } });
+        continue;
+      }
+      const payload = { title: row.title, startDate: row.startDate, endDate: row.endDate };
+      steps.push({
+        result: { type: "row", name, action: "create", payload },
+        run: async () => {
+          const created = await apiRequest<Row>("/rows", "POST", { boardId, ...payload });
+          rowIds.set(key(row.title), created.id);
+          return created.id;
+        },
+      });
+    }
+
+    // Status and row names on a board that does not exist yet are checked
+    // when the item is created
+    const statusFor = (name: string | undefined): string => {
+      const ordered = [...statuses].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+      const status = name ? ordered.find((s) => s.id === name || (s.title && key(s.title) === key(name))) : ordered[0];
+      if (!status) throw new Error(name ? `status "${name}" not found on the board` : "the board has no statuses");
+      return status.id;
+    };
+    const rowFor = (name: string | undefined): string | undefined => {
+      if (!name) return undefined;
+      const rowId = rowIds.get(key(name)) ?? [...rowIds.values()].find((id) => id === name);
+      if (!rowId) throw new Error(`row "${name}" is neither in the blueprint nor on the board`);
+      return rowId;
+    };
+    const specRowTitles = new Set(spec.rows.map((row) => key(row.title)));
+
+    for (const [i, item] of spec.items.entries()) {
+      const itemPath = `${path}.items[${i}]`;
+      const name = `${spec.title} / ${item.title}`;
+      if (itemTitles.has(key(item.title))) {
+        steps.push({ result: { type: "item", name, action: "exists" } });
+        continue;
+      }
+      const assigneeId = item.assignee && (await attempt(`${itemPath}.assignee`, () => resolver.user(item.assignee!)));
+      if (existingBoard) {
+        await attempt(`${itemPath}.status`, async () => statusFor(item.status));
+        if (item.row && !specRowTitles.has(key(item.row))) await attempt(`${itemPath}.row`, async () => rowFor(item.row));
+      }
+      const fields = {
+        title: item.title,
+        description: item.description,
+        status: item.status,
+        row: item.row,
+        assigneeId,
+        startDate: item.startDate,
+        dueDate: item.dueDate,
+        tags: item.tags,
+        color: item.color,
+      };
+      steps.push({
+        result: { type: "item", name, action: "create", payload: fields },
+        run: async () => {
+          const created = await apiRequest<Item>(
+            "/items",
+            "POST",
+            buildItemCreate({ ...fields, workspaceId, boardId, statusId: statusFor(item.status), rowId: rowFor(item.row) })
+          );
+          return created.id;
+        },
+      });
+    }
+  }
+
+  if (errors.length > 0) throw new Error(`Blueprint cannot be applied: ${errors.join("; ")}`);
+  return steps;
+}
+
+// ----------------------------------------------------------------------------
+// Tool handler
+// ----------------------------------------------------------------------------
+
+export async function handleBlueprintTool(name: string, args: Record<string, unknown>): Promise<unknown> {
+  if (name !== "apply_blueprint") throw new Error(`Unknown tool: ${name}`);
+
+  const dryRun = args.dryRun === true;
+  const blueprint = parseBlueprint(await readBlueprintText(args), args.path as string | undefined);
+  const steps = await planBlueprint(blueprint);
+
+  // Steps run in order: members need the workspace, rows the board, items
+  // their rows. The first failure stops the run; re-running the blueprint
+  // continues from what now exists.
+  let failed = false;
+  if (!dryRun) {
+    for (const step of steps) {
+      if (!step.run) continue;
+      if (failed) {
+        step.result.ok = false;
+        step.result.error = "not run: an earlier step failed";
+        continue;
+      }
+      try {
+        step.result.id = (await step.run()) ?? step.result.id;
+        step.result.ok = true;
+        delete step.result.payload;
+      } catch (error) {
+        failed = true;
+        step.result.ok = false;
+        step.result.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+  }
+
+  const results = steps.map((step) => step.result);
+  const count = (action: StepResult["action"]) => results.filter((r) => r.action === action && r.ok !== false).length;
+  return {
+    dryRun,
+    workspace: blueprint.workspace.title,
+    created: count("create"),
+    membersAdded: count("add"),
+    existing: count("exists"),
+    failed: results.filter((r) => r.ok === false).length,
+    steps: results,
+  };
+}
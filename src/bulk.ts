@@ -0,0 +1,209 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { buildItemUpdate, diffItem, getItem, itemUpdateProperties, updateItem } from "./items.js";
+import { fetchAllItems, itemFilterProperties } from "./pagination.js";
+import { mapConcurrent } from "./rateLimit.js";
+import { NameResolver, resolveArgs } from "./resolver.js";
+import { Item } from "./types.js";
+
+// ============================================================================
+// BULK OPERATIONS - apply one change to many items, selected by ID list or by
+// the list_items filters, and report the outcome per item
+// ============================================================================
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_MAX_ITEMS = 200;
+
+// Selection and execution options shared by every bulk tool
+const selectionProperties = {
+  itemIds: { type: "array", items: { type: "string" }, description: "Item UUIDs to change. Omit to select items with the list_items filters instead." },
+  ...itemFilterProperties,
+  dryRun: { type: "boolean", description: "Preview the current vs. proposed values without changing anything" },
+  concurrency: { type: "integer", minimum: 1, maximum: 10, description: `Parallel requests (default ${DEFAULT_CONCURRENCY})` },
+  maxItems: { type: "integer", minimum: 1, maximum: 1000, description: `Refuse to run when more items match (default ${DEFAULT_MAX_ITEMS})` },
+};
+
+export const bulkTools: Tool[] = [
+  {
+    name: "bulk_update_items",
+    description: "Update many items at once (re-tag, re-assign, reschedule...). Select items by itemIds or list_items filters. Returns a per-item success/failure report; use dryRun to preview.",
+    annotations: { readOnlyHint: false, destructiveHint: true },
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...selectionProperties,
+        changes: {
+          type: "object",
+          properties: {
+            ...itemUpdateProperties,
+            addTags: { type: "array", items: { type: "string" }, description: "Tags to add, keeping existing ones" },
+            removeTags: { type: "array", items: { type: "string" }, description: "Tags to remove, keeping the others" },
+          },
+          description: "Fields to set on every selected item (same fields as update_item)",
+        },
+      },
+      required: ["changes"],
+    },
+  },
+  {
+    name: "bulk_move_items",
+    description: "Move many items to another board, status column or row. Select items by itemIds or list_items filters. Returns a per-item report; use dryRun to preview.",
+    annotations: { readOnlyHint: false, destructiveHint: true },
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...selectionProperties,
+        targetBoardId: { type: "string", description: "Target board UUID, name or display ID" },
+        targetStatusId: { type: "string", description: "Target status UUID or name" },
+        targetRowId: { type: "string", description: "Target row UUID or name" },
+      },
+    },
+  },
+  {
+    name: "bulk_archive_items",
+    description: "Archive or unarchive many items. Select items by itemIds or list_items filters. Returns a per-item report; use dryRun to preview.",
+    annotations: { readOnlyHint: false, destructiveHint: true },
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...selectionProperties,
+        archived: { type: "boolean", description: "True to archive, false to unarchive (default: true)" },
+      },
+    },
+  },
+];
+
+interface ItemResult {
+  itemId: string;
+  title?: string;
+  ok: boolean;
+  error?: string;
+}
+
+function hasFilter(args: Record<string, unknown>): boolean {
+  return Object.keys(itemFilterProperties).some((key) => args[key] !== undefined);
+}
+
+// Resolve the selection to item snapshots. ID lists only fetch item details
+// when they are needed (previews and tag edits) to save rate-limit budget.
+async function selectItems(args: Record<string, unknown>, needDetails: boolean): Promise<Item[]> {
+  const maxItems = (args.maxItems as number | undefined) ?? DEFAULT_MAX_ITEMS;
+  const itemIds = args.itemIds as string[] | undefined;
+
+  if (itemIds) {
+    if (hasFilter(args)) throw new Error("Pass either itemIds or list_items filters, not both");
+    const unique = [...new Set(itemIds)];
+    if (unique.length > maxItems) {
+      throw new Error(`${unique.length} items selected, more than maxItems (${maxItems}). Raise maxItems to proceed.`);
+    }
+    if (!needDetails) return unique.map((id) => ({ id }));
+    return mapConcurrent(unique, concurrencyFrom(args), getItem);
+  }
+
+  if (!hasFilter(args)) {
+    throw new Error("Select items with itemIds or at least one list_items filter (e.g. boardId, statusId, tags)");
+  }
+  const { records } = await fetchAllItems(args, maxItems + 1);
+  if (records.length > maxItems) {
+    throw new Error(`Filter matches more than maxItems (${maxItems}) items. Narrow the filter or raise maxItems.`);
+  }
+  return records;
+}
+
+function concurrencyFrom(args: Record<string, unknown>): number {
+  return (args.concurrency as number | undefined) ?? DEFAULT_CONCURRENCY;
+}
+
+async function runBulk(
+  tool: string,
+  args: Record<string, unknown>,
+  payloadFor: (item: Item) => Record<string, unknown>,
+  needDetails: boolean
+): Promise<unknown> {
+  const dryRun = args.dryRun === true;
+  const items = await selectItems(args, needDetails || dryRun);
+
+  if (dryRun) {
+    return {
+      dryRun: true,
+      matched: items.length,
+      results: items.map((item) => ({
+        itemId: item.id,
+        title: item.title,
+        changes: diffItem(item, payloadFor(item)),
+      })),
+    };
+  }
+
+  const results = await mapConcurrent(items, concurrencyFrom(args), async (item): Promise<ItemResult> => {
+    try {
+      await updateItem(item.id, payloadFor(item), tool);
+      return { itemId: item.id, title: item.title, ok: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { itemId: item.id, title: item.title, ok: false, error: message };
+    }
+  });
+
+  const failed = results.filter((r) => !r.ok).length;
+  return {
+    dryRun: false,
+    matched: items.length,
+    succeeded: items.length - failed,
+    failed,
+    results,
+  };
+}
+
+export async function handleBulkTool(name: string, args: Record<string, unknown>): Promise<unknown> {
+  switch (name) {
+    case "bulk_update_items": {
+      const { addTags, removeTags, ...fields } = args.changes as Record<string, unknown>;
+      // Status and row names in changes resolve against the destination
+      // board, falling back to the board the filter selects
+      const resolved = await resolveArgs(
+        "update_item",
+        { ...fields, boardId: fields.boardId ?? args.boardId },
+        new NameResolver(true)
+      );
+      if (fields.boardId === undefined) delete resolved.boardId;
+
+      const data = buildItemUpdate(resolved);
+      const tagEdits = (addTags ?? removeTags) !== undefined;
+      if (Object.keys(data).length === 0 && !tagEdits) {
+        throw new Error("changes must set at least one field");
+      }
+      if (tagEdits && data.tags !== undefined) {
+        throw new Error("Use either tags or addTags/removeTags in changes, not both");
+      }
+
+      return runBulk(
+        name,
+        args,
+        (item) => {
+          if (!tagEdits) return data;
+          const tags = new Set(item.tags ?? []);
+          for (const tag of (addTags as string[] | undefined) ?? []) tags.add(tag);
+          for (const tag of (removeTags as string[] | undefined) ?? []) tags.delete(tag);
+          return { ...data, tags: [...tags] };
+        },
+        tagEdits
+      );
+    }
+
+    case "bulk_move_items": {
+      if (!args.targetBoardId && !args.targetStatusId && !args.targetRowId) {
+        throw new Error("Provide at least one of targetBoardId, targetStatusId or targetRowId");
+      }
+      const data = { boardId: args.targetBoardId, statusId: args.targetStatusId, rowId: args.targetRowId };
+      return runBulk(name, args, () => data, false);
+    }
+
+    case "bulk_archive_items": {
+      const data = { archived: args.archived ?? true };
+      return runBulk(name, args, () => data, false);
+    }
+
+    default:
+      throw new Error(`Unknown tool: ${name}`);
+  }
+}
@@ -0,0 +1,131 @@
+import { currentProfile } from "./profiles.js";
+
+// ============================================================================
+// METADATA CACHE - board structure rarely changes, so read-only structural
+// endpoints are served from memory until their TTL expires or a create call
+// invalidates them
+// ============================================================================
+
+export type CacheGroup = "workspaces" | "boards" | "statuses" | "rows" | "users" | "templates";
+
+interface CacheRule {
+  group: CacheGroup;
+  pattern: RegExp;
+}
+
+const RULES: CacheRule[] = [
+  { group: "workspaces", pattern: /^\/workspaces(\/[^/?]+)?$/ },
+  { group: "boards", pattern: /^\/workspaces\/[^/?]+\/boards$/ },
+  { group: "statuses", pattern: /^\/boards\/[^/?]+\/statuses$/ },
+  { group: "rows", pattern: /^\/boards\/[^/?]+\/rows$/ },
+  { group: "users", pattern: /^\/users$/ },
+  { group: "templates", pattern: /^\/templates\/(workspace|board)$/ },
+];
+
+function envSeconds(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative number of seconds, got "${raw}"`);
+  }
+  return value;
+}
+
+// TTL in seconds per group; 0 disables caching for that group
+const defaultTtl = envSeconds("TEAMHOOD_CACHE_TTL", 300);
+const TTL_SECONDS: Record<CacheGroup, number> = {
+  workspaces: envSeconds("TEAMHOOD_CACHE_TTL_WORKSPACES", defaultTtl),
+  boards: envSeconds("TEAMHOOD_CACHE_TTL_BOARDS", defaultTtl),
+  statuses: envSeconds("TEAMHOOD_CACHE_TTL_STATUSES", defaultTtl),
+  rows: envSeconds("TEAMHOOD_CACHE_TTL_ROWS", defaultTtl),
+  users: envSeconds("TEAMHOOD_CACHE_TTL_USERS", defaultTtl),
+  templates: envSeconds("TEAMHOOD_CACHE_TTL_TEMPLATES", 3600),
+};
+
+// Entries are keyed by profile and endpoint: two tenants never share data
+interface CacheEntry {
+  profile: string;
+  endpoint: string;
+  group: CacheGroup;
+  expiresAt: number;
+  value: Promise<unknown>;
+}
+
+const entries = new Map<string, CacheEntry>();
+let hits = 0;
+let misses = 0;
+
+function ruleFor(endpoint: string): CacheRule | undefined {
+  return RULES.find((rule) => rule.pattern.test(endpoint));
+}
+
+// Serve a GET from the cache, or run the request and remember the result.
+// In-flight requests are shared, so parallel lookups hit the API once.
+export async function cachedGet<T>(endpoint: string, load: () => Promise<T>): Promise<T> {
+  const rule = ruleFor(endpoint);
+  if (!rule || TTL_SECONDS[rule.group] === 0) return load();
+
+  const profile = currentProfile().name;
+  const key = `${profile} ${endpoint}`;
+  const now = Date.now();
+  const cached = entries.get(key);
+  if (cached && cached.expiresAt > now) {
+    hits++;
+    // Callers get their own copy so they cannot mutate the cached value
+    return structuredClone(await cached.value) as T;
+  }
+
+  misses++;
+  const value = load();
+  entries.set(key, { profile, endpoint, group: rule.group, expiresAt: now + TTL_SECONDS[rule.group] * 1000, value });
+  try {
+    return structuredClone(await value);
+  } catch (error) {
+    // Never cache failures
+    if (entries.get(key)?.value === value) entries.delete(key);
+    throw error;
+  }
+}
+
+// Drop matching entries of the active profile
+export function invalidate(predicate: (endpoint: string, group: CacheGroup) => boolean): number {
+  const profile = currentProfile().name;
+  let cleared = 0;
+  for (const [key, entry] of entries) {
+    if (entry.profile === profile && predicate(entry.endpoint, entry.group)) {
+      entries.delete(key);
+      cleared++;
+    }
+  }
+  return cleared;
+}
+
+// Drop whatever a successful write may have made stale
+export function invalidateForMutation(endpoint: string, method: string, body: unknown): void {
+  const data = (body ?? {}) as Record<string, unknown>;
+
+  if (endpoint === "/workspaces" && method === "POST") {
+    invalidate((_, group) => group === "workspaces");
+  } else if (endpoint.startsWith("/workspaces/")) {
+    // Membership and settings changes
+    const workspaceId = endpoint.split("/")[2];
+    invalidate((cached) => cached === `/workspaces/${workspaceId}` || cached === "/workspaces");
+  } else if (endpoint === "/boards" && method === "POST") {
+    invalidate((cached) => cached === `/workspaces/${data.workspaceId}/boards`);
+  } else if (endpoint === "/rows" && method === "POST") {
+    invalidate((cached) => cached === `/boards/${data.boardId}/rows`);
+  }
+}
+
+export function clearCache(group?: CacheGroup, boardId?: string): number {
+  return invalidate((endpoint, entryGroup) => {
+    if (group && entryGroup !== group) return false;
+    if (boardId && !endpoint.startsWith(`/boards/${boardId}/`)) return false;
+    return true;
+  });
+}
+
+export function cacheStats(): { entries: number; hits: number; misses: number; ttlSeconds: Record<CacheGroup, number> } {
+  return { entries: entries.size, hits, misses, ttlSeconds: { ...TTL_SECONDS } };
+}
@@ -0,0 +1,88 @@
+// ============================================================================
+// CSV - RFC 4180 reading and writing for spreadsheet imports and exports
+// ============================================================================
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  let text = Array.isArray(value) ? value.join("; ") : String(value);
+  if (FORMULA_PREFIX.test(text) && typeof value !== "number") text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(headers: string[], rows: Array<Record<string, unknown>>): string {
+  const lines = [headers.map(csvCell).join(",")];
+  for (const row of rows) lines.push(headers.map((header) => csvCell(row[header])).join(","));
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+// Comma, semicolon (European Excel) or tab, whichever the header line uses most
+function detectDelimiter(text: string): string {
+  const header = text.split(/\r?\n/, 1)[0];
+  const counts = [",", ";", "\t"].map((d) => [d, header.split(d).length] as const);
+  return counts.reduce((best, current) => (current[1] > best[1] ? current : best))[0];
+}
+
+function parseCsvRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) throw new Error("CSV ends inside a quoted value");
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+// Records keyed by the header row. Each record carries its position in the
+// file (the header is record 1) for error messages.
+export function parseCsv(text: string, delimiter?: string): Array<{ record: number; values: Record<string, string> }> {
+  const content = text.replace(/^\uFEFF/, "");
+  const [header, ...rows] = parseCsvRows(content, delimiter ?? detectDelimiter(content));
+  if (!header) return [];
+  const names = header.map((name) => name.trim());
+  const duplicate = names.find((name, index) => name && names.indexOf(name) !== index);
+  if (duplicate) throw new Error(`CSV header has the column "${duplicate}" twice`);
+
+  return rows.map((row, index) => {
+    if (row.length > names.length) {
+      throw new Error(`CSV record ${index + 2} has ${row.length} values but the header has ${names.length} columns`);
+    }
+    const values: Record<string, string> = {};
+    names.forEach((name, column) => {
+      if (name) values[name] = row[column] ?? "";
+    });
+    return { record: index + 2, values };
+  });
+}
@@ -0,0 +1,586 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { getItem, updateItem } from "./items.js";
+import { fetchAllItems } from "./pagination.js";
+import { mapConcurrent } from "./rateLimit.js";
+import { Dependency, DependencyDirection, Item } from "./types.js";
+
+// ============================================================================
+// DEPENDENCY GRAPH - read blocking/waiting links back as a graph: Mermaid and
+// DOT output, cycles, the critical path, due-date impact, and single-edge
+// edits that leave the item's other dependencies alone
+// ============================================================================
+
+const DAY_MS = 86_400_000;
+const DEFAULT_DEPTH = 5;
+const MAX_NODES = 500;
+const LOOKUP_CONCURRENCY = 4;
+const DIRECTIONS: DependencyDirection[] = ["FinishToStart", "StartToStart", "FinishToFinish", "StartToFinish"];
+const SHORT_DIRECTION: Record<DependencyDirection, string> = {
+  FinishToStart: "FS",
+  StartToStart: "SS",
+  FinishToFinish: "FF",
+  StartToFinish: "SF",
+};
+
+export const dependencyTools: Tool[] = [
+  {
+    name: "get_dependency_graph",
+    description: "Dependency graph of a board, or around one item, built from blocking/waiting links. Returns nodes, edges, dependency cycles, date conflicts and the critical path (the chain of driving links ending at the latest due date), as JSON, a Mermaid flowchart or Graphviz DOT. At most 500 items are loaded; larger scopes come back with truncated: true.",
+    annotations: { readOnlyHint: true },
+    inputSchema: {
+      type: "object",
+      properties: {
+        boardId: { type: "string", description: "Board UUID, name or display ID (graph of every item on the board)" },
+        itemId: { type: "string", description: "Item UUID (graph of the items linked to it, directly or indirectly)" },
+        depth: { type: "integer", minimum: 1, maximum: 20, description: `How many links to follow from itemId (default ${DEFAULT_DEPTH})` },
+        includeCompleted: { type: "boolean", description: "Keep completed items in the graph (default true)" },
+        format: { type: "string", enum: ["json", "mermaid", "dot"], description: "Output format (default json)" },
+      },
+    },
+  },
+  {
+    name: "get_dependency_impact",
+    description: "List the items that would slip if an item's due date moved, following its blocking links and their directions. Successors keep their duration and absorb the delay with any slack they have.",
+    annotations: { readOnlyHint: true },
+    inputSchema: {
+      type: "object",
+      properties: {
+        itemId: { type: "string", description: "Item UUID whose due date moves" },
+        newDueDate: { type: "string", format: "date-time", description: "Proposed due date (ISO 8601)" },
+        delayDays: { type: "number", description: "Alternatively, the number of days the due date moves by" },
+        depth: { type: "integer", minimum: 1, maximum: 20, description: `How many links to follow (default ${DEFAULT_DEPTH})` },
+      },
+      required: ["itemId"],
+    },
+  },
+  {
+    name: "add_dependency",
+    description: "Add one dependency link: fromItemId blocks toItemId, written to both items. Other dependencies of both items are kept. Refuses links that would create a cycle.",
+    annotations: { readOnlyHint: false, destructiveHint: false },
+    inputSchema: {
+      type: "object",
+      properties: {
+        fromItemId: { type: "string", description: "Item UUID that blocks (the predecessor)" },
+        toItemId: { type: "string", description: "Item UUID that waits (the successor)" },
+        direction: { type: "string", enum: DIRECTIONS, description: "Link type (default FinishToStart)" },
+        dryRun: { type: "boolean", description: "Show the change without making it" },
+      },
+      required: ["fromItemId", "toItemId"],
+    },
+  },
+  {
+    name: "remove_dependency",
+    description: "Remove the dependency link between fromItemId (blocking) and toItemId (waiting), from both items. Other dependencies are kept.",
+    annotations: { readOnlyHint: false, destructiveHint: true },
+    inputSchema: {
+      type: "object",
+      properties: {
+        fromItemId: { type: "string", description: "Item UUID that blocks (the predecessor)" },
+        toItemId: { type: "string", description: "Item UUID that waits (the successor)" },
+        dryRun: { type: "boolean", description: "Show the change without making it" },
+      },
+      required: ["fromItemId", "toItemId"],
+    },
+  },
+];
+
+interface Edge {
+  from: string;
+  to: string;
+  direction: DependencyDirection;
+}
+
+interface Graph {
+  nodes: Map<string, Item>;
+  edges: Edge[];
+  // More than MAX_NODES items were in scope; the graph holds the first ones
+  truncated: boolean;
+}
+
+// ----------------------------------------------------------------------------
+// Loading
+// ----------------------------------------------------------------------------
+
+// Links are stored on both ends (a blocks b, b waits for a); each one is
+// reported once, as predecessor -> successor
+function itemEdges(item: Item): Edge[] {
+  return [
+    ...(item.blocking ?? []).map((d) => ({ from: item.id, to: d.itemId, direction: d.direction })),
+    ...(item.waiting ?? []).map((d) => ({ from: d.itemId, to: item.id, direction: d.direction })),
+  ];
+}
+
+// Links to items outside the loaded set (beyond the walk depth) are dropped
+function buildGraph(items: Item[], truncated = false): Graph {
+  const nodes = new Map(items.map((item) => [item.id, item]));
+  const edges = new Map<string, Edge>();
+  for (const item of items) {
+    for (const edge of itemEdges(item)) {
+      if (nodes.has(edge.from) && nodes.has(edge.to)) edges.set(`${edge.from}>${edge.to}`, edge);
+    }
+  }
+  return { nodes, edges: [...edges.values()], truncated };
+}
+
+async function fetchItems(ids: string[]): Promise<Item[]> {
+  return mapConcurrent(ids, LOOKUP_CONCURRENCY, async (id) => {
+    try {
+      return await getItem(id);
+    } catch {
+      // Links can point at deleted items or boards the key cannot read
+      return { id } as Item;
+    }
+  });
+}
+
+// Breadth-first walk along links in both directions, or only forwards
+async function walkItems(start: Item, depth: number, forwardOnly = false): Promise<{ items: Item[]; truncated: boolean }> {
+  const items = new Map([[start.id, start]]);
+  let frontier = [start];
+  let truncated = false;
+  for (let level = 0; level < depth && frontier.length > 0 && !truncated; level++) {
+    const next = new Set<string>();
+    for (const item of frontier) {
+      for (const edge of itemEdges(item)) {
+        if (forwardOnly && edge.from !== item.id) continue;
+        for (const id of [edge.from, edge.to]) if (!items.has(id)) next.add(id);
+      }
+    }
+    truncated = next.size > MAX_NODES - items.size;
+    frontier = await fetchItems([...next].slice(0, MAX_NODES - items.size));
+    for (const item of frontier) items.set(item.id, item);
+  }
+  return { items: [...items.values()], truncated };
+}
+
+async function loadGraph(args: Record<string, unknown>): Promise<Graph> {
+  if (args.itemId) {
+    const start = await getItem(args.itemId as string);
+    const { items, truncated } = await walkItems(start, (args.depth as number | undefined) ?? DEFAULT_DEPTH);
+    return buildGraph(items, truncated);
+  }
+  if (!args.boardId) throw new Error("Either boardId or itemId is required");
+
+  const page = await fetchAllItems({ boardId: args.boardId, includeChildItems: true }, MAX_NODES);
+  const items = page.records.filter((item) => !item.archived);
+  // Items on other boards that board items link to
+  const onBoard = new Set(items.map((item) => item.id));
+  const external = [...new Set(items.flatMap(itemEdges).flatMap((e) => [e.from, e.to]))].filter((id) => !onBoard.has(id));
+  return buildGraph([...items, ...(await fetchItems(external))], page.truncated);
+}
+
+// ----------------------------------------------------------------------------
+// Analysis
+// ----------------------------------------------------------------------------
+
+function time(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const t = Date.parse(value);
+  return Number.isNaN(t) ? undefined : t;
+}
+
+function days(ms: number): number {
+  return Math.round((ms / DAY_MS) * 10) / 10;
+}
+
+// The predecessor date a link constrains, and the successor date it
+// constrains, e.g. FinishToStart: the successor starts after the predecessor is due
+function linkDates(edge: Edge, from: Item, to: Item): { predecessor?: number; successor?: number } {
+  const fromField = edge.direction.startsWith("Start") ? from.startDate : from.dueDate;
+  const toField = edge.direction.endsWith("Start") ? to.startDate : to.dueDate;
+  return { predecessor: time(fromField), successor: time(toField) };
+}
+
+// Days between what a link requires and the successor's date (negative when
+// the plan already violates the link)
+function linkSlack(edge: Edge, graph: Graph): number | undefined {
+  const from = graph.nodes.get(edge.from);
+  const to = graph.nodes.get(edge.to);
+  if (!from || !to) return undefined;
+  const { predecessor, successor } = linkDates(edge, from, to);
+  return predecessor === undefined || successor === undefined ? undefined : successor - predecessor;
+}
+
+// Strongly connected components with more than one item (Tarjan), or an
+// item that depends on itself
+function findCycles(graph: Graph): string[][] {
+  const successors = new Map<string, string[]>();
+  for (const edge of graph.edges) successors.set(edge.from, [...(successors.get(edge.from) ?? []), edge.to]);
+
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  const visit = (id: string) => {
+    index.set(id, counter);
+    low.set(id, counter++);
+    stack.push(id);
+    onStack.add(id);
+    for (const next of successors.get(id) ?? []) {
+      if (!index.has(next)) {
+        visit(next);
+        low.set(id, Math.min(low.get(id)!, low.get(next)!));
+      } else if (onStack.has(next)) {
+        low.set(id, Math.min(low.get(id)!, index.get(next)!));
+      }
+    }
+    if (low.get(id) === index.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      if (component.length > 1 || (successors.get(id) ?? []).includes(id)) cycles.push(component.reverse());
+    }
+  };
+
+  const ids = [...new Set([...graph.nodes.keys(), ...graph.edges.flatMap((e) => [e.from, e.to])])];
+  for (const id of ids) if (!index.has(id)) visit(id);
+  return cycles;
+}
+
+// Start at the item due last and walk back along the driving link each time:
+// the incoming link with the least slack
+function criticalPath(graph: Graph): { items: string[]; links: Array<Edge & { slackDays: number | null }> } {
+  const linked = new Set(graph.edges.flatMap((e) => [e.from, e.to]));
+  const candidates = [...graph.nodes.values()].filter((item) => linked.has(item.id) && time(item.dueDate) !== undefined);
+  if (candidates.length === 0) return { items: [], links: [] };
+  let current = candidates.reduce((latest, item) => (time(item.dueDate)! > time(latest.dueDate)! ? item : latest)).id;
+
+  const items = [current];
+  const links: Array<Edge & { slackDays: number | null }> = [];
+  const visited = new Set(items);
+  for (;;) {
+    const incoming = graph.edges
+      .filter((e) => e.to === current && !visited.has(e.from))
+      .map((edge) => ({ edge, slack: linkSlack(edge, graph) }))
+      .sort((a, b) => (a.slack ?? Infinity) - (b.slack ?? Infinity));
+    if (incoming.length === 0) break;
+    const { edge, slack } = incoming[0];
+    links.unshift({ ...edge, slackDays: slack === undefined ? null : days(slack) });
+    current = edge.from;
+    items.unshift(current);
+    visited.add(current);
+  }
+  return { items, links };
+}
+
+function nodeLabel(item: Item | undefined, id: string): string {
+  return [item?.displayId, item?.title].filter(Boolean).join(" ") || id;
+}
+
+function analyse(graph: Graph, scope: Record<string, unknown>) {
+  const label = (id: string) => nodeLabel(graph.nodes.get(id), id);
+  const path = criticalPath(graph);
+  const first = graph.nodes.get(path.items[0]);
+  const last = graph.nodes.get(path.items[path.items.length - 1]);
+  const pathStart = time(first?.startDate) ?? time(first?.dueDate);
+  const pathEnd = time(last?.dueDate);
+
+  return {
+    scope,
+    nodes: [...graph.nodes.values()].map((item) => ({
+      id: item.id,
+      displayId: item.displayId,
+      title: item.title,
+      boardId: item.boardId,
+      statusId: item.statusId,
+      startDate: item.startDate,
+      dueDate: item.dueDate,
+      completed: item.completed,
+    })),
+    edges: graph.edges,
+    nodeCount: graph.nodes.size,
+    truncated: graph.truncated,
+    note: graph.truncated
+      ? `More than ${MAX_NODES} items are in scope; only the first ${MAX_NODES} were loaded, so cycles, conflicts and the critical path may be incomplete. Narrow the scope with itemId and depth.`
+      : undefined,
+    cycles: findCycles(graph).map((cycle) => cycle.map((id) => ({ id, label: label(id) }))),
+    conflicts: graph.edges
+      .map((edge) => ({ ...edge, slack: linkSlack(edge, graph) }))
+      .filter((edge) => edge.slack !== undefined && edge.slack < 0)
+      .map(({ slack, ...edge }) => ({ ...edge, fromLabel: label(edge.from), toLabel: label(edge.to), overlapDays: days(-slack!) })),
+    criticalPath: {
+      items: path.items.map((id) => ({ id, label: label(id) })),
+      links: path.links,
+      spanDays: pathStart !== undefined && pathEnd !== undefined ? days(pathEnd - pathStart) : null,
+    },
+  };
+}
+
+// ----------------------------------------------------------------------------
+// Rendering
+// ----------------------------------------------------------------------------
+
+function renderMermaid(graph: Graph, critical: Set<string>, cyclic: Set<string>): string {
+  const ids = new Map([...graph.nodes.keys()].map((id, index) => [id, `n${index}`]));
+  const node = (id: string) => ids.get(id)!;
+  const escape = (text: string) => text.replace(/"/g, "#quot;");
+  const lines = ["flowchart LR"];
+  if (graph.truncated) lines.push(`  %% truncated: only the first ${MAX_NODES} items in scope are shown`);
+  for (const [id, item] of graph.nodes) {
+    const style = cyclic.has(id) ? "cycle" : critical.has(id) ? "critical" : item.completed ? "done" : undefined;
+    lines.push(`  ${node(id)}["${escape(nodeLabel(item, id))}"]${style ? `:::${style}` : ""}`);
+  }
+  const criticalLinks: number[] = [];
+  graph.edges.forEach((edge, index) => {
+    lines.push(`  ${node(edge.from)} -->|${SHORT_DIRECTION[edge.direction] ?? edge.direction}| ${node(edge.to)}`);
+    if (critical.has(`${edge.from}>${edge.to}`)) criticalLinks.push(index);
+  });
+  lines.push(
+    "  classDef critical stroke:#d33,stroke-width:3px",
+    "  classDef cycle fill:#fdd,stroke:#d33",
+    "  classDef done fill:#eee,color:#888"
+  );
+  if (criticalLinks.length > 0) lines.push(`  linkStyle ${criticalLinks.join(",")} stroke:#d33,stroke-width:3px`);
+  return `${lines.join("\n")}\n`;
+}
+
+function renderDot(graph: Graph, critical: Set<string>, cyclic: Set<string>): string {
+  const quote = (text: string) => `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+  const lines = ["digraph dependencies {", "  rankdir=LR;", "  node [shape=box];"];
+  if (graph.truncated) lines.splice(1, 0, `  // truncated: only the first ${MAX_NODES} items in scope are shown`);
+  for (const [id, item] of graph.nodes) {
+    const attributes = [`label=${quote(nodeLabel(item, id))}`];
+    if (critical.has(id)) attributes.push("color=red", "penwidth=2");
+    if (cyclic.has(id)) attributes.push("style=filled", 'fillcolor="#ffdddd"');
+    else if (item.completed) attributes.push("style=filled", 'fillcolor="#eeeeee"');
+    lines.push(`  ${quote(id)} [${attributes.join(", ")}];`);
+  }
+  for (const edge of graph.edges) {
+    const attributes = [`label=${quote(SHORT_DIRECTION[edge.direction] ?? edge.direction)}`];
+    if (critical.has(`${edge.from}>${edge.to}`)) attributes.push("color=red", "penwidth=2");
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)} [${attributes.join(", ")}];`);
+  }
+  lines.push("}");
+  return `${lines.join("\n")}\n`;
+}
+
+// ----------------------------------------------------------------------------
+// Impact
+// ----------------------------------------------------------------------------
+
+function shifted(value: string | undefined, ms: number): string | undefined {
+  const t = time(value);
+  return t === undefined ? value : new Date(t + ms).toISOString();
+}
+
+// Push the delay through successors: each one moves (start and due together)
+// by however much the new predecessor date overruns it. Links that were
+// already violated only count the additional overrun.
+function propagateDelay(graph: Graph, itemId: string, delay: number) {
+  const slips = new Map<string, { slip: number; via: string }>([[itemId, { slip: 0, via: itemId }]]);
+  const moved = new Map<string, Item>();
+  const origin = graph.nodes.get(itemId)!;
+  moved.set(itemId, { ...origin, dueDate: shifted(origin.dueDate, delay) });
+
+  const undated: string[] = [];
+  const queue = [itemId];
+  // Links in a cycle could otherwise push each other forever
+  let budget = graph.edges.length * graph.nodes.size;
+  while (queue.length > 0 && budget-- > 0) {
+    const current = queue.shift()!;
+    for (const edge of graph.edges.filter((e) => e.from === current && e.to !== itemId)) {
+      const { predecessor, successor: required } = linkDates(edge, moved.get(current)!, moved.get(edge.to) ?? graph.nodes.get(edge.to)!);
+      if (predecessor === undefined || required === undefined) {
+        if (!undated.includes(edge.to)) undated.push(edge.to);
+        continue;
+      }
+      const before = linkSlack(edge, graph)!;
+      const overrun = predecessor - required - Math.max(0, -before);
+      if (overrun <= 0) continue;
+      const original = graph.nodes.get(edge.to)!;
+      const slip = (slips.get(edge.to)?.slip ?? 0) + overrun;
+      slips.set(edge.to, { slip, via: current });
+      moved.set(edge.to, { ...original, startDate: shifted(original.startDate, slip), dueDate: shifted(original.dueDate, slip) });
+      queue.push(edge.to);
+    }
+  }
+  slips.delete(itemId);
+  return { slips, moved, undated: undated.filter((id) => !slips.has(id)) };
+}
+
+// ----------------------------------------------------------------------------
+// Single-edge edits
+// ----------------------------------------------------------------------------
+
+interface LinkUpdate {
+  itemId: string;
+  field: "blocking" | "waiting";
+  from: Dependency[];
+  to: Dependency[];
+}
+
+function withoutLink(list: Dependency[] | undefined, itemId: string): Dependency[] {
+  return (list ?? []).filter((d) => d.itemId !== itemId);
+}
+
+// Whether start blocks targetId through a chain of links. Breadth-first over
+// each item once; a chain longer than MAX_NODES items cannot be ruled out, so
+// running out of budget is an error rather than "no cycle".
+async function blocksTransitively(start: Item, targetId: string): Promise<boolean> {
+  const visited = new Set([start.id]);
+  let frontier = [start];
+  while (frontier.length > 0) {
+    const next: string[] = [];
+    for (const item of frontier) {
+      for (const edge of itemEdges(item)) {
+        if (edge.from !== item.id || visited.has(edge.to)) continue;
+        if (edge.to === targetId) return true;
+        visited.add(edge.to);
+        next.push(edge.to);
+      }
+    }
+    if (visited.size > MAX_NODES) {
+      throw new Error(`More than ${MAX_NODES} items follow ${nodeLabel(start, start.id)}; cannot check the link for cycles`);
+    }
+    frontier = await fetchItems(next);
+  }
+  return false;
+}
+
+async function addDependency(args: Record<string, unknown>): Promise<unknown> {
+  const fromId = args.fromItemId as string;
+  const toId = args.toItemId as string;
+  const direction = (args.direction as DependencyDirection | undefined) ?? "FinishToStart";
+  if (fromId === toId) throw new Error("An item cannot depend on itself");
+
+  const [from, to] = await Promise.all([getItem(fromId), getItem(toId)]);
+  const existing = itemEdges(from).find((e) => e.from === fromId && e.to === toId) ?? itemEdges(to).find((e) => e.from === fromId && e.to === toId);
+  if (existing?.direction === direction) {
+    return { unchanged: true, message: `${nodeLabel(from, fromId)} already blocks ${nodeLabel(to, toId)} (${direction})` };
+  }
+  if (itemEdges(from).some((e) => e.from === toId && e.to === fromId)) {
+    throw new Error(`${nodeLabel(to, toId)} already blocks ${nodeLabel(from, fromId)}; the link would create a cycle`);
+  }
+  if (await blocksTransitively(to, fromId)) {
+    throw new Error(`${nodeLabel(from, fromId)} already depends on ${nodeLabel(to, toId)} through other items; the link would create a cycle`);
+  }
+
+  // Written on both ends, like remove_dependency clears both
+  const updates: LinkUpdate[] = [
+    { itemId: fromId, field: "blocking", from: from.blocking ?? [], to: [...withoutLink(from.blocking, toId), { itemId: toId, direction }] },
+    { itemId: toId, field: "waiting", from: to.waiting ?? [], to: [...withoutLink(to.waiting, fromId), { itemId: fromId, direction }] },
+  ];
+  if (args.dryRun) {
+    return { dryRun: true, changes: updates.map((u) => ({ itemId: u.itemId, [u.field]: { from: u.from, to: u.to } })) };
+  }
+  const [first, second] = updates;
+  await updateItem(first.itemId, { [first.field]: first.to }, "add_dependency");
+  try {
+    await updateItem(second.itemId, { [second.field]: second.to }, "add_dependency");
+  } catch (error) {
+    // Put the first end back so the link is not left half-written
+    const reason = error instanceof Error ? error.message : String(error);
+    try {
+      await updateItem(first.itemId, { [first.field]: first.from }, "add_dependency");
+    } catch {
+      throw new Error(
+        `Link only partly written: ${first.field} of ${nodeLabel(from, fromId)} was updated, but ${second.field} of ` +
+          `${nodeLabel(to, toId)} failed (${reason}) and the first change could not be reverted. ` +
+          "Run add_dependency again, or remove_dependency to clear it."
+      );
+    }
+    throw new Error(`Cannot add the link: updating ${second.field} of ${nodeLabel(to, toId)} failed (${reason}); no change was kept`);
+  }
+  return { success: true, from: fromId, to: toId, direction, replaced: existing?.direction };
+}
+
+async function removeDependency(args: Record<string, unknown>): Promise<unknown> {
+  const fromId = args.fromItemId as string;
+  const toId = args.toItemId as string;
+  const [from, to] = await Promise.all([getItem(fromId), getItem(toId)]);
+
+  const updates: LinkUpdate[] = [];
+  if ((from.blocking ?? []).some((d) => d.itemId === toId)) {
+    updates.push({ itemId: fromId, field: "blocking", from: from.blocking!, to: withoutLink(from.blocking, toId) });
+  }
+  if ((to.waiting ?? []).some((d) => d.itemId === fromId)) {
+    updates.push({ itemId: toId, field: "waiting", from: to.waiting!, to: withoutLink(to.waiting, fromId) });
+  }
+  if (updates.length === 0) throw new Error(`${nodeLabel(from, fromId)} does not block ${nodeLabel(to, toId)}`);
+
+  if (args.dryRun) {
+    return { dryRun: true, changes: updates.map((u) => ({ itemId: u.itemId, [u.field]: { from: u.from, to: u.to } })) };
+  }
+  for (const update of updates) {
+    await updateItem(update.itemId, { [update.field]: update.to }, "remove_dependency");
+  }
+  return { success: true, from: fromId, to: toId, updatedItems: updates.map((u) => u.itemId) };
+}
+
+export async function handleDependencyTool(name: string, args: Record<string, unknown>): Promise<unknown> {
+  switch (name) {
+    case "get_dependency_graph": {
+      let graph = await loadGraph(args);
+      if (args.includeCompleted === false) {
+        graph = buildGraph([...graph.nodes.values()].filter((item) => !item.completed || item.id === args.itemId), graph.truncated);
+      }
+      const scope = args.itemId ? { itemId: args.itemId, depth: args.depth ?? DEFAULT_DEPTH } : { boardId: args.boardId };
+      const result = analyse(graph, scope);
+      const format = (args.format as string | undefined) ?? "json";
+      if (format === "json") return result;
+
+      const critical = new Set<string>([
+        ...result.criticalPath.items.map((i) => i.id),
+        ...result.criticalPath.links.map((l) => `${l.from}>${l.to}`),
+      ]);
+      const cyclic = new Set(result.cycles.flat().map((i) => i.id));
+      return format === "mermaid" ? renderMermaid(graph, critical, cyclic) : renderDot(graph, critical, cyclic);
+    }
+
+    case "get_dependency_impact": {
+      const item = await getItem(args.itemId as string);
+      const due = time(item.dueDate);
+      if (due === undefined) throw new Error(`${nodeLabel(item, item.id)} has no due date`);
+      let delay: number;
+      if (args.newDueDate !== undefined) delay = Date.parse(args.newDueDate as string) - due;
+      else if (args.delayDays !== undefined) delay = (args.delayDays as number) * DAY_MS;
+      else throw new Error("Either newDueDate or delayDays is required");
+
+      const { items, truncated } = await walkItems(item, (args.depth as number | undefined) ?? DEFAULT_DEPTH, true);
+      const graph = buildGraph(items, truncated);
+      const { slips, moved, undated } = propagateDelay(graph, item.id, delay);
+      const slipping = [...slips.entries()]
+        .map(([id, { slip, via }]) => {
+          const original = graph.nodes.get(id)!;
+          return {
+            id,
+            label: nodeLabel(original, id),
+            slipDays: days(slip),
+            via: nodeLabel(graph.nodes.get(via), via),
+            dueDate: original.dueDate,
+            newDueDate: moved.get(id)?.dueDate,
+          };
+        })
+        .sort((a, b) => b.slipDays - a.slipDays);
+
+      return {
+        itemId: item.id,
+        label: nodeLabel(item, item.id),
+        dueDate: item.dueDate,
+        newDueDate: new Date(due + delay).toISOString(),
+        delayDays: days(delay),
+        downstreamItems: graph.nodes.size - 1,
+        slipping,
+        undated: undated.map((id) => ({ id, label: nodeLabel(graph.nodes.get(id), id) })),
+        truncated,
+        note: delay <= 0 ? "Moving a due date earlier never delays successors." : undefined,
+      };
+    }
+
+    case "add_dependency":
+      return addDependency(args);
+
+    case "remove_dependency":
+      return removeDependency(args);
+
+    default:
+      throw new Error(`Unknown tool: ${name}`);
+  }
+}
@@ -0,0 +1,252 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+// ============================================================================
+// ERRORS - typed failures with a machine-readable code, the failing field and
+// a hint on how to recover, so the model can tell a bad ID from an expired
+// key or a rate limit
+// ============================================================================
+
+export type ErrorCode = "AUTH" | "NOT_FOUND" | "VALIDATION" | "RATE_LIMIT" | "CONFLICT" | "SERVER" | "ERROR";
+
+export interface ErrorDetails {
+  // HTTP status of the failed API call
+  status?: number;
+  field?: string;
+  hint?: string;
+  // Every field error the API reported, by field
+  fieldErrors?: Record<string, string[]>;
+  retryAfterSeconds?: number;
+}
+
+export class TeamhoodError extends Error {
+  readonly details: ErrorDetails;
+
+  constructor(readonly code: ErrorCode, message: string, details: ErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.details = details;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { code: this.code, message: this.message, ...this.details };
+  }
+}
+
+export class AuthError extends TeamhoodError {
+  constructor(message: string, details?: ErrorDetails) {
+    super("AUTH", message, details);
+  }
+}
+
+export class NotFoundError extends TeamhoodError {
+  constructor(message: string, details?: ErrorDetails) {
+    super("NOT_FOUND", message, details);
+  }
+}
+
+export class ValidationError extends TeamhoodError {
+  constructor(message: string, details?: ErrorDetails) {
+    super("VALIDATION", message, details);
+  }
+}
+
+export class RateLimitError extends TeamhoodError {
+  constructor(message: string, details?: ErrorDetails) {
+    super("RATE_LIMIT", message, details);
+  }
+}
+
+export class ConflictError extends TeamhoodError {
+  constructor(message: string, details?: ErrorDetails) {
+    super("CONFLICT", message, details);
+  }
+}
+
+export class ServerError extends TeamhoodError {
+  constructor(message: string, details?: ErrorDetails) {
+    super("SERVER", message, details);
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Hints
+// ----------------------------------------------------------------------------
+
+// Where to look up a valid value for an ID field
+const FIELD_HINTS: Record<string, string> = {
+  workspaceid: "use list_workspaces to find a valid workspaceId",
+  boardid: "use list_boards to find a valid boardId in this workspace",
+  statusid: "use list_statuses to find a valid statusId for this board",
+  rowid: "use list_rows to find a valid rowId for this board",
+  itemid: "use list_items or get_item to find a valid itemId",
+  parentid: "use list_items to find a valid parent item on this board",
+  userid: "use list_users to find a valid userId",
+  assigneduserid: "use list_users to find a valid user",
+  assigneeid: "use list_users to find a valid user",
+  ownerid: "use list_users to find a valid user",
+  templateid: "use list_board_templates or list_workspace_templates to find a valid templateId",
+  attachmentid: "use list_attachments to find a valid attachmentId",
+};
+
+// Lookup tool for each entity kind the name resolver handles
+const KIND_HINTS: Record<string, string> = {
+  workspace: "use list_workspaces to see the available workspaces",
+  board: "use list_boards to see the boards of a workspace",
+  status: "use list_statuses to see the statuses of the board",
+  row: "use list_rows to see the rows of the board",
+  user: "use list_users to see the organization's users",
+  "workspace template": "use list_workspace_templates to see the available templates",
+  "board template": "use list_board_templates to see the available templates",
+};
+
+// Entity named by the first segment of an endpoint such as /items/{id}
+const ENDPOINT_ENTITIES: Record<string, { entity: string; hint: string }> = {
+  items: { entity: "Item", hint: FIELD_HINTS.itemid },
+  boards: { entity: "Board", hint: FIELD_HINTS.boardid },
+  workspaces: { entity: "Workspace", hint: FIELD_HINTS.workspaceid },
+  rows: { entity: "Row", hint: FIELD_HINTS.rowid },
+  attachments: { entity: "Attachment", hint: FIELD_HINTS.attachmentid },
+  users: { entity: "User", hint: FIELD_HINTS.userid },
+  timelogs: { entity: "Time log", hint: "use get_time_logs to find a valid time log" },
+};
+
+export function fieldHint(field: string | undefined): string | undefined {
+  return field ? FIELD_HINTS[field.toLowerCase()] : undefined;
+}
+
+export function kindHint(kind: string): string | undefined {
+  return KIND_HINTS[kind];
+}
+
+// ----------------------------------------------------------------------------
+// API failures
+// ----------------------------------------------------------------------------
+
+// API field names arrive as "StatusId", "$.statusId" or "request.StatusId"
+function normalizeField(name: string): string {
+  const last = name.replace(/^\$\.?/, "").split(".").pop() ?? name;
+  return last.charAt(0).toLowerCase() + last.slice(1);
+}
+
+// Teamhood answers with ASP.NET problem details ({ title, detail, errors }),
+// a { message } object or plain text
+function parseErrorBody(text: string): { message?: string; fieldErrors?: Record<string, string[]> } {
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    const plain = text.trim();
+    // HTML error pages from proxies say nothing useful
+    return { message: plain && !plain.startsWith("<") ? plain.slice(0, 500) : undefined };
+  }
+  if (typeof body === "string") return { message: body };
+  if (!body || typeof body !== "object") return {};
+
+  const record = body as Record<string, unknown>;
+  const fieldErrors: Record<string, string[]> = {};
+  const addFieldError = (field: unknown, message: unknown) => {
+    if (typeof field !== "string" || !field) return;
+    const key = normalizeField(field);
+    (fieldErrors[key] ??= []).push(String(message ?? "invalid"));
+  };
+  if (Array.isArray(record.errors)) {
+    for (const entry of record.errors as Array<Record<string, unknown>>) {
+      addFieldError(entry?.field ?? entry?.propertyName, entry?.message ?? entry?.errorMessage);
+    }
+  } else if (record.errors && typeof record.errors === "object") {
+    for (const [field, messages] of Object.entries(record.errors as Record<string, unknown>)) {
+      for (const message of Array.isArray(messages) ? messages : [messages]) addFieldError(field, message);
+    }
+  }
+
+  const message = [record.detail, record.message, record.error, record.errorMessage, record.title].find(
+    (value): value is string => typeof value === "string" && value.trim() !== ""
+  );
+  return { message, fieldErrors: Object.keys(fieldErrors).length > 0 ? fieldErrors : undefined };
+}
+
+// Typed error for a failed API call; the message names the method and path
+// without the query string
+export function apiError(
+  status: number,
+  bodyText: string,
+  method: string,
+  endpoint: string,
+  retryAfterSeconds?: number
+): TeamhoodError {
+  const path = endpoint.split("?")[0];
+  const { message: apiMessage, fieldErrors } = parseErrorBody(bodyText);
+  const fieldEntries = Object.entries(fieldErrors ?? {});
+  const field = fieldEntries[0]?.[0];
+  const fieldSummary = fieldEntries.map(([name, messages]) => `${name}: ${messages.join(", ")}`).join("; ");
+  const reason = [apiMessage, fieldSummary].filter(Boolean).join(" - ") || "no details given";
+  const message = `API Error ${status} on ${method} ${path}: ${reason}`;
+  const details: ErrorDetails = { status, field, fieldErrors, hint: fieldHint(field) };
+
+  if (status === 401) {
+    return new AuthError(message, {
+      ...details,
+      hint: "The API key was rejected: check TEAMHOOD_API_KEY, or the key of the profile in use (see list_profiles)",
+    });
+  }
+  if (status === 403) {
+    return new AuthError(message, {
+      ...details,
+      hint: "The API key's user has no access to this resource: ask a workspace owner to add it (add_workspace_member) or use another profile",
+    });
+  }
+  if (status === 404) {
+    const [, collection, id] = path.split("/");
+    const target = ENDPOINT_ENTITIES[collection];
+    const notFound = target && id ? `API Error 404 on ${method} ${path}: ${target.entity} ${id} was not found` : message;
+    return new NotFoundError(notFound, { ...details, hint: details.hint ?? target?.hint });
+  }
+  if (status === 409 || status === 412) {
+    return new ConflictError(message, {
+      ...details,
+      hint: "The record already exists or was changed by someone else: reload it (for example with get_item) and retry",
+    });
+  }
+  if (status === 429) {
+    const wait = retryAfterSeconds !== undefined ? `wait ${retryAfterSeconds}s` : "wait a minute";
+    return new RateLimitError(message, {
+      ...details,
+      retryAfterSeconds,
+      hint: `Still rate limited after automatic retries: ${wait} before retrying, and lower concurrency for bulk tools`,
+    });
+  }
+  if (status >= 500) {
+    return new ServerError(message, {
+      ...details,
+      hint: method === "GET"
+        ? "Teamhood failed to handle the request (already retried): try again later"
+        : "Teamhood failed to handle the request: check whether the change was applied before retrying",
+    });
+  }
+  return new ValidationError(message, {
+    ...details,
+    hint: details.hint ?? "Check the arguments against the tool's schema",
+  });
+}
+
+// ----------------------------------------------------------------------------
+// Tool results
+// ----------------------------------------------------------------------------
+
+// Error result for a failed tool call: the message for the model to read,
+// then the code, field and hint as JSON for clients that act on them
+export function toolErrorResult(error: unknown): CallToolResult {
+  const typed = error instanceof TeamhoodError
+    ? error
+    : new TeamhoodError("ERROR", error instanceof Error ? error.message : String(error));
+  const { hint } = typed.details;
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Error: ${typed.message}${hint ? `\nHint: ${hint}` : ""}\n\n${JSON.stringify({ error: typed.toJSON() }, null, 2)}`,
+      },
+    ],
+    isError: true,
+  };
+}
@@ -0,0 +1,241 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { apiRequest } from "./api.js";
+import { toCsv } from "./csv.js";
+import { outputPathFrom, writeLocalFile } from "./files.js";
+import { DEFAULT_MAX_RECORDS, fetchAllItems } from "./pagination.js";
+import { userLabel } from "./resolver.js";
+import { Board, Item, Row, Status, User } from "./types.js";
+
+// ============================================================================
+// BOARD EXPORT - one snapshot of a board's statuses, rows and items, rendered
+// as JSON, CSV or a Markdown Kanban for people outside Teamhood
+// ============================================================================
+
+type ExportFormat = "json" | "csv" | "markdown";
+
+export const exportTools: Tool[] = [
+  {
+    name: "export_board",
+    description: "Export a board snapshot (statuses, rows and all items including child items) as structured JSON, CSV (one row per item, custom fields as columns) or a Markdown Kanban grouped by status and row. Returns the export inline, or writes it to outputPath.",
+    // Writes a local file when given outputPath
+    annotations: { readOnlyHint: false, destructiveHint: false },
+    inputSchema: {
+      type: "object",
+      properties: {
+        boardId: { type: "string", description: "Board UUID, name or display ID" },
+        workspaceId: { type: "string", description: "Workspace UUID, name or display ID (used for the board title; optional)" },
+        format: { type: "string", enum: ["json", "csv", "markdown"], description: "Output format (default json)" },
+        outputPath: { type: "string", description: "Write the export to this local file instead of returning it" },
+        overwrite: { type: "boolean", description: "Replace outputPath if it already exists (default false)" },
+        includeArchived: { type: "boolean", description: "Include archived items (default false)" },
+        maxRecords: { type: "integer", minimum: 1, description: `Maximum number of items to export (default ${DEFAULT_MAX_RECORDS})` },
+      },
+      required: ["boardId"],
+    },
+  },
+];
+
+interface BoardSnapshot {
+  board: { id: string; title?: string; displayId?: string; workspaceId?: string };
+  exportedAt: string;
+  statuses: Status[];
+  rows: Row[];
+  items: ExportedItem[];
+  totalCount: number;
+  truncated: boolean;
+}
+
+// Item with the names behind its status, row and assignee IDs
+interface ExportedItem extends Item {
+  statusTitle?: string;
+  rowTitle?: string;
+  assigneeName?: string;
+}
+
+async function loadSnapshot(args: Record<string, unknown>): Promise<BoardSnapshot> {
+  const boardId = args.boardId as string;
+  const [statuses, rows, users, page] = await Promise.all([
+    apiRequest<Status[]>(`/boards/${boardId}/statuses`),
+    apiRequest<Row[]>(`/boards/${boardId}/rows`),
+    apiRequest<User[]>("/users"),
+    fetchAllItems({ boardId, includeChildItems: true }, (args.maxRecords as number | undefined) ?? DEFAULT_MAX_RECORDS),
+  ]);
+
+  const items = page.records.filter((item) => args.includeArchived === true || !item.archived);
+  const workspaceId = (args.workspaceId as string | undefined) ?? items.find((item) => item.workspaceId)?.workspaceId;
+  let board: Board | undefined;
+  if (workspaceId) {
+    const boards = await apiRequest<Board[]>(`/workspaces/${workspaceId}/boards`);
+    board = boards.find((b) => b.id === boardId);
+  }
+
+  const statusTitles = new Map(statuses.map((s) => [s.id, s.title]));
+  const rowTitles = new Map(rows.map((r) => [r.id, r.title]));
+  const userNames = new Map(users.map((u) => [u.id, userLabel(u)]));
+
+  return {
+    board: { id: boardId, title: board?.title, displayId: board?.displayId, workspaceId },
+    exportedAt: new Date().toISOString(),
+    statuses: [...statuses].sort((a, b) => (a.order ?? 0) - (b.order ?? 0)),
+    rows,
+    items: items.map((item) => ({
+      ...item,
+      statusTitle: item.statusId ? statusTitles.get(item.statusId) : undefined,
+      rowTitle: item.rowId ? rowTitles.get(item.rowId) : undefined,
+      assigneeName: item.assignedUserId ? userNames.get(item.assignedUserId) : undefined,
+    })),
+    totalCount: page.totalCount,
+    truncated: page.truncated,
+  };
+}
+
+function datePart(value: string | undefined): string | undefined {
+  return value?.slice(0, 10);
+}
+
+function renderCsv(snapshot: BoardSnapshot): string {
+  const displayIds = new Map(snapshot.items.map((item) => [item.id, item.displayId ?? item.id]));
+  const customFieldNames = [
+    ...new Set(snapshot.items.flatMap((item) => (item.customFields ?? []).map((field) => field.name))),
+  ].sort();
+  const headers = [
+    "id", "displayId", "title", "status", "row", "assignee", "parent", "startDate", "dueDate",
+    "completed", "archived", "milestone", "progress", "tags", "description",
+    ...customFieldNames.map((name) => `custom:${name}`),
+  ];
+
+  const rows = snapshot.items.map((item) => {
+    const row: Record<string, unknown> = {
+      id: item.id,
+      displayId: item.displayId,
+      title: item.title,
+      status: item.statusTitle ?? item.statusId,
+      row: item.rowTitle ?? item.rowId,
+      assignee: item.assigneeName ?? item.assignedUserId,
+      parent: item.parentId ? displayIds.get(item.parentId) ?? item.parentId : undefined,
+      startDate: datePart(item.startDate),
+      dueDate: datePart(item.dueDate),
+      completed: item.completed,
+      archived: item.archived,
+      milestone: item.milestone,
+      progress: item.progress,
+      tags: item.tags,
+      description: item.description,
+    };
+    for (const field of item.customFields ?? []) row[`custom:${field.name}`] = field.value;
+    return row;
+  });
+
+  return toCsv(headers, rows);
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/\s+/g, " ").replace(/([\\`*_[\]<>#|])/g, "\\$1").trim();
+}
+
+function renderMarkdown(snapshot: BoardSnapshot): string {
+  const title = snapshot.board.title ?? snapshot.board.displayId ?? snapshot.board.id;
+  const lines = [
+    `# ${escapeMarkdown(title)}`,
+    "",
+    `Exported ${snapshot.exportedAt} · ${snapshot.items.length} items${snapshot.truncated ? ` (truncated, ${snapshot.totalCount} on board)` : ""}`,
+  ];
+
+  const byId = new Map(snapshot.items.map((item) => [item.id, item]));
+  const completedStatuses = new Set(snapshot.statuses.filter((s) => s.isCompleted).map((s) => s.id));
+  const label = (item: Item) => `**${escapeMarkdown(item.displayId ?? item.id)}**`;
+
+  const card = (item: ExportedItem, parentShown: boolean): string => {
+    const done = item.completed || (item.statusId !== undefined && completedStatuses.has(item.statusId));
+    const details = [
+      item.assigneeName && `@${escapeMarkdown(item.assigneeName)}`,
+      item.dueDate && `due ${datePart(item.dueDate)}`,
+      item.progress !== undefined && item.progress > 0 && `${item.progress}%`,
+      ...(item.tags ?? []).map((tag) => `\`${tag.replace(/`/g, "'")}\``),
+      !parentShown && item.parentId && `child of ${byId.has(item.parentId) ? label(byId.get(item.parentId)!) : item.parentId}`,
+    ].filter(Boolean);
+    const text = `[${done ? "x" : " "}] ${label(item)} ${escapeMarkdown(item.title ?? "(untitled)")}`;
+    return details.length > 0 ? `${text} · ${details.join(" · ")}` : text;
+  };
+
+  // Children are nested under their parent when both sit in the same column
+  // and row; otherwise they are listed on their own with a reference
+  const renderCell = (items: ExportedItem[]) => {
+    const inCell = new Set(items.map((item) => item.id));
+    const children = new Map<string, ExportedItem[]>();
+    for (const item of items) {
+      if (item.parentId && inCell.has(item.parentId)) {
+        children.set(item.parentId, [...(children.get(item.parentId) ?? []), item]);
+      }
+    }
+    const walk = (item: ExportedItem, depth: number) => {
+      lines.push(`${"  ".repeat(depth)}- ${card(item, depth > 0)}`);
+      for (const child of children.get(item.id) ?? []) walk(child, depth + 1);
+    };
+    for (const item of items) {
+      if (!item.parentId || !inCell.has(item.parentId)) walk(item, 0);
+    }
+  };
+
+  const rowsInUse = new Set(snapshot.items.map((item) => item.rowId));
+  const showRows = rowsInUse.size > 1;
+  const columns: Array<{ title: string; items: ExportedItem[] }> = snapshot.statuses.map((status) => ({
+    title: status.title ?? status.id,
+    items: snapshot.items.filter((item) => item.statusId === status.id),
+  }));
+  const knownStatuses = new Set(snapshot.statuses.map((s) => s.id));
+  const orphans = snapshot.items.filter((item) => !item.statusId || !knownStatuses.has(item.statusId));
+  if (orphans.length > 0) columns.push({ title: "Unknown status", items: orphans });
+
+  for (const column of columns) {
+    lines.push("", `## ${escapeMarkdown(column.title)} (${column.items.length})`);
+    if (column.items.length === 0) {
+      lines.push("", "_No items_");
+      continue;
+    }
+    if (!showRows) {
+      lines.push("");
+      renderCell(column.items);
+      continue;
+    }
+    const swimlanes = [...snapshot.rows.map((row) => ({ id: row.id as string | undefined, title: row.title ?? row.id })), { id: undefined, title: "No row" }];
+    for (const lane of swimlanes) {
+      const items = column.items.filter((item) =>
+        lane.id === undefined ? !snapshot.rows.some((row) => row.id === item.rowId) : item.rowId === lane.id
+      );
+      if (items.length === 0) continue;
+      lines.push("", `### ${escapeMarkdown(lane.title)}`, "");
+      renderCell(items);
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+export async function handleExportTool(name: string, args: Record<string, unknown>): Promise<unknown> {
+  switch (name) {
+    case "export_board": {
+      const format = (args.format as ExportFormat | undefined) ?? "json";
+      const outputPath = outputPathFrom(args);
+
+      const snapshot = await loadSnapshot(args);
+      const content =
+        format === "csv" ? renderCsv(snapshot) : format === "markdown" ? renderMarkdown(snapshot) : snapshot;
+      if (!outputPath) return content;
+
+      const text = typeof content === "string" ? content : `${JSON.stringify(content, null, 2)}\n`;
+      await writeLocalFile(outputPath, text, args.overwrite === true);
+      return {
+        path: outputPath,
+        format,
+        bytes: Buffer.byteLength(text),
+        items: snapshot.items.length,
+        totalCount: snapshot.totalCount,
+        truncated: snapshot.truncated,
+      };
+    }
+
+    default:
+      throw new Error(`Unknown tool: ${name}`);
+  }
+}
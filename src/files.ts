@@ -0,0 +1,116 @@
+import { existsSync, lstatSync, realpathSync } from "fs";
+import { mkdir, writeFile } from "fs/promises";
+import { homedir } from "os";
+import { dirname, isAbsolute, parse, relative, resolve } from "path";
+import { ValidationError } from "./errors.js";
+
+// ============================================================================
+// FILES - local files named by tool arguments (outputPath, path) must stay
+// under one root, so a client cannot read the server's secrets or write
+// anywhere else. Over HTTP, file arguments are off unless a root is set.
+// ============================================================================
+
+const ROOT_HINT = "Set TEAMHOOD_MCP_FILE_ROOT to the directory tools may read and write";
+
+// The working directory, unless it is the filesystem root or the home
+// directory: a client launched from there would reach every file of the user
+function workingDirectoryRoot(): string | undefined {
+  const cwd = realpathSync(process.cwd());
+  const home = existsSync(homedir()) ? realpathSync(homedir()) : homedir();
+  return cwd === parse(cwd).root || cwd === home ? undefined : cwd;
+}
+
+// undefined: file arguments are disabled
+let fileRoot: string | undefined = workingDirectoryRoot();
+
+// The root is TEAMHOOD_MCP_FILE_ROOT, or for a local stdio server the working
+// directory. A shared HTTP server only gets one when it is configured.
+export function configureFileAccess(transport: "stdio" | "http", env: NodeJS.ProcessEnv = process.env): void {
+  const configured = env.TEAMHOOD_MCP_FILE_ROOT?.trim();
+  if (!configured) {
+    fileRoot = transport === "stdio" ? workingDirectoryRoot() : undefined;
+    return;
+  }
+  if (!existsSync(configured)) throw new Error(`TEAMHOOD_MCP_FILE_ROOT ${configured} does not exist`);
+  fileRoot = realpathSync(configured);
+}
+
+function isInside(root: string, path: string): boolean {
+  const rel = relative(root, path);
+  return rel === "" || (!rel.startsWith("..") && !isAbsolute(rel));
+}
+
+// Resolve against the root and refuse anything that leaves it, either by
+// ".." or through a symlink
+function confine(path: string, field: string): { root: string; target: string } {
+  if (!fileRoot) {
+    throw new ValidationError(`${field} is disabled on this server: no file root is configured`, {
+      field,
+      hint: `${ROOT_HINT}, or send the data inline instead`,
+    });
+  }
+  const target = resolve(fileRoot, path);
+  if (!isInside(fileRoot, target)) {
+    throw new ValidationError(`${field} ${path} is outside the file root ${fileRoot}`, { field, hint: ROOT_HINT });
+  }
+  return { root: fileRoot, target };
+}
+
+function outsideRoot(field: string, path: string, root: string): ValidationError {
+  return new ValidationError(`${field} ${path} resolves outside the file root ${root} (symlink)`, { field, hint: ROOT_HINT });
+}
+
+// Real path of an existing file under the root
+export function readablePath(path: string, field = "path"): string {
+  const { root, target } = confine(path, field);
+  let real: string;
+  try {
+    real = realpathSync(target);
+  } catch {
+    throw new ValidationError(`${field} ${path} does not exist`, { field });
+  }
+  if (!isInside(root, real)) throw outsideRoot(field, path, root);
+  return real;
+}
+
+// Path to write under the root. The nearest existing directory (and the file
+// itself, if it exists) must resolve inside the root.
+export function writablePath(path: string, overwrite: boolean, field = "outputPath"): string {
+  const { root, target } = confine(path, field);
+  let existing = target;
+  while (!existsSync(existing) && dirname(existing) !== existing) existing = dirname(existing);
+  if (!isInside(root, realpathSync(existing))) throw outsideRoot(field, path, root);
+
+  let exists = true;
+  try {
+    lstatSync(target);
+  } catch {
+    exists = false;
+  }
+  if (!exists) return target;
+  if (!overwrite) {
+    throw new ValidationError(`${target} already exists. Pass overwrite: true to replace it.`, { field });
+  }
+  // Writing follows a symlink, so it must point inside the root too
+  let real: string;
+  try {
+    real = realpathSync(target);
+  } catch {
+    throw outsideRoot(field, path, root);
+  }
+  if (!isInside(root, real)) throw outsideRoot(field, path, root);
+  return target;
+}
+
+// Resolve an outputPath argument, refusing to replace a file unless asked to
+export function outputPathFrom(args: Record<string, unknown>): string | undefined {
+  if (!args.outputPath) return undefined;
+  return writablePath(args.outputPath as string, args.overwrite === true);
+}
+
+// Write a file checked by writablePath. Without overwrite the file is created
+// exclusively, so one that appeared in the meantime is not replaced.
+export async function writeLocalFile(path: string, data: string | Uint8Array, overwrite: boolean): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, data, { flag: overwrite ? "w" : "wx" });
+}
@@ -0,0 +1,392 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { apiRequest } from "./api.js";
+import { buildItemCreate, diffItem, getItem, updateItem } from "./items.js";
+import { fetchAllItems } from "./pagination.js";
+import { mapConcurrent } from "./rateLimit.js";
+import { NameResolver, resolveArgs } from "./resolver.js";
+import { Item } from "./types.js";
+
+// ============================================================================
+// ITEM HIERARCHY - work on a parent item together with all its descendants:
+// read the tree with rolled-up progress, add children in one call, and move
+// or archive whole subtrees
+// ============================================================================
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_MAX_ITEMS = 200;
+const MAX_SUBTASKS = 100;
+
+const maxItemsProperty = {
+  type: "integer",
+  minimum: 1,
+  maximum: 1000,
+  description: `Refuse to run when the subtree has more items (default ${DEFAULT_MAX_ITEMS})`,
+};
+const concurrencyProperty = {
+  type: "integer",
+  minimum: 1,
+  maximum: 10,
+  description: `Parallel requests (default ${DEFAULT_CONCURRENCY})`,
+};
+
+export const hierarchyTools: Tool[] = [
+  {
+    name: "get_item_tree",
+    description: "Get an item with all its descendants (children, grandchildren...) as a nested tree. Every node carries rolled-up progress and completed/total counts for its subtree.",
+    annotations: { readOnlyHint: true },
+    inputSchema: {
+      type: "object",
+      properties: {
+        itemId: { type: "string", description: "Root item UUID" },
+        maxDepth: { type: "integer", minimum: 1, maximum: 20, description: "Levels below the root to include (default: all)" },
+        includeArchived: { type: "boolean", description: "Include archived descendants (default false)" },
+        maxItems: maxItemsProperty,
+      },
+      required: ["itemId"],
+    },
+  },
+  {
+    name: "create_subtasks",
+    description: "Create many child items under a parent in one call. Children are created on the parent's board and default to its status and row. Returns a per-child report; use dryRun to preview.",
+    annotations: { readOnlyHint: false, destructiveHint: false },
+    inputSchema: {
+      type: "object",
+      properties: {
+        parentId: { type: "string", description: "Parent item UUID" },
+        subtasks: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              title: { type: "string", description: "Child title" },
+              description: { type: "string", description: "Child description" },
+              statusId: { type: "string", description: "Status UUID or name (default: the parent's, or statusId)" },
+              rowId: { type: "string", description: "Row UUID or name (default: the parent's, or rowId)" },
+              assigneeId: { type: "string", description: "User UUID, name or email to assign" },
+              startDate: { type: "string", format: "date-time", description: "Start date (ISO 8601)" },
+              dueDate: { type: "string", format: "date-time", description: "Due date (ISO 8601)" },
+              tags: { type: "array", items: { type: "string" }, description: "Tags" },
+              customFields: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: { name: { type: "string" }, value: { type: "string" } },
+                  required: ["name", "value"],
+                },
+                description: "Custom field values as name/value pairs",
+              },
+            },
+            required: ["title"],
+          },
+          description: `Children to create, in order (at most ${MAX_SUBTASKS})`,
+        },
+        statusId: { type: "string", description: "Default status UUID or name for the children" },
+        rowId: { type: "string", description: "Default row UUID or name for the children" },
+        dryRun: { type: "boolean", description: "Show the items that would be created without creating them" },
+        concurrency: concurrencyProperty,
+      },
+      required: ["parentId", "subtasks"],
+    },
+  },
+  {
+    name: "move_subtree",
+    description: "Move an item and all its descendants to another board, status column or row. Descendants follow the root to the target board and row; they keep their own status unless the board changes or applyStatusToDescendants is set. Returns a per-item report; use dryRun to preview.",
+    annotations: { readOnlyHint: false, destructiveHint: true },
+    inputSchema: {
+      type: "object",
+      properties: {
+        itemId: { type: "string", description: "Root item UUID" },
+        targetBoardId: { type: "string", description: "Target board UUID, name or display ID" },
+        targetStatusId: { type: "string", description: "Target status UUID or name (required when the board changes)" },
+        targetRowId: { type: "string", description: "Target row UUID or name" },
+        applyStatusToDescendants: { type: "boolean", description: "Move descendants to targetStatusId as well (default false; always true across boards)" },
+        dryRun: { type: "boolean", description: "Preview current vs. proposed values without changing anything" },
+        concurrency: concurrencyProperty,
+        maxItems: maxItemsProperty,
+      },
+      required: ["itemId"],
+    },
+  },
+  {
+    name: "archive_subtree",
+    description: "Archive or unarchive an item together with all its descendants. Returns a per-item report; use dryRun to preview.",
+    annotations: { readOnlyHint: false, destructiveHint: true },
+    inputSchema: {
+      type: "object",
+      properties: {
+        itemId: { type: "string", description: "Root item UUID" },
+        archived: { type: "boolean", description: "True to archive, false to unarchive (default: true)" },
+        dryRun: { type: "boolean", description: "Preview current vs. proposed values without changing anything" },
+        concurrency: concurrencyProperty,
+        maxItems: maxItemsProperty,
+      },
+      required: ["itemId"],
+    },
+  },
+];
+
+interface Subtree {
+  root: Item;
+  children: Map<string, Item[]>;
+  // Root first, then each level in turn
+  levels: Item[][];
+}
+
+interface TreeNode {
+  id: string;
+  displayId?: string;
+  title?: string;
+  statusId?: string;
+  assignedUserId?: string;
+  dueDate?: string;
+  completed?: boolean;
+  archived?: boolean;
+  progress?: number;
+  rollup: { descendants: number; completed: number; progress: number };
+  children: TreeNode[];
+}
+
+interface ItemResult {
+  itemId: string;
+  title?: string;
+  ok: boolean;
+  error?: string;
+}
+
+function concurrencyFrom(args: Record<string, unknown>): number {
+  return (args.concurrency as number | undefined) ?? DEFAULT_CONCURRENCY;
+}
+
+// Walk down one level at a time with the parentId filter. Items seen twice
+// (a corrupt parent chain) are only visited once.
+async function loadSubtree(
+  rootId: string,
+  options: { maxItems: number; maxDepth?: number; includeArchived: boolean; concurrency: number }
+): Promise<Subtree> {
+  const root = await getItem(rootId);
+  const children = new Map<string, Item[]>();
+  const seen = new Set([root.id]);
+  const levels: Item[][] = [[root]];
+
+  while (levels[levels.length - 1].length > 0 && (options.maxDepth === undefined || levels.length <= options.maxDepth)) {
+    const parents = levels[levels.length - 1];
+    const pages = await mapConcurrent(parents, options.concurrency, (parent) =>
+      fetchAllItems({ parentId: parent.id }, options.maxItems + 1)
+    );
+    const level: Item[] = [];
+    parents.forEach((parent, index) => {
+      // Only direct children: an item is attached once, under its own parent
+      const direct = pages[index].records.filter(
+        (item) =>
+          item.id !== parent.id &&
+          !seen.has(item.id) &&
+          (item.parentId === undefined || item.parentId === parent.id) &&
+          (options.includeArchived || !item.archived)
+      );
+      for (const item of direct) seen.add(item.id);
+      children.set(parent.id, direct);
+      level.push(...direct);
+    });
+    if (seen.size > options.maxItems) {
+      throw new Error(`The subtree has more than maxItems (${options.maxItems}) items. Raise maxItems to proceed.`);
+    }
+    levels.push(level);
+  }
+  if (levels[levels.length - 1].length === 0) levels.pop();
+  return { root, children, levels };
+}
+
+// Progress of a subtree is the average of its leaves; a completed leaf counts
+// as 100%
+function buildTree(item: Item, children: Map<string, Item[]>): TreeNode {
+  const nodes = (children.get(item.id) ?? []).map((child) => buildTree(child, children));
+  const leaves: number[] = [];
+  const collect = (node: TreeNode, isRoot: boolean) => {
+    if (node.children.length === 0 && !isRoot) leaves.push(node.completed ? 100 : (node.progress ?? 0));
+    for (const child of node.children) collect(child, false);
+  };
+  const node: TreeNode = {
+    id: item.id,
+    displayId: item.displayId,
+    title: item.title,
+    statusId: item.statusId,
+    assignedUserId: item.assignedUserId,
+    dueDate: item.dueDate,
+    completed: item.completed,
+    archived: item.archived || undefined,
+    progress: item.progress,
+    rollup: { descendants: 0, completed: 0, progress: 0 },
+    children: nodes,
+  };
+  collect(node, true);
+
+  node.rollup.descendants = nodes.reduce((sum, child) => sum + 1 + child.rollup.descendants, 0);
+  node.rollup.completed = nodes.reduce((sum, child) => sum + (child.completed ? 1 : 0) + child.rollup.completed, 0);
+  node.rollup.progress =
+    leaves.length > 0
+      ? Math.round(leaves.reduce((sum, p) => sum + p, 0) / leaves.length)
+      : item.completed ? 100 : (item.progress ?? 0);
+  return node;
+}
+
+// Apply per-item updates level by level (or deepest level first), reporting
+// the outcome of each item like the bulk tools do
+async function updateLevels(
+  tool: string,
+  levels: Item[][],
+  payloadFor: (item: Item, depth: number) => Record<string, unknown>,
+  args: Record<string, unknown>,
+  deepestFirst = false
+): Promise<unknown> {
+  const total = levels.reduce((sum, level) => sum + level.length, 0);
+  const depthOf = new Map(levels.flatMap((level, depth) => level.map((item) => [item.id, depth] as const)));
+
+  if (args.dryRun === true) {
+    return {
+      dryRun: true,
+      matched: total,
+      results: levels.flat().map((item) => ({
+        itemId: item.id,
+        title: item.title,
+        depth: depthOf.get(item.id),
+        changes: diffItem(item, payloadFor(item, depthOf.get(item.id)!)),
+      })),
+    };
+  }
+
+  const results: ItemResult[] = [];
+  for (const level of deepestFirst ? [...levels].reverse() : levels) {
+    results.push(
+      ...(await mapConcurrent(level, concurrencyFrom(args), async (item): Promise<ItemResult> => {
+        try {
+          await updateItem(item.id, payloadFor(item, depthOf.get(item.id)!), tool);
+          return { itemId: item.id, title: item.title, ok: true };
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          return { itemId: item.id, title: item.title, ok: false, error: message };
+        }
+      }))
+    );
+  }
+
+  const failed = results.filter((r) => !r.ok).length;
+  return { dryRun: false, matched: total, succeeded: total - failed, failed, results };
+}
+
+async function createSubtasks(args: Record<string, unknown>): Promise<unknown> {
+  const subtasks = args.subtasks as Array<Record<string, unknown>>;
+  if (subtasks.length === 0) throw new Error("subtasks must contain at least one item");
+  if (subtasks.length > MAX_SUBTASKS) throw new Error(`At most ${MAX_SUBTASKS} subtasks can be created per call`);
+
+  const parent = await getItem(args.parentId as string);
+  if (!parent.boardId || !parent.workspaceId) {
+    throw new Error(`Parent item ${parent.id} has no board; children are created on the parent's board`);
+  }
+
+  // Names in each subtask resolve against the parent's board
+  const resolver = new NameResolver(true);
+  const payloads = [];
+  for (const subtask of subtasks) {
+    const resolved = await resolveArgs(
+      "create_item",
+      {
+        ...subtask,
+        statusId: subtask.statusId ?? args.statusId,
+        rowId: subtask.rowId ?? args.rowId,
+        workspaceId: parent.workspaceId,
+        boardId: parent.boardId,
+      },
+      resolver
+    );
+    payloads.push(
+      buildItemCreate({
+        ...resolved,
+        statusId: resolved.statusId ?? parent.statusId,
+        rowId: resolved.rowId ?? parent.rowId,
+      })
+    );
+  }
+
+  if (args.dryRun === true) {
+    return { dryRun: true, parentId: parent.id, count: payloads.length, items: payloads.map((p) => ({ ...p, parentId: parent.id })) };
+  }
+
+  // create_item cannot set the parent, so each child is linked right after
+  const results = await mapConcurrent(payloads, concurrencyFrom(args), async (payload) => {
+    const result: ItemResult & { displayId?: string } = { itemId: "", title: payload.title as string, ok: false };
+    try {
+      const created = await apiRequest<Item>("/items", "POST", payload);
+      result.itemId = created.id;
+      result.displayId = created.displayId;
+      await updateItem(created.id, { parentId: parent.id }, "create_subtasks");
+      result.ok = true;
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+      if (result.itemId) result.error = `created, but linking to the parent failed: ${result.error}`;
+    }
+    return result;
+  });
+
+  const failed = results.filter((r) => !r.ok).length;
+  return { parentId: parent.id, created: results.length - failed, failed, results };
+}
+
+export async function handleHierarchyTool(name: string, args: Record<string, unknown>): Promise<unknown> {
+  const maxItems = (args.maxItems as number | undefined) ?? DEFAULT_MAX_ITEMS;
+
+  switch (name) {
+    case "get_item_tree": {
+      const subtree = await loadSubtree(args.itemId as string, {
+        maxItems,
+        maxDepth: args.maxDepth as number | undefined,
+        includeArchived: args.includeArchived === true,
+        concurrency: DEFAULT_CONCURRENCY,
+      });
+      return buildTree(subtree.root, subtree.children);
+    }
+
+    case "create_subtasks":
+      return createSubtasks(args);
+
+    case "move_subtree": {
+      if (!args.targetBoardId && !args.targetStatusId && !args.targetRowId) {
+        throw new Error("Provide at least one of targetBoardId, targetStatusId or targetRowId");
+      }
+      const { levels, root } = await loadSubtree(args.itemId as string, {
+        maxItems,
+        includeArchived: true,
+        concurrency: concurrencyFrom(args),
+      });
+      const boardChanges = args.targetBoardId !== undefined && args.targetBoardId !== root.boardId;
+      if (boardChanges && !args.targetStatusId) {
+        throw new Error("targetStatusId is required when moving to another board: statuses belong to a board");
+      }
+      const everyStatus = boardChanges || args.applyStatusToDescendants === true;
+      return updateLevels(
+        name,
+        levels,
+        (_item, depth) => ({
+          boardId: args.targetBoardId,
+          statusId: depth === 0 || everyStatus ? args.targetStatusId : undefined,
+          rowId: args.targetRowId,
+        }),
+        args
+      );
+    }
+
+    case "archive_subtree": {
+      const archived = (args.archived as boolean | undefined) ?? true;
+      const { levels } = await loadSubtree(args.itemId as string, {
+        maxItems,
+        includeArchived: true,
+        concurrency: concurrencyFrom(args),
+      });
+      // Archive the leaves first and restore the root first, so a failure
+      // part-way never leaves visible children under an archived parent
+      return updateLevels(name, levels, () => ({ archived }), args, archived);
+    }
+
+    default:
+      throw new Error(`Unknown tool: ${name}`);
+  }
+}
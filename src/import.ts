@@ -0,0 +1,523 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { readFile } from "fs/promises";
+import { extname } from "path";
+import { apiRequest } from "./api.js";
+import { parseCsv } from "./csv.js";
+import { readablePath } from "./files.js";
+import { buildItemCreate, buildItemUpdate, updateItem } from "./items.js";
+import { fetchAllItems } from "./pagination.js";
+import { mapConcurrent } from "./rateLimit.js";
+import { isUuid, NameResolver } from "./resolver.js";
+import { CustomFieldValue, Dependency, Item } from "./types.js";
+import { isIsoDate } from "./validation.js";
+
+// ============================================================================
+// IMPORT - create items from CSV or JSON rows. Names resolve to IDs, rows can
+// reference each other as parent or dependency, and an external-key custom
+// field makes re-running an import update the items it created before.
+// ============================================================================
+
+const DEFAULT_MAX_ROWS = 500;
+const DEFAULT_CONCURRENCY = 4;
+// Existing board items scanned for external keys
+const MAX_BOARD_ITEMS = 20000;
+
+type ImportField =
+  | "externalKey" | "title" | "description" | "status" | "row" | "assignee" | "startDate" | "dueDate"
+  | "tags" | "progress" | "color" | "milestone" | "parent" | "blocking" | "waiting";
+
+// Column names recognised for each field when it is not in the mapping,
+// compared without case, spaces or punctuation
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  externalKey: ["key", "externalkey", "externalid"],
+  title: ["title", "name", "summary"],
+  description: ["description", "details"],
+  status: ["status", "statusid", "column"],
+  row: ["row", "rowid", "swimlane", "lane"],
+  assignee: ["assignee", "assigneeid", "assignedto"],
+  startDate: ["startdate", "start"],
+  dueDate: ["duedate", "due", "deadline"],
+  tags: ["tags", "labels"],
+  progress: ["progress"],
+  color: ["color"],
+  milestone: ["milestone"],
+  parent: ["parent", "parentkey", "parentid"],
+  blocking: ["blocking", "blocks"],
+  waiting: ["waiting", "waitingfor", "dependson"],
+};
+
+const CUSTOM_FIELD_COLUMN = /^custom:(.+)$/i;
+
+export const importTools: Tool[] = [
+  {
+    name: "import_items",
+    description: "Create items from CSV or JSON rows (a local file or inline content). Columns map to create_item fields; status, row and assignee names resolve to IDs; parent, blocking and waiting columns may reference other rows by their external key. With externalKeyField, rows whose key already exists on the board update that item instead of creating a duplicate. Use dryRun to see the plan first.",
+    annotations: { readOnlyHint: false, destructiveHint: true },
+    inputSchema: {
+      type: "object",
+      properties: {
+        workspaceId: { type: "string", description: "Workspace UUID, name or display ID" },
+        boardId: { type: "string", description: "Board UUID, name or display ID to import into" },
+        path: { type: "string", description: "CSV or JSON file under the server's file root (off over HTTP unless TEAMHOOD_MCP_FILE_ROOT is set; prefer content there)" },
+        content: { type: "string", description: "CSV or JSON text to import (instead of path)" },
+        format: { type: "string", enum: ["csv", "json"], description: "Input format (default: from the file extension or content)" },
+        mapping: {
+          type: "object",
+          properties: Object.fromEntries(
+            Object.keys(FIELD_ALIASES).map((field) => [field, { type: "string", description: `Source column for ${field}` }])
+          ),
+          description: "Source column for each field. Unmapped fields are matched by column name (title, status, row, assignee, startDate, dueDate, tags, progress, color, milestone, parent, blocking, waiting, key). Tags and references are separated by ; or ,",
+        },
+        customFieldColumns: {
+          type: "object",
+          additionalProperties: { type: "string" },
+          description: "Teamhood custom field name -> source column. Columns named custom:<field name> are mapped automatically.",
+        },
+        externalKeyField: { type: "string", description: "Custom field holding each row's external key (the key column). Makes re-runs update existing items instead of duplicating them." },
+        statusId: { type: "string", description: "Status UUID or name for rows without a status" },
+        rowId: { type: "string", description: "Row UUID or name for rows without a row" },
+        dryRun: { type: "boolean", description: "Report what would be created and updated without changing anything" },
+        concurrency: { type: "integer", minimum: 1, maximum: 10, description: `Parallel requests (default ${DEFAULT_CONCURRENCY})` },
+        maxRows: { type: "integer", minimum: 1, maximum: 5000, description: `Refuse to import more rows (default ${DEFAULT_MAX_ROWS})` },
+      },
+      required: ["workspaceId", "boardId"],
+    },
+  },
+];
+
+interface SourceRow {
+  record: number;
+  values: Record<string, unknown>;
+}
+
+interface PlannedRow {
+  record: number;
+  key?: string;
+  title?: string;
+  // Item fields named as create_item/update_item arguments
+  fields: Record<string, unknown>;
+  customFields: CustomFieldValue[];
+  parentRef?: string;
+  blockingRefs?: string[];
+  waitingRefs?: string[];
+  existing?: Item;
+  itemId?: string;
+  errors: string[];
+}
+
+interface RowResult {
+  record: number;
+  key?: string;
+  title?: string;
+  action: "create" | "update" | "unchanged" | "invalid";
+  itemId?: string;
+  ok: boolean;
+  changes?: Record<string, unknown>;
+  error?: string;
+}
+
+async function readSource(args: Record<string, unknown>): Promise<SourceRow[]> {
+  if ((args.path === undefined) === (args.content === undefined)) {
+    throw new Error("Pass either path or content");
+  }
+  const text = args.path ? await readFile(readablePath(args.path as string), "utf-8") : (args.content as string);
+  const format =
+    (args.format as string | undefined) ??
+    (args.path ? (extname(args.path as string).toLowerCase() === ".json" ? "json" : "csv") : /^\s*[[{]/.test(text) ? "json" : "csv");
+
+  if (format === "csv") {
+    return parseCsv(text).map(({ record, values }) => ({ record, values }));
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    // The parser quotes the text around the error; a file is not echoed back
+    if (args.path) throw new Error(`${args.path} is not valid JSON`);
+    throw new Error(`Import content is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const list = Array.isArray(parsed) ? parsed : (parsed as { items?: unknown })?.items;
+  if (!Array.isArray(list) || list.some((entry) => !entry || typeof entry !== "object" || Array.isArray(entry))) {
+    throw new Error("JSON import must be an array of objects (or { items: [...] })");
+  }
+  return list.map((values, index) => ({ record: index + 1, values: values as Record<string, unknown> }));
+}
+
+function normalizeColumn(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+// Source column for every field, from the mapping or the column names
+function resolveColumns(rows: SourceRow[], mapping: Record<string, string>): Partial<Record<ImportField, string>> {
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row.values)))];
+  const result: Partial<Record<ImportField, string>> = {};
+  for (const field of Object.keys(FIELD_ALIASES) as ImportField[]) {
+    if (mapping[field]) {
+      if (!columns.includes(mapping[field])) {
+        throw new Error(`mapping.${field}: column "${mapping[field]}" not found (columns: ${columns.join(", ")})`);
+      }
+      result[field] = mapping[field];
+      continue;
+    }
+    const column = columns.find((c) => FIELD_ALIASES[field].includes(normalizeColumn(c)));
+    if (column) result[field] = column;
+  }
+  return result;
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === "string" && value.trim() === "");
+}
+
+function asList(value: unknown): string[] {
+  const entries = Array.isArray(value) ? value.map(String) : String(value).split(/[;,]/);
+  return entries.map((entry) => entry.trim()).filter(Boolean);
+}
+
+function asBoolean(value: unknown): boolean {
+  if (typeof value === "boolean") return value;
+  const text = String(value).trim().toLowerCase();
+  if (["true", "yes", "y", "1", "x"].includes(text)) return true;
+  if (["false", "no", "n", "0", ""].includes(text)) return false;
+  throw new Error(`expected yes/no, got "${value}"`);
+}
+
+function asNumber(value: unknown, min: number, max: number, integer: boolean): number {
+  const number = typeof value === "number" ? value : Number(String(value).trim().replace(/%$/, ""));
+  if (!Number.isFinite(number) || number < min || number > max || (integer && !Number.isInteger(number))) {
+    throw new Error(`expected ${integer ? "a whole number" : "a number"} from ${min} to ${max}, got "${value}"`);
+  }
+  return number;
+}
+
+// Turn one source row into item fields; unresolved names stay as given
+function planRow(
+  row: SourceRow,
+  columns: Partial<Record<ImportField, string>>,
+  customColumns: Record<string, string>
+): PlannedRow {
+  const planned: PlannedRow = { record: row.record, fields: {}, customFields: [], errors: [] };
+  const read = (field: ImportField): unknown => {
+    const column = columns[field];
+    const value = column ? row.values[column] : undefined;
+    return isBlank(value) ? undefined : value;
+  };
+  const convert = (field: ImportField, fn: (value: unknown) => unknown): unknown => {
+    const value = read(field);
+    if (value === undefined) return undefined;
+    try {
+      return fn(value);
+    } catch (error) {
+      planned.errors.push(`${field}: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  };
+
+  planned.key = read("externalKey") !== undefined ? String(read("externalKey")).trim() : undefined;
+  planned.title = read("title") !== undefined ? String(read("title")).trim() : undefined;
+  const fields: Record<string, unknown> = {
+    title: planned.title,
+    description: read("description") !== undefined ? String(read("description")) : undefined,
+    statusId: read("status") !== undefined ? String(read("status")).trim() : undefined,
+    rowId: read("row") !== undefined ? String(read("row")).trim() : undefined,
+    assigneeId: read("assignee") !== undefined ? String(read("assignee")).trim() : undefined,
+    startDate: convert("startDate", (value) => {
+      if (!isIsoDate(String(value).trim())) throw new Error(`expected an ISO 8601 date, got "${value}"`);
+      return String(value).trim();
+    }),
+    dueDate: convert("dueDate", (value) => {
+      if (!isIsoDate(String(value).trim())) throw new Error(`expected an ISO 8601 date, got "${value}"`);
+      return String(value).trim();
+    }),
+    tags: convert("tags", asList),
+    progress: convert("progress", (value) => asNumber(value, 0, 100, false)),
+    color: convert("color", (value) => asNumber(value, 1, 18, true)),
+    milestone: convert("milestone", asBoolean),
+  };
+  planned.fields = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+
+  for (const [name, column] of Object.entries(customColumns)) {
+    const value = row.values[column];
+    if (!isBlank(value)) planned.customFields.push({ name, value: String(value) });
+  }
+
+  planned.parentRef = read("parent") !== undefined ? String(read("parent")).trim() : undefined;
+  planned.blockingRefs = read("blocking") !== undefined ? asList(read("blocking")) : undefined;
+  planned.waitingRefs = read("waiting") !== undefined ? asList(read("waiting")) : undefined;
+  return planned;
+}
+
+function sameValue(key: string, from: unknown, to: unknown): boolean {
+  if ((key === "startDate" || key === "dueDate") && typeof from === "string" && typeof to === "string") {
+    return Date.parse(from) === Date.parse(to);
+  }
+  if (key === "tags" && Array.isArray(from) && Array.isArray(to)) {
+    return JSON.stringify([...from].sort()) === JSON.stringify([...to].sort());
+  }
+  if ((key === "blocking" || key === "waiting") && Array.isArray(from) && Array.isArray(to)) {
+    const ids = (deps: unknown[]) => JSON.stringify((deps as Dependency[]).map((d) => `${d.itemId}:${d.direction}`).sort());
+    return ids(from) === ids(to);
+  }
+  return JSON.stringify(from ?? null) === JSON.stringify(to ?? null);
+}
+
+// Update payload entries that differ from the item
+function changedFields(item: Item | undefined, payload: Record<string, unknown>): Record<string, unknown> {
+  const changes: Record<string, unknown> = {};
+  for (const [key, to] of Object.entries(payload)) {
+    const from = item?.[(key === "userId" ? "assignedUserId" : key) as keyof Item];
+    if (!sameValue(key, from, to)) changes[key] = to;
+  }
+  return changes;
+}
+
+function mergeCustomFields(current: CustomFieldValue[] = [], updates: CustomFieldValue[]): CustomFieldValue[] {
+  const merged = new Map(current.map((field) => [field.name, field.value]));
+  for (const field of updates) merged.set(field.name, field.value);
+  return [...merged].map(([name, value]) => ({ name, value }));
+}
+
+export async function handleImportTool(name: string, args: Record<string, unknown>): Promise<unknown> {
+  if (name !== "import_items") throw new Error(`Unknown tool: ${name}`);
+
+  const workspaceId = args.workspaceId as string;
+  const boardId = args.boardId as string;
+  const dryRun = args.dryRun === true;
+  const concurrency = (args.concurrency as number | undefined) ?? DEFAULT_CONCURRENCY;
+  const maxRows = (args.maxRows as number | undefined) ?? DEFAULT_MAX_ROWS;
+  const keyField = args.externalKeyField as string | undefined;
+
+  const source = await readSource(args);
+  if (source.length === 0) throw new Error("Nothing to import: no rows found");
+  if (source.length > maxRows) {
+    throw new Error(`${source.length} rows to import, more than maxRows (${maxRows}). Raise maxRows to proceed.`);
+  }
+
+  const columns = resolveColumns(source, (args.mapping as Record<string, string> | undefined) ?? {});
+  const customColumns: Record<string, string> = {};
+  for (const column of new Set(source.flatMap((row) => Object.keys(row.values)))) {
+    const match = column.match(CUSTOM_FIELD_COLUMN);
+    if (match) customColumns[match[1].trim()] = column;
+  }
+  Object.assign(customColumns, (args.customFieldColumns as Record<string, string> | undefined) ?? {});
+  if (keyField && !columns.externalKey) {
+    throw new Error(`externalKeyField is set but no key column was found. Map it with mapping.externalKey.`);
+  }
+
+  const rows = source.map((row) => planRow(row, columns, customColumns));
+  const warnings: string[] = [];
+  if (!keyField) warnings.push("No externalKeyField: every run creates new items. Set it to make re-runs update instead.");
+
+  // Existing items on the board, by external key and display ID
+  const { records: boardItems, truncated } = await fetchAllItems({ boardId, includeChildItems: true }, MAX_BOARD_ITEMS);
+  if (truncated && keyField) {
+    throw new Error(`Board has more than ${MAX_BOARD_ITEMS} items; cannot check external keys reliably`);
+  }
+  const existingByKey = new Map<string, Item>();
+  if (keyField) {
+    for (const item of boardItems) {
+      const value = item.customFields?.find((field) => field.name === keyField)?.value;
+      if (value) existingByKey.set(value, item);
+    }
+  }
+  const byDisplayId = new Map(boardItems.filter((item) => item.displayId).map((item) => [item.displayId!.toLowerCase(), item]));
+
+  // Keys must be unique within the import
+  const rowsByKey = new Map<string, PlannedRow>();
+  for (const row of rows) {
+    if (!row.key) {
+      if (keyField) row.errors.push("key: missing (required with externalKeyField)");
+      continue;
+    }
+    const other = rowsByKey.get(row.key);
+    if (other) row.errors.push(`key: "${row.key}" is also used by record ${other.record}`);
+    else rowsByKey.set(row.key, row);
+    if (keyField) {
+      row.existing = existingByKey.get(row.key);
+      row.customFields = [...row.customFields.filter((f) => f.name !== keyField), { name: keyField, value: row.key }];
+    }
+  }
+
+  // Resolve names once per distinct value
+  const resolver = new NameResolver(true);
+  const memo = new Map<string, Promise<string>>();
+  const resolveName = (kind: "status" | "row" | "user", value: string): Promise<string> => {
+    const cacheKey = `${kind}:${value.toLowerCase()}`;
+    let pending = memo.get(cacheKey);
+    if (!pending) {
+      pending =
+        kind === "status" ? resolver.status(value, boardId)
+        : kind === "row" ? resolver.row(value, boardId)
+        : resolver.user(value);
+      memo.set(cacheKey, pending);
+    }
+    return pending;
+  };
+  for (const row of rows) {
+    row.fields.statusId ??= args.statusId;
+    row.fields.rowId ??= args.rowId;
+    for (const [field, kind] of [["statusId", "status"], ["rowId", "row"], ["assigneeId", "user"]] as const) {
+      const value = row.fields[field];
+      if (typeof value !== "string") continue;
+      try {
+        row.fields[field] = await resolveName(kind, value);
+      } catch (error) {
+        row.errors.push(`${field}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    if (!row.existing) {
+      if (!row.fields.title) row.errors.push("title: required for new items");
+      if (!row.fields.statusId) row.errors.push("status: required for new items (or pass statusId)");
+    }
+  }
+
+  // References: another imported row's key, an existing item's external key,
+  // display ID or UUID
+  type Target = { row: PlannedRow } | { itemId: string };
+  const resolveRef = (row: PlannedRow, ref: string, field: string): Target | undefined => {
+    const target = rowsByKey.get(ref);
+    if (target) {
+      if (target === row) row.errors.push(`${field}: row references itself`);
+      return { row: target };
+    }
+    const existing = existingByKey.get(ref) ?? byDisplayId.get(ref.toLowerCase());
+    if (existing) return { itemId: existing.id };
+    if (isUuid(ref)) return { itemId: ref };
+    row.errors.push(`${field}: "${ref}" is not a key in this import nor an item on the board`);
+    return undefined;
+  };
+  const links = new Map<PlannedRow, { parent?: Target; blocking?: Target[]; waiting?: Target[] }>();
+  for (const row of rows) {
+    const link: { parent?: Target; blocking?: Target[]; waiting?: Target[] } = {};
+    if (row.parentRef) link.parent = resolveRef(row, row.parentRef, "parent");
+    if (row.blockingRefs) link.blocking = row.blockingRefs.map((r) => resolveRef(row, r, "blocking")).filter((t): t is Target => !!t);
+    if (row.waitingRefs) link.waiting = row.waitingRefs.map((r) => resolveRef(row, r, "waiting")).filter((t): t is Target => !!t);
+    links.set(row, link);
+  }
+  // Parent chains inside the import must end
+  for (const row of rows) {
+    const seen = new Set<PlannedRow>([row]);
+    let parent = links.get(row)?.parent;
+    while (parent && "row" in parent) {
+      if (seen.has(parent.row)) {
+        row.errors.push("parent: rows form a cycle");
+        break;
+      }
+      seen.add(parent.row);
+      parent = links.get(parent.row)?.parent;
+    }
+  }
+
+  const invalid = rows.filter((row) => row.errors.length > 0);
+  if (invalid.length > 0) {
+    if (!dryRun) {
+      const details = invalid.slice(0, 20).map((row) => `record ${row.record}: ${row.errors.join("; ")}`);
+      const more = invalid.length > 20 ? `; ... and ${invalid.length - 20} more` : "";
+      throw new Error(`Nothing was imported: ${invalid.length} of ${rows.length} rows are invalid. ${details.join(" | ")}${more}`);
+    }
+  }
+
+  const targetId = (target: Target): string =>
+    "itemId" in target ? target.itemId : (target.row.itemId ?? target.row.existing?.id ?? `(new: ${target.row.key ?? `record ${target.row.record}`})`);
+
+  // Fields applied after every item exists: create_item cannot set them, or
+  // they point at rows created in the same run
+  const followUpPayload = (row: PlannedRow): Record<string, unknown> => {
+    const link = links.get(row)!;
+    const update: Record<string, unknown> = {};
+    if (link.parent) update.parentId = targetId(link.parent);
+    if (link.blocking) update.blocking = link.blocking.map((t) => ({ itemId: targetId(t), direction: "FinishToStart" }));
+    if (link.waiting) update.waiting = link.waiting.map((t) => ({ itemId: targetId(t), direction: "FinishToStart" }));
+    if (row.existing) {
+      Object.assign(update, row.fields);
+      if (row.customFields.length > 0) update.customFields = mergeCustomFields(row.existing.customFields, row.customFields);
+    } else {
+      if (row.fields.progress !== undefined) update.progress = row.fields.progress;
+      if (row.fields.milestone === true) update.milestone = true;
+    }
+    return buildItemUpdate(update);
+  };
+
+  const results = new Map<PlannedRow, RowResult>();
+  for (const row of rows) {
+    results.set(row, {
+      record: row.record,
+      key: row.key,
+      title: row.title ?? row.existing?.title,
+      action: row.errors.length > 0 ? "invalid" : row.existing ? "update" : "create",
+      itemId: row.existing?.id,
+      ok: row.errors.length === 0,
+      error: row.errors.length > 0 ? row.errors.join("; ") : undefined,
+    });
+  }
+  const valid = rows.filter((row) => row.errors.length === 0);
+
+  if (dryRun) {
+    for (const row of valid) {
+      const result = results.get(row)!;
+      const changes = changedFields(row.existing, followUpPayload(row));
+      if (row.existing) {
+        if (Object.keys(changes).length === 0) result.action = "unchanged";
+        result.changes = changes;
+      } else {
+        result.changes = { ...buildItemCreate({ ...row.fields, customFields: row.customFields }), ...changes };
+      }
+    }
+  } else {
+    await mapConcurrent(valid.filter((row) => !row.existing), concurrency, async (row) => {
+      const result = results.get(row)!;
+      try {
+        const created = await apiRequest<Item>(
+          "/items",
+          "POST",
+          buildItemCreate({ ...row.fields, workspaceId, boardId, customFields: row.customFields })
+        );
+        row.itemId = created.id;
+        result.itemId = created.id;
+      } catch (error) {
+        result.ok = false;
+        result.error = error instanceof Error ? error.message : String(error);
+      }
+    });
+
+    await mapConcurrent(valid.filter((row) => results.get(row)!.ok), concurrency, async (row) => {
+      const result = results.get(row)!;
+      const link = links.get(row)!;
+      const failedTarget = [link.parent, ...(link.blocking ?? []), ...(link.waiting ?? [])].find(
+        (t) => t && "row" in t && !t.row.itemId && !t.row.existing
+      );
+      if (failedTarget) {
+        result.ok = false;
+        result.error = "a referenced row failed to import, so parent/dependencies were not set";
+        return;
+      }
+      const changes = changedFields(row.existing, followUpPayload(row));
+      if (row.existing && Object.keys(changes).length === 0) {
+        result.action = "unchanged";
+        return;
+      }
+      if (Object.keys(changes).length === 0) return;
+      try {
+        await updateItem(row.itemId ?? row.existing!.id, changes, "import_items");
+        if (row.existing) result.changes = changes;
+      } catch (error) {
+        result.ok = false;
+        result.error = error instanceof Error ? error.message : String(error);
+      }
+    });
+  }
+
+  const all = [...results.values()];
+  const count = (action: RowResult["action"]) => all.filter((r) => r.ok && r.action === action).length;
+  return {
+    dryRun,
+    rows: rows.length,
+    created: count("create"),
+    updated: count("update"),
+    unchanged: count("unchanged"),
+    failed: all.filter((r) => !r.ok).length,
+    warnings,
+    results: all,
+  };
+}
@@ -1,117 +1,76 @@
 #!/usr/bin/env node
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
   Tool,
 } from "@modelcontextprotocol/sdk/types.js";
-import { execSync } from "child_process";
-import { existsSync } from "fs";
-import { fileURLToPath } from "url";
-import { dirname, join } from "path";
-
-// Get the directory where this script is located
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-const projectRoot = join(__dirname, "..");
-
-// Load secrets from SOPS
-function loadSecrets(): { apiKey: string; baseUrl: string } {
-  const secretsPath = join(projectRoot, "secrets.yaml");
-
-  if (!existsSync(secretsPath)) {
-    return {
-      apiKey: process.env.TEAMHOOD_API_KEY || "",
-      baseUrl: process.env.TEAMHOOD_BASE_URL || "https://api-lafermedutemple.teamhood.com/api/v1",
-    };
-  }
-
-  try {
-    const decrypted = execSync(`sops -d "${secretsPath}"`, {
-      encoding: "utf-8",
-      stdio: ["pipe", "pipe", "pipe"],
-    });
-
-    const lines = decrypted.split("\n");
-    const secrets: Record<string, string> = {};
-
-    for (const line of lines) {
-      const match = line.match(/^(\w+):\s*(.+)$/);
-      if (match) {
-        secrets[match[1]] = match[2].trim();
-      }
-    }
-
-    return {
-      apiKey: secrets.TEAMHOOD_API_KEY || process.env.TEAMHOOD_API_KEY || "",
-      baseUrl: secrets.TEAMHOOD_BASE_URL || process.env.TEAMHOOD_BASE_URL || "https://api-lafermedutemple.teamhood.com/api/v1",
-    };
-  } catch {
-    return {
-      apiKey: process.env.TEAMHOOD_API_KEY || "",
-      baseUrl: process.env.TEAMHOOD_BASE_URL || "https://api-lafermedutemple.teamhood.com/api/v1",
-    };
-  }
-}
-
-const secrets = loadSecrets();
-const API_KEY = secrets.apiKey;
-const BASE_URL = secrets.baseUrl;
-
-// API Client
-async function apiRequest<T>(
-  endpoint: string,
-  method: "GET" | "POST" | "PUT" | "DELETE" = "GET",
-  body?: unknown
-): Promise<T> {
-  const url = `${BASE_URL}${endpoint}`;
-
-  const headers: Record<string, string> = {
-    "Authorization": API_KEY,
-    "Content-Type": "application/json",
-  };
-
-  const options: RequestInit = {
-    method,
-    headers,
-  };
-
-  if (body && (method === "POST" || method === "PUT")) {
-    options.body = JSON.stringify(body);
-  }
-
-  const response = await fetch(url, options);
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`API Error ${response.status}: ${errorText}`);
-  }
-
-  const text = await response.text();
-  if (!text) return {} as T;
-
-  return JSON.parse(text) as T;
-}
+import { apiRequest } from "./api.js";
+import { attachmentTextTools, handleAttachmentTextTool } from "./attachmentText.js";
+import { attachmentTools, ContentResult, handleAttachmentTool } from "./attachments.js";
+import { blueprintTools, handleBlueprintTool } from "./blueprint.js";
+import { bulkTools, handleBulkTool } from "./bulk.js";
+import { CacheGroup, cacheStats, clearCache } from "./cache.js";
+import { dependencyTools, handleDependencyTool } from "./dependencies.js";
+import { toolErrorResult, ValidationError } from "./errors.js";
+import { exportTools, handleExportTool } from "./export.js";
+import { configureFileAccess } from "./files.js";
+import { handleHierarchyTool, hierarchyTools } from "./hierarchy.js";
+import { handleImportTool, importTools } from "./import.js";
+import {
+  buildItemCreate,
+  buildItemUpdate,
+  deleteItem,
+  getItem,
+  itemUpdateProperties,
+  previewItemUpdate,
+  updateItem,
+} from "./items.js";
+import { LogSink, withLogSink } from "./logging.js";
+import { handleMetricsTool, metricsTools } from "./metrics.js";
+import { continueOutput, outputTools, renderOutput, takeOutputOptions, withOutputArguments } from "./output.js";
+import {
+  buildItemsQuery,
+  fetchAllActivities,
+  fetchAllItems,
+  fetchAllSystemLogs,
+  itemFilterProperties,
+  maxRecordsFrom,
+  wantsAllPages,
+} from "./pagination.js";
+import { listProfiles, loadProfiles, withProfile, withProfileArgument } from "./profiles.js";
+import { registerPromptHandlers } from "./prompts.js";
+import { NameResolver, resolveArgs } from "./resolver.js";
+import { registerResourceHandlers } from "./resources.js";
+import { assertToolPermitted, confirmDeletion, isReadOnlyTool, visibleTools } from "./safety.js";
+import { runSecretsCommand } from "./secretsCommand.js";
+import { handleTimeReportTool, timeReportTools } from "./timeReport.js";
+import { parseTransportOptions, startTransport } from "./transport.js";
+import { Board } from "./types.js";
+import { handleUndoTool, undoTools } from "./undo.js";
+import { validateToolArgs } from "./validation.js";
+import { ChangeWatcher, handleWatchTool, watchTools } from "./watcher.js";
 
 // ============================================================================
 // TOOL DEFINITIONS - Complete Teamhood API Coverage
 // ============================================================================
-const tools: Tool[] = [
+const toolDefinitions: Tool[] = [
   // === WORKSPACES ===
   {
     name: "list_workspaces",
     description: "List all workspaces you have access to",
+    annotations: { readOnlyHint: true },
     inputSchema: { type: "object", properties: {} },
   },
   {
     name: "get_workspace",
     description: "Get workspace details including settings and metadata",
+    annotations: { readOnlyHint: true },
     inputSchema: {
       type: "object",
       properties: {
-        workspaceId: { type: "string", description: "Workspace UUID" },
+        workspaceId: { type: "string", description: "Workspace UUID, name or display ID" },
       },
       required: ["workspaceId"],
     },
@@ -119,6 +78,7 @@ const tools: Tool[] = [
   {
     name: "create_workspace",
     description: "Create a new workspace. Requires templateId from list_workspace_templates and ownerId from list_users.",
+    annotations: { readOnlyHint: false, destructiveHint: false },
     inputSchema: {
       type: "object",
       properties: {
@@ -126,8 +86,8 @@ const tools: Tool[] = [
         displayId: { type: "string", description: "Short display ID (e.g., 'PROJ')" },
         icon: { type: "string", description: "Icon type (e.g., 'briefcase', 'star')" },
         color: { type: "number", description: "Color code (optional)" },
-        templateId: { type: "string", description: "Workspace template UUID (use list_workspace_templates)" },
-        ownerId: { type: "string", description: "Owner user UUID (use list_users)" },
+        templateId: { type: "string", description: "Workspace template UUID or name (use list_workspace_templates)" },
+        ownerId: { type: "string", description: "Owner user UUID, name or email (use list_users)" },
       },
       required: ["title", "displayId", "icon", "templateId", "ownerId"],
     },
@@ -135,11 +95,12 @@ const tools: Tool[] = [
   {
     name: "add_workspace_member",
     description: "Add a user to a workspace with Collaborator role (API does not support custom roles)",
+    annotations: { readOnlyHint: false, destructiveHint: false },
     inputSchema: {
       type: "object",
       properties: {
-        workspaceId: { type: "string", description: "Workspace UUID" },
-        userId: { type: "string", description: "User UUID to add" },
+        workspaceId: { type: "string", description: "Workspace UUID, name or display ID" },
+        userId: { type: "string", description: "User UUID, name or email to add" },
       },
       required: ["workspaceId", "userId"],
     },
@@ -147,10 +108,11 @@ const tools: Tool[] = [
   {
     name: "list_boards",
     description: "List all boards in a workspace",
+    annotations: { readOnlyHint: true },
     inputSchema: {
       type: "object",
       properties: {
-        workspaceId: { type: "string", description: "Workspace UUID" },
+        workspaceId: { type: "string", description: "Workspace UUID, name or display ID" },
       },
       required: ["workspaceId"],
     },
@@ -160,11 +122,12 @@ const tools: Tool[] = [
   {
     name: "get_board",
     description: "Get a specific board by ID (returns board info from workspace boards list)",
+    annotations: { readOnlyHint: true },
     inputSchema: {
       type: "object",
       properties: {
-        workspaceId: { type: "string", description: "Workspace UUID containing the board" },
-        boardId: { type: "string", description: "Board UUID to retrieve" },
+        workspaceId: { type: "string", description: "Workspace UUID, name or display ID containing the board" },
+        boardId: { type: "string", description: "Board UUID, name or display ID to retrieve" },
       },
       required: ["workspaceId", "boardId"],
     },
@@ -172,13 +135,14 @@ const tools: Tool[] = [
   {
     name: "create_board",
     description: "Create a new board in a workspace. Requires templateId from list_board_templates.",
+    annotations: { readOnlyHint: false, destructiveHint: false },
     inputSchema: {
       type: "object",
       properties: {
-        workspaceId: { type: "string", description: "Workspace UUID where board will be created" },
+        workspaceId: { type: "string", description: "Workspace UUID, name or display ID where board will be created" },
         title: { type: "string", description: "Board title" },
         displayId: { type: "string", description: "Short display ID (e.g., 'Q1PRIO') - required" },
-        templateId: { type: "string", description: "Board template UUID (use list_board_templates to get available templates)" },
+        templateId: { type: "string", description: "Board template UUID or name (use list_board_templates to get available templates)" },
         viewType: {
           type: "string",
           enum: ["Kanban", "Gantt", "List", "Overview"],
@@ -191,10 +155,11 @@ const tools: Tool[] = [
   {
     name: "list_rows",
     description: "List rows (swimlanes) on a board for grouping items",
+    annotations: { readOnlyHint: true },
     inputSchema: {
       type: "object",
       properties: {
-        boardId: { type: "string", description: "Board UUID" },
+        boardId: { type: "string", description: "Board UUID, name or display ID" },
       },
       required: ["boardId"],
     },
@@ -202,10 +167,11 @@ const tools: Tool[] = [
   {
     name: "list_statuses",
     description: "List status columns on a board (workflow stages)",
+    annotations: { readOnlyHint: true },
     inputSchema: {
       type: "object",
       properties: {
-        boardId: { type: "string", description: "Board UUID" },
+        boardId: { type: "string", description: "Board UUID, name or display ID" },
       },
       required: ["boardId"],
     },
@@ -213,13 +179,14 @@ const tools: Tool[] = [
   {
     name: "create_row",
     description: "Create a new row (swimlane) on a board",
+    annotations: { readOnlyHint: false, destructiveHint: false },
     inputSchema: {
       type: "object",
       properties: {
-        boardId: { type: "string", description: "Board UUID" },
+        boardId: { type: "string", description: "Board UUID, name or display ID" },
         title: { type: "string", description: "Row title" },
-        startDate: { type: "string", description: "Optional start date (ISO 8601)" },
-        endDate: { type: "string", description: "Optional end date (ISO 8601)" },
+        startDate: { type: "string", format: "date-time", description: "Optional start date (ISO 8601)" },
+        endDate: { type: "string", format: "date-time", description: "Optional end date (ISO 8601)" },
       },
       required: ["boardId", "title"],
     },
@@ -228,32 +195,23 @@ const tools: Tool[] = [
   // === ITEMS ===
   {
     name: "list_items",
-    description: "Search and filter items across boards with pagination",
+    description: "Search and filter items across boards with pagination. Set fetchAll to walk every page and get one merged result.",
+    annotations: { readOnlyHint: true },
     inputSchema: {
       type: "object",
       properties: {
-        workspaceId: { type: "string", description: "Filter by workspace UUID" },
-        boardId: { type: "string", description: "Filter by board UUID" },
-        statusId: { type: "string", description: "Filter by status UUID" },
-        rowId: { type: "string", description: "Filter by row UUID" },
-        assignedUserId: { type: "string", description: "Filter by assigned user UUID" },
-        ownerId: { type: "string", description: "Filter by owner user UUID" },
-        parentId: { type: "string", description: "Filter by parent item UUID" },
-        completed: { type: "boolean", description: "Filter by completion status" },
-        tags: { type: "array", items: { type: "string" }, description: "Filter by tags" },
-        customFields: { type: "array", items: { type: "string" }, description: "Filter by custom fields, e.g. ['\"Project\"=\"Cars\"']" },
-        createdSince: { type: "string", description: "Filter items created since (ISO 8601)" },
-        modifiedSince: { type: "string", description: "Filter items modified since (ISO 8601)" },
-        completedSince: { type: "string", description: "Filter items completed since (ISO 8601)" },
-        includeChildItems: { type: "boolean", description: "Include child items in results" },
-        skip: { type: "number", description: "Pagination: records to skip" },
-        take: { type: "number", description: "Pagination: records to return (max 100)" },
+        ...itemFilterProperties,
+        skip: { type: "integer", minimum: 0, description: "Pagination: records to skip" },
+        take: { type: "integer", minimum: 1, maximum: 100, description: "Pagination: records to return (max 100)" },
+        fetchAll: { type: "boolean", description: "Walk all pages and return { items, totalCount, truncated }" },
+        maxRecords: { type: "integer", minimum: 1, description: "Stop after this many records when fetching all pages (default 2000, implies fetchAll)" },
       },
     },
   },
   {
     name: "get_item",
     description: "Get full item details including custom fields and metadata",
+    annotations: { readOnlyHint: true },
     inputSchema: {
       type: "object",
       properties: {
@@ -265,19 +223,20 @@ const tools: Tool[] = [
   {
     name: "create_item",
     description: "Create a new item (task/card) on a board",
+    annotations: { readOnlyHint: false, destructiveHint: false },
     inputSchema: {
       type: "object",
       properties: {
-        workspaceId: { type: "string", description: "Workspace UUID (required)" },
-        boardId: { type: "string", description: "Board UUID where item will be created" },
-        statusId: { type: "string", description: "Status UUID for initial workflow stage (required)" },
+        workspaceId: { type: "string", description: "Workspace UUID, name or display ID (required)" },
+        boardId: { type: "string", description: "Board UUID, name or display ID where item will be created" },
+        statusId: { type: "string", description: "Status UUID or name for initial workflow stage (required)" },
         title: { type: "string", description: "Item title" },
         description: { type: "string", description: "Rich text description" },
-        rowId: { type: "string", description: "Row UUID for swimlane placement" },
-        assigneeId: { type: "string", description: "User UUID to assign (single assignee)" },
-        startDate: { type: "string", description: "Start date (ISO 8601 format)" },
-        dueDate: { type: "string", description: "Due date (ISO 8601 format)" },
-        color: { type: "number", description: "Color index (1-18)" },
+        rowId: { type: "string", description: "Row UUID or name for swimlane placement" },
+        assigneeId: { type: "string", description: "User UUID, name or email to assign (single assignee)" },
+        startDate: { type: "string", format: "date-time", description: "Start date (ISO 8601 format)" },
+        dueDate: { type: "string", format: "date-time", description: "Due date (ISO 8601 format)" },
+        color: { type: "integer", minimum: 1, maximum: 18, description: "Color index (1-18)" },
         tags: { type: "array", items: { type: "string" }, description: "Tags to apply to the item" },
         customFields: {
           type: "array",
@@ -318,69 +277,28 @@ const tools: Tool[] = [
   },
   {
     name: "update_item",
-    description: "Update item properties (title, status, board, assignee, dates, etc.)",
+    description: "Update item properties (title, status, board, assignee, dates, etc.). Use dryRun to preview; note blocking/waiting replace existing dependencies (use add_dependency/remove_dependency to change a single link).",
+    annotations: { readOnlyHint: false, destructiveHint: true },
     inputSchema: {
       type: "object",
       properties: {
         itemId: { type: "string", description: "Item UUID to update" },
-        title: { type: "string", description: "New title" },
-        description: { type: "string", description: "New description" },
-        statusId: { type: "string", description: "New status UUID (move to different column)" },
-        rowId: { type: "string", description: "New row UUID (move to different swimlane)" },
-        boardId: { type: "string", description: "New board UUID (move to different board)" },
-        assigneeId: { type: "string", description: "User UUID to assign (single assignee)" },
-        startDate: { type: "string", description: "New start date (ISO 8601)" },
-        dueDate: { type: "string", description: "New due date (ISO 8601)" },
-        color: { type: "number", description: "Color index (1-18)" },
-        tags: { type: "array", items: { type: "string" }, description: "Tags for the item" },
-        customFields: {
-          type: "array",
-          items: {
-            type: "object",
-            properties: { name: { type: "string" }, value: { type: "string" } },
-            required: ["name", "value"],
-          },
-          description: "Custom field values to update",
-        },
-        blocking: {
-          type: "array",
-          items: {
-            type: "object",
-            properties: {
-              itemId: { type: "string" },
-              direction: { type: "string", enum: ["FinishToStart", "StartToStart", "FinishToFinish", "StartToFinish"] },
-            },
-            required: ["itemId", "direction"],
-          },
-          description: "Items this task blocks (replaces existing)",
-        },
-        waiting: {
-          type: "array",
-          items: {
-            type: "object",
-            properties: {
-              itemId: { type: "string" },
-              direction: { type: "string", enum: ["FinishToStart", "StartToStart", "FinishToFinish", "StartToFinish"] },
-            },
-            required: ["itemId", "direction"],
-          },
-          description: "Items this task waits for (replaces existing)",
-        },
-        archived: { type: "boolean", description: "Archive or unarchive the item" },
-        milestone: { type: "boolean", description: "Mark as milestone" },
-        progress: { type: "number", description: "Progress percentage (0-100)" },
-        parentId: { type: "string", description: "Parent item UUID for sub-items" },
+        ...itemUpdateProperties,
+        dryRun: { type: "boolean", description: "Preview current vs. proposed values without changing anything" },
       },
       required: ["itemId"],
     },
   },
   {
     name: "delete_item",
-    description: "Permanently delete an item",
+    description: "Permanently delete an item. The first call returns a preview and a confirmToken; call again with confirmToken to delete.",
+    annotations: { readOnlyHint: false, destructiveHint: true },
     inputSchema: {
       type: "object",
       properties: {
         itemId: { type: "string", description: "Item UUID to delete" },
+        dryRun: { type: "boolean", description: "Show the item that would be deleted without deleting it" },
+        confirmToken: { type: "string", description: "Token returned by the previous delete_item call for this item" },
       },
       required: ["itemId"],
     },
@@ -388,13 +306,15 @@ const tools: Tool[] = [
   {
     name: "move_item",
     description: "Move an item to a different board, status column, or row (swimlane)",
+    annotations: { readOnlyHint: false, destructiveHint: true },
     inputSchema: {
       type: "object",
       properties: {
         itemId: { type: "string", description: "Item UUID to move" },
-        targetBoardId: { type: "string", description: "Target board UUID (to move between boards)" },
-        targetStatusId: { type: "string", description: "Target status UUID (new column)" },
-        targetRowId: { type: "string", description: "Target row UUID (new swimlane)" },
+        targetBoardId: { type: "string", description: "Target board UUID, name or display ID (to move between boards)" },
+        targetStatusId: { type: "string", description: "Target status UUID or name (new column)" },
+        targetRowId: { type: "string", description: "Target row UUID or name (new swimlane)" },
+        dryRun: { type: "boolean", description: "Preview current vs. proposed values without changing anything" },
       },
       required: ["itemId"],
     },
@@ -402,91 +322,43 @@ const tools: Tool[] = [
   {
     name: "archive_item",
     description: "Archive or unarchive an item (soft delete - item can be restored)",
+    annotations: { readOnlyHint: false, destructiveHint: true },
     inputSchema: {
       type: "object",
       properties: {
         itemId: { type: "string", description: "Item UUID to archive/unarchive" },
         archived: { type: "boolean", description: "True to archive, false to unarchive (default: true)" },
+        dryRun: { type: "boolean", description: "Preview current vs. proposed values without changing anything" },
       },
       required: ["itemId"],
     },
   },
 
+  // === HIERARCHY ===
+  ...hierarchyTools,
+
+  // === DEPENDENCIES ===
+  ...dependencyTools,
+
+  // === BULK OPERATIONS ===
+  ...bulkTools,
+
+  // === UNDO ===
+  ...undoTools,
+
+  // === EXPORT / IMPORT ===
+  ...exportTools,
+  ...importTools,
+
   // === ATTACHMENTS ===
-  {
-    name: "list_attachments",
-    description: "List all attachments on an item",
-    inputSchema: {
-      type: "object",
-      properties: {
-        itemId: { type: "string", description: "Item UUID" },
-      },
-      required: ["itemId"],
-    },
-  },
-  {
-    name: "get_attachment",
-    description: "Get attachment metadata (name, size, type)",
-    inputSchema: {
-      type: "object",
-      properties: {
-        attachmentId: { type: "string", description: "Attachment UUID" },
-      },
-      required: ["attachmentId"],
-    },
-  },
-  {
-    name: "download_attachment",
-    description: "Download attachment file content by ID",
-    inputSchema: {
-      type: "object",
-      properties: {
-        attachmentId: { type: "string", description: "Attachment UUID" },
-      },
-      required: ["attachmentId"],
-    },
-  },
-  {
-    name: "update_attachment",
-    description: "Update attachment name",
-    inputSchema: {
-      type: "object",
-      properties: {
-        attachmentId: { type: "string", description: "Attachment UUID" },
-        name: { type: "string", description: "New filename" },
-      },
-      required: ["attachmentId", "name"],
-    },
-  },
-  {
-    name: "delete_attachment",
-    description: "Permanently delete an attachment",
-    inputSchema: {
-      type: "object",
-      properties: {
-        attachmentId: { type: "string", description: "Attachment UUID to delete" },
-      },
-      required: ["attachmentId"],
-    },
-  },
-  {
-    name: "upload_attachment",
-    description: "Upload a file attachment to an item. Note: For binary files, content should be base64 encoded.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        itemId: { type: "string", description: "Item UUID to attach file to" },
-        name: { type: "string", description: "Filename with extension (e.g., 'report.pdf')" },
-        content: { type: "string", description: "File content (base64 encoded for binary files)" },
-      },
-      required: ["itemId", "name", "content"],
-    },
-  },
+  ...attachmentTools,
+  ...attachmentTextTools,
 
   // === USERS ===
   {
     name: "list_users",
     description: "List all users in the organization",
+    annotations: { readOnlyHint: true },
     inputSchema: { type: "object", properties: {} },
   },
 
@@ -495,69 +367,116 @@ const tools: Tool[] = [
   {
     name: "get_time_logs",
     description: "Get time logs for a workspace within a date range. Can filter by boards, rows, users, or tags.",
+    annotations: { readOnlyHint: true },
     inputSchema: {
       type: "object",
       properties: {
-        workspaceId: { type: "string", description: "Workspace UUID (required)" },
-        startDate: { type: "string", description: "Start date (ISO 8601 UTC)" },
-        endDate: { type: "string", description: "End date (ISO 8601 UTC)" },
-        boardIds: { type: "array", items: { type: "string" }, description: "Filter by board UUIDs" },
-        rowIds: { type: "array", items: { type: "string" }, description: "Filter by row UUIDs" },
-        userIds: { type: "array", items: { type: "string" }, description: "Filter by user UUIDs" },
+        workspaceId: { type: "string", description: "Workspace UUID, name or display ID (required)" },
+        startDate: { type: "string", format: "date-time", description: "Start date (ISO 8601 UTC)" },
+        endDate: { type: "string", format: "date-time", description: "End date (ISO 8601 UTC)" },
+        boardIds: { type: "array", items: { type: "string" }, description: "Filter by board UUIDs or names" },
+        rowIds: { type: "array", items: { type: "string" }, description: "Filter by row UUIDs or names" },
+        userIds: { type: "array", items: { type: "string" }, description: "Filter by user UUIDs, names or emails" },
         tags: { type: "array", items: { type: "string" }, description: "Filter by tags" },
       },
       required: ["workspaceId", "startDate", "endDate"],
     },
   },
+  ...timeReportTools,
 
   // === TEMPLATES ===
   {
     name: "list_workspace_templates",
     description: "List available workspace templates",
+    annotations: { readOnlyHint: true },
     inputSchema: { type: "object", properties: {} },
   },
   {
     name: "list_board_templates",
     description: "List available board templates. Use templateId when creating a new board.",
+    annotations: { readOnlyHint: true },
     inputSchema: { type: "object", properties: {} },
   },
+  ...blueprintTools,
 
   // === ACTIVITY / LOGS ===
   {
     name: "list_activities",
-    description: "Get item change history on a board (audit log)",
+    description: "Get item change history on a board (audit log). With fetchAll, ranges longer than 3 months are split into windows automatically.",
+    annotations: { readOnlyHint: true },
     inputSchema: {
       type: "object",
       properties: {
-        boardId: { type: "string", description: "Board UUID" },
-        startDate: { type: "string", description: "Start date (ISO 8601 UTC)" },
-        endDate: { type: "string", description: "End date (ISO 8601 UTC, max 3 months from start)" },
-        offset: { type: "number", description: "Pagination offset (default: 0)" },
-        limit: { type: "number", description: "Records to return (default: 100, max: 1000)" },
+        boardId: { type: "string", description: "Board UUID, name or display ID" },
+        startDate: { type: "string", format: "date-time", description: "Start date (ISO 8601 UTC)" },
+        endDate: { type: "string", format: "date-time", description: "End date (ISO 8601 UTC, max 3 months from start)" },
+        offset: { type: "integer", minimum: 0, description: "Pagination offset (default: 0)" },
+        limit: { type: "integer", minimum: 1, maximum: 1000, description: "Records to return (default: 100, max: 1000)" },
+        fetchAll: { type: "boolean", description: "Walk all pages and 3-month windows and return { activities, returnedCount, truncated }; offset is not allowed" },
+        maxRecords: { type: "integer", minimum: 1, description: "Stop after this many records when fetching all pages (default 2000, implies fetchAll)" },
       },
       required: ["boardId", "startDate", "endDate"],
     },
   },
+  ...metricsTools,
   {
     name: "list_system_logs",
     description: "List system logs by date range with paging",
+    annotations: { readOnlyHint: true },
     inputSchema: {
       type: "object",
       properties: {
-        fromDate: { type: "string", description: "Start date (ISO 8601 UTC, e.g., 2024-02-05T02:00:00Z)" },
-        toDate: { type: "string", description: "End date (ISO 8601 UTC)" },
-        skip: { type: "number", description: "Number of records to skip" },
-        take: { type: "number", description: "Number of records to take (max 1000)" },
+        fromDate: { type: "string", format: "date-time", description: "Start date (ISO 8601 UTC, e.g., 2024-02-05T02:00:00Z)" },
+        toDate: { type: "string", format: "date-time", description: "End date (ISO 8601 UTC)" },
+        skip: { type: "integer", minimum: 0, description: "Number of records to skip" },
+        take: { type: "integer", minimum: 1, maximum: 1000, description: "Number of records to take (max 1000)" },
+        fetchAll: { type: "boolean", description: "Walk all pages and return { logs, totalCount, truncated }" },
+        maxRecords: { type: "integer", minimum: 1, description: "Stop after this many records when fetching all pages (default 2000, implies fetchAll)" },
       },
       required: ["fromDate", "toDate"],
     },
   },
+
+  // === WATCH ===
+  ...watchTools,
+
+  // === CACHE ===
+  {
+    name: "refresh_cache",
+    description: "Clear cached workspaces, boards, statuses, rows, users and templates so the next call fetches fresh data. Use after changes made outside this server.",
+    annotations: { readOnlyHint: true },
+    inputSchema: {
+      type: "object",
+      properties: {
+        group: {
+          type: "string",
+          enum: ["workspaces", "boards", "statuses", "rows", "users", "templates"],
+          description: "Only clear this kind of data (default: everything)",
+        },
+        boardId: { type: "string", description: "Only clear statuses/rows cached for this board" },
+      },
+    },
+  },
+
+  // === OUTPUT ===
+  ...outputTools,
+
+  // === PROFILES ===
+  {
+    name: "list_profiles",
+    description: "List the configured Teamhood connection profiles (tenants). Pass a profile name as the profile argument of any tool to run it against that tenant.",
+    annotations: { readOnlyHint: true },
+    inputSchema: { type: "object", properties: {} },
+  },
 ];
 
+// Every tool accepts optional profile, fields and format arguments
+const tools = withOutputArguments(withProfileArgument(toolDefinitions));
+
 // ============================================================================
 // TOOL HANDLERS
 // ============================================================================
-async function handleToolCall(name: string, args: Record<string, unknown>): Promise<unknown> {
+async function handleToolCall(name: string, args: Record<string, unknown>, watcher: ChangeWatcher): Promise<unknown> {
   switch (name) {
     // === WORKSPACES ===
     case "list_workspaces":
@@ -588,7 +507,7 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
 
     // === BOARDS ===
     case "get_board": {
-      const boards = await apiRequest<Array<{ id: string }>>(`/workspaces/${args.workspaceId}/boards`);
+      const boards = await apiRequest<Board[]>(`/workspaces/${args.workspaceId}/boards`);
       const board = boards.find((b) => b.id === args.boardId);
       if (!board) throw new Error(`Board ${args.boardId} not found in workspace`);
       return board;
@@ -619,29 +538,11 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
 
     // === ITEMS ===
     case "list_items": {
-      const params = new URLSearchParams();
-      if (args.workspaceId) params.append("WorkspaceId", args.workspaceId as string);
-      if (args.boardId) params.append("BoardId", args.boardId as string);
-      if (args.statusId) params.append("StatusId", args.statusId as string);
-      if (args.rowId) params.append("RowId", args.rowId as string);
-      if (args.assignedUserId) params.append("AssignedUserId", args.assignedUserId as string);
-      if (args.ownerId) params.append("OwnerId", args.ownerId as string);
-      if (args.parentId) params.append("ParentId", args.parentId as string);
-      if (args.completed !== undefined) params.append("Completed", String(args.completed));
-      if (args.tags) {
-        for (const tag of args.tags as string[]) {
-          params.append("Tags", tag);
-        }
+      if (wantsAllPages(args)) {
+        const { records, totalCount, truncated } = await fetchAllItems(args, maxRecordsFrom(args));
+        return { items: records, totalCount, truncated };
       }
-      if (args.customFields) {
-        for (const cf of args.customFields as string[]) {
-          params.append("CustomFields", cf);
-        }
-      }
-      if (args.createdSince) params.append("CreatedSince", args.createdSince as string);
-      if (args.modifiedSince) params.append("ModifiedSince", args.modifiedSince as string);
-      if (args.completedSince) params.append("CompletedSince", args.completedSince as string);
-      if (args.includeChildItems !== undefined) params.append("IncludeChildItems", String(args.includeChildItems));
+      const params = buildItemsQuery(args);
       if (args.skip !== undefined) params.append("Skip", String(args.skip));
       if (args.take !== undefined) params.append("Take", String(args.take));
       const query = params.toString();
@@ -652,113 +553,79 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
       return apiRequest(`/items/${args.itemId}`);
 
     case "create_item":
-      return apiRequest("/items", "POST", {
-        workspaceId: args.workspaceId,
-        boardId: args.boardId,
-        statusId: args.statusId,
-        title: args.title,
-        description: args.description,
-        rowId: args.rowId,
-        assignedUserId: args.assigneeId, // API uses singular assignedUserId
-        startDate: args.startDate,
-        dueDate: args.dueDate,
-        color: args.color,
-        tags: args.tags || [],
-        customFields: args.customFields || [],
-        blocking: args.blocking || [],
-        waiting: args.waiting || [],
-        milestone: false,
-        isSuspended: false,
-        suspendReason: "",
-      });
+      return apiRequest("/items", "POST", buildItemCreate(args));
 
     case "update_item": {
-      const updateData: Record<string, unknown> = {};
-      if (args.title !== undefined) updateData.title = args.title;
-      if (args.description !== undefined) updateData.description = args.description;
-      if (args.statusId !== undefined) updateData.statusId = args.statusId;
-      if (args.rowId !== undefined) updateData.rowId = args.rowId;
-      if (args.boardId !== undefined) updateData.boardId = args.boardId;
-      if (args.assigneeId !== undefined) updateData.userId = args.assigneeId; // API uses userId for update
-      if (args.startDate !== undefined) updateData.startDate = args.startDate;
-      if (args.dueDate !== undefined) updateData.dueDate = args.dueDate;
-      if (args.color !== undefined) updateData.color = args.color;
-      if (args.tags !== undefined) updateData.tags = args.tags;
-      if (args.customFields !== undefined) updateData.customFields = args.customFields;
-      if (args.blocking !== undefined) updateData.blocking = args.blocking;
-      if (args.waiting !== undefined) updateData.waiting = args.waiting;
-      if (args.archived !== undefined) updateData.archived = args.archived;
-      if (args.milestone !== undefined) updateData.milestone = args.milestone;
-      if (args.progress !== undefined) updateData.progress = args.progress;
-      if (args.parentId !== undefined) updateData.parentId = args.parentId;
-      // API expects { data: { ...fields } } structure
-      return apiRequest(`/items/${args.itemId}`, "PUT", { data: updateData });
+      const data = buildItemUpdate(args);
+      if (args.dryRun) return previewItemUpdate(args.itemId as string, data);
+      return updateItem(args.itemId as string, data);
     }
 
-    case "delete_item":
-      return apiRequest(`/items/${args.itemId}`, "DELETE");
+    case "delete_item": {
+      const itemId = args.itemId as string;
+      if (args.dryRun) return { dryRun: true, wouldDelete: await getItem(itemId) };
+      return confirmDeletion(name, itemId, args.confirmToken, () => getItem(itemId), () => deleteItem(itemId));
+    }
 
-    case "move_item":
-      return apiRequest(`/items/${args.itemId}`, "PUT", {
-        data: {
-          boardId: args.targetBoardId,
-          statusId: args.targetStatusId,
-          rowId: args.targetRowId,
-        },
-      });
+    case "move_item": {
+      const data = {
+        boardId: args.targetBoardId,
+        statusId: args.targetStatusId,
+        rowId: args.targetRowId,
+      };
+      if (args.dryRun) return previewItemUpdate(args.itemId as string, data);
+      return updateItem(args.itemId as string, data, name);
+    }
 
-    case "archive_item":
-      return apiRequest(`/items/${args.itemId}`, "PUT", {
-        data: { archived: args.archived ?? true },
-      });
+    case "archive_item": {
+      const data = { archived: args.archived ?? true };
+      if (args.dryRun) return previewItemUpdate(args.itemId as string, data);
+      return updateItem(args.itemId as string, data, name);
+    }
+
+    // === HIERARCHY ===
+    case "get_item_tree":
+    case "create_subtasks":
+    case "move_subtree":
+    case "archive_subtree":
+      return handleHierarchyTool(name, args);
+
+    // === DEPENDENCIES ===
+    case "get_dependency_graph":
+    case "get_dependency_impact":
+    case "add_dependency":
+    case "remove_dependency":
+      return handleDependencyTool(name, args);
+
+    // === BULK OPERATIONS ===
+    case "bulk_update_items":
+    case "bulk_move_items":
+    case "bulk_archive_items":
+      return handleBulkTool(name, args);
+
+    // === UNDO ===
+    case "list_recent_changes":
+    case "undo_change":
+      return handleUndoTool(name, args);
+
+    // === EXPORT / IMPORT ===
+    case "export_board":
+      return handleExportTool(name, args);
+
+    case "import_items":
+      return handleImportTool(name, args);
 
     // === ATTACHMENTS ===
     case "list_attachments":
-      return apiRequest(`/items/${args.itemId}/attachments`);
-
     case "get_attachment":
-      return apiRequest(`/attachments/${args.attachmentId}`);
-
     case "download_attachment":
-      // Returns file content - note: binary handling may need special treatment
-      return apiRequest(`/attachments/${args.attachmentId}/content`);
-
     case "update_attachment":
-      return apiRequest(`/attachments/${args.attachmentId}`, "PUT", {
-        Name: args.name,
-      });
-
     case "delete_attachment":
-      return apiRequest(`/attachments/${args.attachmentId}`, "DELETE");
-
-    case "upload_attachment": {
-      // For file uploads, we need multipart/form-data
-      const url = `${BASE_URL}/attachments`;
-      const formData = new FormData();
-      formData.append("ItemId", args.itemId as string);
-      formData.append("Name", args.name as string);
-      // Content is expected as base64, decode for binary upload
-      const content = args.content as string;
-      const binaryContent = Buffer.from(content, "base64");
-      const blob = new Blob([binaryContent]);
-      formData.append("Content", blob, args.name as string);
-
-      const response = await fetch(url, {
-        method: "POST",
-        headers: {
-          Authorization: API_KEY,
-        },
-        body: formData,
-      });
+    case "upload_attachment":
+      return handleAttachmentTool(name, args);
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Upload failed ${response.status}: ${errorText}`);
-      }
-
-      const text = await response.text();
-      return text ? JSON.parse(text) : {};
-    }
+    case "read_attachment_text":
+      return handleAttachmentTextTool(name, args);
 
     // === USERS ===
     case "list_users":
@@ -776,6 +643,9 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
         tags: args.tags,
       });
 
+    case "time_report":
+      return handleTimeReportTool(name, args);
+
     // === TEMPLATES ===
     case "list_workspace_templates":
       return apiRequest("/templates/workspace");
@@ -783,8 +653,26 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
     case "list_board_templates":
       return apiRequest("/templates/board");
 
+    case "apply_blueprint":
+      return handleBlueprintTool(name, args);
+
     // === ACTIVITY / LOGS ===
     case "list_activities":
+      if (wantsAllPages(args)) {
+        // Windows are fetched from their start, so an offset has no meaning here
+        if (args.offset) {
+          throw new ValidationError("offset cannot be combined with fetchAll/maxRecords: narrow startDate instead", {
+            field: "offset",
+          });
+        }
+        const { records, returnedCount, truncated, windows } = await fetchAllActivities(
+          args.boardId as string,
+          args.startDate as string,
+          args.endDate as string,
+          maxRecordsFrom(args)
+        );
+        return { activities: records, returnedCount, truncated, windows };
+      }
       return apiRequest(`/boards/${args.boardId}/item-activities`, "POST", {
         startDate: args.startDate,
         endDate: args.endDate,
@@ -792,7 +680,19 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
         limit: args.limit ?? 100,
       });
 
+    case "board_metrics":
+      return handleMetricsTool(name, args);
+
     case "list_system_logs": {
+      if (wantsAllPages(args)) {
+        const { records, totalCount, truncated } = await fetchAllSystemLogs(
+          args.fromDate as string,
+          args.toDate as string,
+          maxRecordsFrom(args),
+          (args.skip as number | undefined) ?? 0
+        );
+        return { logs: records, totalCount, truncated };
+      }
       const logParams = new URLSearchParams();
       logParams.append("fromDate", args.fromDate as string);
       logParams.append("toDate", args.toDate as string);
@@ -801,6 +701,27 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
       return apiRequest(`/logs?${logParams.toString()}`);
     }
 
+    // === WATCH ===
+    case "watch_board":
+    case "unwatch":
+    case "list_watches":
+    case "get_changes_since":
+      return handleWatchTool(name, args, watcher);
+
+    // === CACHE ===
+    case "refresh_cache": {
+      const cleared = clearCache(args.group as CacheGroup | undefined, args.boardId as string | undefined);
+      return { cleared, ...cacheStats() };
+    }
+
+    // === OUTPUT ===
+    case "continue_output":
+      return continueOutput(args.cursor as string);
+
+    // === PROFILES ===
+    case "list_profiles":
+      return listProfiles();
+
     default:
       throw new Error(`Unknown tool: ${name}`);
   }
@@ -809,56 +730,82 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
 // ============================================================================
 // SERVER SETUP
 // ============================================================================
-const server = new Server(
-  {
-    name: "teamhood-mcp",
-    version: "1.0.0",
-    description: "MCP server for Teamhood project management API - enables AI assistants to manage workspaces, boards, items, and more",
-    websiteUrl: "https://github.com/vanmarkic/teamhood-mcp",
-  },
-  {
-    capabilities: {
-      tools: {},
+// Each connected client gets its own Server instance (stdio has exactly one;
+// the HTTP transport creates one per session)
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: "teamhood-mcp",
+      version: "1.0.0",
+      description: "MCP server for Teamhood project management API - enables AI assistants to manage workspaces, boards, items, and more",
+      websiteUrl: "https://github.com/vanmarkic/teamhood-mcp",
     },
-  }
-);
-
-// Register handlers
-server.setRequestHandler(ListToolsRequestSchema, async () => ({
-  tools,
-}));
-
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  try {
-    const result = await handleToolCall(name, args as Record<string, unknown>);
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(result, null, 2),
-        },
-      ],
-    };
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Error: ${errorMessage}`,
-        },
-      ],
-      isError: true,
-    };
-  }
-});
+    {
+      capabilities: {
+        tools: {},
+        logging: {},
+        resources: { subscribe: true },
+        prompts: {},
+      },
+    }
+  );
+  const watcher = new ChangeWatcher(server);
+  server.onclose = () => watcher.stopAll();
+  const logSink: LogSink = (level, logger, data) => server.sendLoggingMessage({ level, logger, data });
+
+  // Every tool call, from a client or from a prompt, is validated, checked
+  // against the safety mode and resolved the same way. Returns the tool's own
+  // value and the output options to render it with.
+  const callTool = async (name: string, args: Record<string, unknown>) => {
+    const tool = tools.find((t) => t.name === name);
+    if (!tool) throw new Error(`Unknown tool: ${name}`);
+    validateToolArgs(tool, args);
+    const { profile, ...callArgs } = args;
+    const { options, toolArgs } = takeOutputOptions(callArgs);
+    const value = await withLogSink(logSink, () =>
+      withProfile(profile as string | undefined, async () => {
+        assertToolPermitted(tool, toolArgs);
+        const resolvedArgs = await resolveArgs(name, toolArgs, new NameResolver(!isReadOnlyTool(tool)));
+        return handleToolCall(name, resolvedArgs, watcher);
+      })
+    );
+    return { value, options };
+  };
+
+  registerResourceHandlers(server, watcher);
+  registerPromptHandlers(server, async (name, args) => (await callTool(name, args)).value);
+
+  // Register handlers
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: visibleTools(tools),
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+
+    try {
+      const { value, options } = await callTool(name, (args ?? {}) as Record<string, unknown>);
+      if (value instanceof ContentResult) return { content: value.content };
+      return { content: [{ type: "text", text: renderOutput(value, options) }] };
+    } catch (error) {
+      return toolErrorResult(error);
+    }
+  });
+
+  return server;
+}
 
 // Start server
 async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  const argv = process.argv.slice(2);
+  if (argv[0] === "secrets") {
+    process.exitCode = await runSecretsCommand(argv.slice(1));
+    return;
+  }
+  await loadProfiles();
+  const options = parseTransportOptions(argv);
+  configureFileAccess(options.transport);
+  await startTransport(createServer, options);
 }
 
 main().catch((error) => {
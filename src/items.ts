@@ -0,0 +1,200 @@
+import { apiRequest } from "./api.js";
+import { ChangeEntry, journalEnabled, recordChange } from "./journal.js";
+import { logMessage } from "./logging.js";
+import { currentProfile } from "./profiles.js";
+import { Item } from "./types.js";
+
+// ============================================================================
+// ITEM MUTATIONS - shared by update_item, move_item, archive_item and the
+// tools that change many items at once. Every mutation is journaled with a
+// snapshot of the item so it can be undone.
+// ============================================================================
+
+// Writable item fields, as exposed by update_item
+export const itemUpdateProperties: Record<string, object> = {
+  title: { type: "string", description: "New title" },
+  description: { type: "string", description: "New description" },
+  statusId: { type: "string", description: "New status UUID or name (move to different column)" },
+  rowId: { type: "string", description: "New row UUID or name (move to different swimlane)" },
+  boardId: { type: "string", description: "New board UUID, name or display ID (move to different board)" },
+  assigneeId: { type: "string", description: "User UUID, name or email to assign (single assignee)" },
+  startDate: { type: "string", format: "date-time", description: "New start date (ISO 8601)" },
+  dueDate: { type: "string", format: "date-time", description: "New due date (ISO 8601)" },
+  color: { type: "integer", minimum: 1, maximum: 18, description: "Color index (1-18)" },
+  tags: { type: "array", items: { type: "string" }, description: "Tags for the item" },
+  customFields: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: { name: { type: "string" }, value: { type: "string" } },
+      required: ["name", "value"],
+    },
+    description: "Custom field values to update",
+  },
+  blocking: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        itemId: { type: "string" },
+        direction: { type: "string", enum: ["FinishToStart", "StartToStart", "FinishToFinish", "StartToFinish"] },
+      },
+      required: ["itemId", "direction"],
+    },
+    description: "Items this task blocks (replaces existing)",
+  },
+  waiting: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        itemId: { type: "string" },
+        direction: { type: "string", enum: ["FinishToStart", "StartToStart", "FinishToFinish", "StartToFinish"] },
+      },
+      required: ["itemId", "direction"],
+    },
+    description: "Items this task waits for (replaces existing)",
+  },
+  archived: { type: "boolean", description: "Archive or unarchive the item" },
+  milestone: { type: "boolean", description: "Mark as milestone" },
+  progress: { type: "number", minimum: 0, maximum: 100, description: "Progress percentage (0-100)" },
+  parentId: { type: "string", description: "Parent item UUID for sub-items" },
+};
+
+// Map tool arguments to the API's update payload
+export function buildItemUpdate(args: Record<string, unknown>): Record<string, unknown> {
+  const updateData: Record<string, unknown> = {};
+  if (args.title !== undefined) updateData.title = args.title;
+  if (args.description !== undefined) updateData.description = args.description;
+  if (args.statusId !== undefined) updateData.statusId = args.statusId;
+  if (args.rowId !== undefined) updateData.rowId = args.rowId;
+  if (args.boardId !== undefined) updateData.boardId = args.boardId;
+  if (args.assigneeId !== undefined) updateData.userId = args.assigneeId; // API uses userId for update
+  if (args.startDate !== undefined) updateData.startDate = args.startDate;
+  if (args.dueDate !== undefined) updateData.dueDate = args.dueDate;
+  if (args.color !== undefined) updateData.color = args.color;
+  if (args.tags !== undefined) updateData.tags = args.tags;
+  if (args.customFields !== undefined) updateData.customFields = args.customFields;
+  if (args.blocking !== undefined) updateData.blocking = args.blocking;
+  if (args.waiting !== undefined) updateData.waiting = args.waiting;
+  if (args.archived !== undefined) updateData.archived = args.archived;
+  if (args.milestone !== undefined) updateData.milestone = args.milestone;
+  if (args.progress !== undefined) updateData.progress = args.progress;
+  if (args.parentId !== undefined) updateData.parentId = args.parentId;
+  return updateData;
+}
+
+// Map create_item arguments to the API's create payload
+export function buildItemCreate(args: Record<string, unknown>): Record<string, unknown> {
+  return {
+    workspaceId: args.workspaceId,
+    boardId: args.boardId,
+    statusId: args.statusId,
+    title: args.title,
+    description: args.description,
+    rowId: args.rowId,
+    assignedUserId: args.assigneeId, // API uses singular assignedUserId
+    startDate: args.startDate,
+    dueDate: args.dueDate,
+    color: args.color,
+    tags: args.tags || [],
+    customFields: args.customFields || [],
+    blocking: args.blocking || [],
+    waiting: args.waiting || [],
+    milestone: false,
+    isSuspended: false,
+    suspendReason: "",
+  };
+}
+
+// Update payload keys that are named differently on the item itself
+const ITEM_FIELD_FOR: Record<string, keyof Item> = { userId: "assignedUserId" };
+
+// Current value on the item of a field named as in the update payload
+export function itemFieldValue(item: Item, key: string): unknown {
+  return item[ITEM_FIELD_FOR[key] ?? (key as keyof Item)];
+}
+
+// Fields an update would actually change, with their current and new values
+export function diffItem(item: Item, data: Record<string, unknown>): Record<string, { from: unknown; to: unknown }> {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  for (const [key, to] of Object.entries(data)) {
+    if (to === undefined) continue;
+    const from = itemFieldValue(item, key);
+    if (JSON.stringify(from) !== JSON.stringify(to)) changes[key] = { from, to };
+  }
+  return changes;
+}
+
+// Dry-run for update_item and friends: what would change, plus the side
+// effects that are easy to miss
+export async function previewItemUpdate(itemId: string, data: Record<string, unknown>): Promise<unknown> {
+  const item = await getItem(itemId);
+  const changes = diffItem(item, data);
+  const warnings: string[] = [];
+  if (changes.blocking) warnings.push("blocking replaces ALL existing blocking dependencies of this item");
+  if (changes.waiting) warnings.push("waiting replaces ALL existing waiting dependencies of this item");
+  if (changes.boardId) warnings.push("item moves to another board; its status and row must exist there");
+  if (changes.archived && data.archived === true) warnings.push("item will be archived and hidden from the board");
+  return { dryRun: true, itemId, title: item.title, changes, warnings };
+}
+
+export function getItem(itemId: string): Promise<Item> {
+  return apiRequest<Item>(`/items/${itemId}`);
+}
+
+// Values that put back the fields an update changed. Fields the item did not
+// have before are cleared with null.
+export function restorePayload(before: Item, changes: Record<string, unknown>): Record<string, unknown> {
+  const payload: Record<string, unknown> = {};
+  for (const key of Object.keys(changes)) {
+    payload[key] = itemFieldValue(before, key) ?? null;
+  }
+  return payload;
+}
+
+// Journal a change that was already applied. A failed journal write must not
+// make the change look failed (the caller might apply it again), so it is
+// logged and returned as a warning instead.
+async function journalChange(change: Omit<ChangeEntry, "type" | "id" | "timestamp">): Promise<string | undefined> {
+  try {
+    await recordChange(change);
+    return undefined;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    const warning = `${change.operation} of item ${change.itemId} succeeded but was not journaled, so it cannot be undone: ${reason}`;
+    await logMessage("warning", "teamhood-journal", warning);
+    return warning;
+  }
+}
+
+function withWarning(result: unknown, warning: string | undefined): unknown {
+  if (!warning) return result;
+  return result && typeof result === "object" && !Array.isArray(result) ? { ...result, warning } : { result, warning };
+}
+
+export async function updateItem(
+  itemId: string,
+  data: Record<string, unknown>,
+  tool = "update_item"
+): Promise<unknown> {
+  const before = journalEnabled() ? await getItem(itemId) : undefined;
+  // API expects { data: { ...fields } } structure
+  const result = await apiRequest(`/items/${itemId}`, "PUT", { data });
+  if (before) {
+    const changes = Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+    const warning = await journalChange({ tool, profile: currentProfile().name, operation: "update", itemId, before, changes });
+    return withWarning(result, warning);
+  }
+  return result;
+}
+
+export async function deleteItem(itemId: string, tool = "delete_item"): Promise<unknown> {
+  const before = journalEnabled() ? await getItem(itemId) : undefined;
+  const result = await apiRequest(`/items/${itemId}`, "DELETE");
+  if (before) {
+    const warning = await journalChange({ tool, profile: currentProfile().name, operation: "delete", itemId, before, changes: {} });
+    return withWarning(result, warning);
+  }
+  return result;
+}
@@ -0,0 +1,100 @@
+import { randomUUID } from "crypto";
+import { existsSync } from "fs";
+import { appendFile, mkdir, readFile } from "fs/promises";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import { Item } from "./types.js";
+
+// ============================================================================
+// CHANGE JOURNAL - append-only JSONL log of item snapshots taken before each
+// mutation, so changes can be listed and undone later
+// ============================================================================
+
+const JOURNAL_ENABLED = !["0", "false", "no", "off"].includes(
+  (process.env.TEAMHOOD_JOURNAL ?? "").trim().toLowerCase()
+);
+const JOURNAL_PATH = process.env.TEAMHOOD_JOURNAL_PATH || join(homedir(), ".teamhood-mcp", "journal.jsonl");
+
+export interface ChangeEntry {
+  type: "change";
+  id: string;
+  timestamp: string;
+  tool: string;
+  // Connection profile the change was made with
+  profile: string;
+  operation: "update" | "delete";
+  itemId: string;
+  // Item as returned by get_item right before the mutation
+  before: Item;
+  // Update payload that was sent (empty for deletions)
+  changes: Record<string, unknown>;
+}
+
+interface UndoEntry {
+  type: "undo";
+  changeId: string;
+  timestamp: string;
+  // For undone deletions: ID of the item that was recreated
+  recreatedItemId?: string;
+}
+
+type JournalEntry = ChangeEntry | UndoEntry;
+
+export function journalEnabled(): boolean {
+  return JOURNAL_ENABLED;
+}
+
+async function append(entry: JournalEntry): Promise<void> {
+  await mkdir(dirname(JOURNAL_PATH), { recursive: true });
+  await appendFile(JOURNAL_PATH, `${JSON.stringify(entry)}\n`, "utf-8");
+}
+
+export async function recordChange(
+  change: Omit<ChangeEntry, "type" | "id" | "timestamp">
+): Promise<ChangeEntry> {
+  const entry: ChangeEntry = { type: "change", id: randomUUID(), timestamp: new Date().toISOString(), ...change };
+  await append(entry);
+  return entry;
+}
+
+export async function recordUndo(changeId: string, recreatedItemId?: string): Promise<void> {
+  await append({ type: "undo", changeId, timestamp: new Date().toISOString(), recreatedItemId });
+}
+
+export interface JournalRecord extends ChangeEntry {
+  undoneAt?: string;
+  recreatedItemId?: string;
+}
+
+// All changes, newest first, with their undo status. Lines that fail to
+// parse (e.g. a write cut short by a crash) are skipped.
+export async function readJournal(): Promise<JournalRecord[]> {
+  if (!existsSync(JOURNAL_PATH)) return [];
+  const content = await readFile(JOURNAL_PATH, "utf-8");
+  const changes = new Map<string, JournalRecord>();
+
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    let entry: JournalEntry;
+    try {
+      entry = JSON.parse(line) as JournalEntry;
+    } catch {
+      continue;
+    }
+    if (entry.type === "change") {
+      changes.set(entry.id, { ...entry });
+    } else if (entry.type === "undo") {
+      const change = changes.get(entry.changeId);
+      if (change) {
+        change.undoneAt = entry.timestamp;
+        change.recreatedItemId = entry.recreatedItemId;
+      }
+    }
+  }
+
+  return [...changes.values()].reverse();
+}
+
+export function journalPath(): string {
+  return JOURNAL_PATH;
+}
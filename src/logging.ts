@@ -0,0 +1,30 @@
+import { LoggingLevel } from "@modelcontextprotocol/sdk/types.js";
+import { AsyncLocalStorage } from "async_hooks";
+
+// ============================================================================
+// LOGGING - messages about a tool call, sent to the client that made it over
+// the MCP logging channel
+// ============================================================================
+
+export type LogSink = (level: LoggingLevel, logger: string, data: unknown) => Promise<void>;
+
+const activeSink = new AsyncLocalStorage<LogSink>();
+
+// Run fn with log messages going to the given client
+export function withLogSink<T>(sink: LogSink, fn: () => Promise<T>): Promise<T> {
+  return activeSink.run(sink, fn);
+}
+
+// Outside a tool call there is no client to tell, so messages go to stderr
+export async function logMessage(level: LoggingLevel, logger: string, data: unknown): Promise<void> {
+  const sink = activeSink.getStore();
+  if (!sink) {
+    console.error(`[${logger}] ${level}: ${typeof data === "string" ? data : JSON.stringify(data)}`);
+    return;
+  }
+  try {
+    await sink(level, logger, data);
+  } catch {
+    // The client disconnected; nobody is left to tell
+  }
+}
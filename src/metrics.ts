@@ -0,0 +1,366 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { apiRequest } from "./api.js";
+import { fetchAllActivities, fetchAllItems } from "./pagination.js";
+import { isoWeek } from "./timeReport.js";
+import { Activity, Item, Status } from "./types.js";
+
+// ============================================================================
+// BOARD METRICS - Kanban flow analytics replayed from status-change activities:
+// time in status, cycle and lead time, weekly throughput, WIP and aging items
+// ============================================================================
+
+const DAY_MS = 86_400_000;
+const DEFAULT_RANGE_DAYS = 90;
+const DEFAULT_AGING_LIMIT = 10;
+const ACTIVITY_LIMIT = 20_000;
+const ITEM_LIMIT = 5_000;
+
+export const metricsTools: Tool[] = [
+  {
+    name: "board_metrics",
+    description: "Kanban flow metrics for a board over a date range: average and percentile time spent in each status, cycle time (commitment status to done) and lead time (created to done) percentiles, weekly throughput, current WIP per status and the oldest in-progress items. Status history is replayed from the board's activities, fetched in 3-month windows.",
+    annotations: { readOnlyHint: true },
+    inputSchema: {
+      type: "object",
+      properties: {
+        boardId: { type: "string", description: "Board UUID, name or display ID" },
+        startDate: { type: "string", format: "date-time", description: `Start of the analysed period (ISO 8601 UTC, default ${DEFAULT_RANGE_DAYS} days before endDate)` },
+        endDate: { type: "string", format: "date-time", description: "End of the analysed period (ISO 8601 UTC, default now)" },
+        commitmentStatus: { type: "string", description: "Status UUID or name where cycle time starts (default: the second status on the board)" },
+        agingLimit: { type: "integer", minimum: 0, maximum: 100, description: `Number of aging items to list (default ${DEFAULT_AGING_LIMIT})` },
+      },
+      required: ["boardId"],
+    },
+  },
+];
+
+// Everything the metrics are computed from, so the same fixtures always give
+// the same result
+export interface FlowInput {
+  statuses: Status[];
+  openItems: Item[];
+  completedItems: Item[];
+  activities: Activity[];
+  startDate: string;
+  endDate: string;
+  now: Date;
+  commitmentStatusId?: string;
+  agingLimit?: number;
+}
+
+export interface DurationStats {
+  count: number;
+  averageDays: number | null;
+  p50Days: number | null;
+  p85Days: number | null;
+  p95Days: number | null;
+}
+
+export interface FlowMetrics {
+  startDate: string;
+  endDate: string;
+  asOf: string;
+  commitmentStatus: { id: string; title?: string };
+  completedCount: number;
+  leadTime: DurationStats;
+  cycleTime: DurationStats & { unknown: number };
+  throughput: { averagePerWeek: number; weeks: Array<{ week: string; completed: number }> };
+  timeInStatus: Array<{ statusId: string; title?: string; totalDays: number } & DurationStats>;
+  wip: Array<{ statusId: string; title?: string; count: number }>;
+  wipTotal: number;
+  aging: Array<{
+    id: string;
+    displayId?: string;
+    title?: string;
+    status?: string;
+    ageDays: number;
+    ageFrom: "commitment" | "created";
+    daysInStatus: number | null;
+    overCycleTimeP85: boolean;
+  }>;
+  statusChanges: number;
+  notes: string[];
+}
+
+export interface Transition {
+  at: number;
+  from?: string;
+  to: string;
+}
+
+// A stay in one status. startKnown is false when the item entered the status
+// before the analysed period, so the real start is not visible.
+export interface Segment {
+  statusId: string;
+  start: number;
+  end?: number;
+  startKnown: boolean;
+}
+
+function time(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const t = Date.parse(value);
+  return Number.isNaN(t) ? undefined : t;
+}
+
+function days(ms: number): number {
+  return Math.round((ms / DAY_MS) * 10) / 10;
+}
+
+// Nearest-rank percentile of an ascending list
+export function percentile(sorted: number[], p: number): number | undefined {
+  if (sorted.length === 0) return undefined;
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+export function durationStats(durations: number[]): DurationStats {
+  const sorted = [...durations].sort((a, b) => a - b);
+  const toDays = (ms: number | undefined) => (ms === undefined ? null : days(ms));
+  return {
+    count: sorted.length,
+    averageDays: toDays(sorted.length > 0 ? sorted.reduce((sum, d) => sum + d, 0) / sorted.length : undefined),
+    p50Days: toDays(percentile(sorted, 50)),
+    p85Days: toDays(percentile(sorted, 85)),
+    p95Days: toDays(percentile(sorted, 95)),
+  };
+}
+
+// Activities report a status as its ID, its title, or an object holding either
+function statusRef(value: unknown, statuses: Status[]): string | undefined {
+  if (value && typeof value === "object") {
+    const ref = value as { id?: unknown; title?: unknown };
+    return statusRef(ref.id, statuses) ?? statusRef(ref.title, statuses);
+  }
+  if (typeof value !== "string" || value === "") return undefined;
+  const lower = value.toLowerCase();
+  return (statuses.find((s) => s.id === value) ?? statuses.find((s) => s.title?.toLowerCase() === lower))?.id;
+}
+
+export function statusTransitions(activities: Activity[], statuses: Status[]): Map<string, Transition[]> {
+  const byItem = new Map<string, Transition[]>();
+  for (const activity of activities) {
+    if (![activity.field, activity.type].some((v) => v && /status/i.test(v))) continue;
+    const at = time(activity.date);
+    const to = statusRef(activity.newValue, statuses);
+    if (!activity.itemId || at === undefined || !to) continue;
+    const transitions = byItem.get(activity.itemId) ?? [];
+    transitions.push({ at, from: statusRef(activity.oldValue, statuses), to });
+    byItem.set(activity.itemId, transitions);
+  }
+  for (const transitions of byItem.values()) transitions.sort((a, b) => a.at - b.at);
+  return byItem;
+}
+
+// Status history of one item: the status before its first recorded change,
+// then one segment per transition. The last segment runs until completion
+// or asOf for items still on the board, and is left open otherwise.
+export function replayStatuses(
+  item: Item | undefined,
+  transitions: Transition[],
+  rangeStart: number,
+  asOf: number
+): Segment[] {
+  const created = time(item?.createdOn);
+  const initial = transitions.length > 0 ? transitions[0].from : item?.statusId;
+  const segments: Segment[] = [];
+  if (initial) {
+    const visible = created !== undefined && created >= rangeStart;
+    segments.push({ statusId: initial, start: visible ? created : rangeStart, startKnown: visible });
+  }
+  for (const transition of transitions) {
+    const last = segments[segments.length - 1];
+    if (last) last.end = transition.at;
+    segments.push({ statusId: transition.to, start: transition.at, startKnown: true });
+  }
+  const last = segments[segments.length - 1];
+  if (last && item) {
+    last.end = item.completed ? time(item.completedOn) : asOf;
+  }
+  return segments;
+}
+
+function throughputWeeks(rangeStart: number, rangeEnd: number): string[] {
+  const weeks = new Set<string>();
+  for (let t = rangeStart; t < rangeEnd; t += 7 * DAY_MS) weeks.add(isoWeek(new Date(t)));
+  weeks.add(isoWeek(new Date(rangeEnd)));
+  return [...weeks];
+}
+
+export function computeFlowMetrics(input: FlowInput): FlowMetrics {
+  const asOf = input.now.getTime();
+  const rangeStart = Date.parse(input.startDate);
+  const rangeEnd = Math.min(Date.parse(input.endDate), asOf);
+  if (Number.isNaN(rangeStart) || Number.isNaN(rangeEnd) || rangeStart >= rangeEnd) {
+    throw new Error(`Invalid date range: ${input.startDate} - ${input.endDate}`);
+  }
+
+  const statuses = [...input.statuses].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+  if (statuses.length === 0) throw new Error("The board has no statuses");
+  const order = new Map(statuses.map((s, index) => [s.id, index]));
+  const title = new Map(statuses.map((s) => [s.id, s.title]));
+  const completedStatuses = new Set(statuses.filter((s) => s.isCompleted).map((s) => s.id));
+
+  const commitment = input.commitmentStatusId ?? statuses[Math.min(1, statuses.length - 1)].id;
+  const commitmentIndex = order.get(commitment);
+  if (commitmentIndex === undefined) throw new Error(`Status ${commitment} is not on this board`);
+  const committed = (statusId: string | undefined) =>
+    statusId !== undefined && (order.get(statusId) ?? -1) >= commitmentIndex;
+
+  const items = new Map<string, Item>();
+  for (const item of [...input.completedItems, ...input.openItems]) items.set(item.id, item);
+  const transitions = statusTransitions(input.activities, statuses);
+  const histories = new Map<string, Segment[]>();
+  for (const id of new Set([...items.keys(), ...transitions.keys()])) {
+    histories.set(id, replayStatuses(items.get(id), transitions.get(id) ?? [], rangeStart, asOf));
+  }
+
+  // When an item started counting towards cycle time, if that is visible
+  const commitmentEntry = (segments: Segment[]): number | undefined => {
+    const first = segments.find((segment) => committed(segment.statusId));
+    return first?.startKnown ? first.start : undefined;
+  };
+
+  // Time in status, per item, clipped to the analysed period
+  const perStatus = new Map<string, number[]>();
+  for (const segments of histories.values()) {
+    const totals = new Map<string, number>();
+    for (const segment of segments) {
+      if (segment.end === undefined || completedStatuses.has(segment.statusId) || !order.has(segment.statusId)) continue;
+      const duration = Math.min(segment.end, rangeEnd) - Math.max(segment.start, rangeStart);
+      if (duration > 0) totals.set(segment.statusId, (totals.get(segment.statusId) ?? 0) + duration);
+    }
+    for (const [statusId, total] of totals) perStatus.set(statusId, [...(perStatus.get(statusId) ?? []), total]);
+  }
+
+  // Lead and cycle time of items completed in the period
+  const weeks = throughputWeeks(rangeStart, rangeEnd);
+  const perWeek = new Map(weeks.map((week) => [week, 0]));
+  const leadTimes: number[] = [];
+  const cycleTimes: number[] = [];
+  let completedCount = 0;
+  let cycleUnknown = 0;
+  for (const item of input.completedItems) {
+    const segments = histories.get(item.id) ?? [];
+    const completedAt =
+      time(item.completedOn) ?? segments.find((segment) => completedStatuses.has(segment.statusId))?.start;
+    if (completedAt === undefined || completedAt < rangeStart || completedAt > rangeEnd) continue;
+
+    completedCount++;
+    const week = isoWeek(new Date(completedAt));
+    perWeek.set(week, (perWeek.get(week) ?? 0) + 1);
+    const created = time(item.createdOn);
+    if (created !== undefined && created <= completedAt) leadTimes.push(completedAt - created);
+    const entry = commitmentEntry(segments);
+    if (entry !== undefined && entry <= completedAt) cycleTimes.push(completedAt - entry);
+    else cycleUnknown++;
+  }
+  const cycleTime = durationStats(cycleTimes);
+
+  // Current WIP and the oldest committed items
+  const open = input.openItems.filter((item) => !item.archived && !item.completed);
+  const wipCounts = new Map<string, number>();
+  for (const item of open) {
+    const key = item.statusId ?? "";
+    wipCounts.set(key, (wipCounts.get(key) ?? 0) + 1);
+  }
+  const wip = [...wipCounts.entries()]
+    .map(([statusId, count]) => ({ statusId, title: title.get(statusId), count }))
+    .sort((a, b) => (order.get(a.statusId) ?? statuses.length) - (order.get(b.statusId) ?? statuses.length));
+
+  const cycleP85 = percentile([...cycleTimes].sort((a, b) => a - b), 85);
+  const aging: FlowMetrics["aging"] = [];
+  for (const item of open) {
+    if (!committed(item.statusId) || completedStatuses.has(item.statusId!)) continue;
+    const segments = histories.get(item.id) ?? [];
+    const entry = commitmentEntry(segments);
+    const since = entry ?? time(item.createdOn);
+    if (since === undefined) continue;
+    const current = segments[segments.length - 1];
+    aging.push({
+      id: item.id,
+      displayId: item.displayId,
+      title: item.title,
+      status: title.get(item.statusId!) ?? item.statusId,
+      ageDays: days(asOf - since),
+      ageFrom: entry !== undefined ? "commitment" : "created",
+      daysInStatus: current?.startKnown ? days(asOf - current.start) : null,
+      overCycleTimeP85: cycleP85 !== undefined && asOf - since > cycleP85,
+    });
+  }
+  aging.sort((a, b) => b.ageDays - a.ageDays || a.id.localeCompare(b.id));
+
+  const notes: string[] = [];
+  if (cycleUnknown > 0) {
+    notes.push(`${cycleUnknown} completed item(s) entered the commitment status before startDate and have no cycle time; widen the range to include them.`);
+  }
+  if (completedStatuses.size === 0) notes.push("No status on this board is marked as completed; completion comes from each item's completedOn.");
+
+  return {
+    startDate: new Date(rangeStart).toISOString(),
+    endDate: new Date(rangeEnd).toISOString(),
+    asOf: input.now.toISOString(),
+    commitmentStatus: { id: commitment, title: title.get(commitment) },
+    completedCount,
+    leadTime: durationStats(leadTimes),
+    cycleTime: { ...cycleTime, unknown: cycleUnknown },
+    throughput: {
+      averagePerWeek: Math.round((completedCount / weeks.length) * 100) / 100,
+      weeks: weeks.map((week) => ({ week, completed: perWeek.get(week) ?? 0 })),
+    },
+    timeInStatus: statuses
+      .filter((s) => perStatus.has(s.id))
+      .map((s) => {
+        const durations = perStatus.get(s.id)!;
+        return {
+          statusId: s.id,
+          title: s.title,
+          totalDays: days(durations.reduce((sum, d) => sum + d, 0)),
+          ...durationStats(durations),
+        };
+      }),
+    wip,
+    wipTotal: open.length,
+    aging: aging.slice(0, input.agingLimit ?? DEFAULT_AGING_LIMIT),
+    statusChanges: [...transitions.values()].reduce((sum, list) => sum + list.length, 0),
+    notes,
+  };
+}
+
+export async function handleMetricsTool(name: string, args: Record<string, unknown>): Promise<unknown> {
+  if (name !== "board_metrics") throw new Error(`Unknown tool: ${name}`);
+
+  const boardId = args.boardId as string;
+  const now = new Date();
+  const endDate = (args.endDate as string | undefined) ?? now.toISOString();
+  const startDate =
+    (args.startDate as string | undefined) ?? new Date(Date.parse(endDate) - DEFAULT_RANGE_DAYS * DAY_MS).toISOString();
+
+  const statuses = await apiRequest<Status[]>(`/boards/${boardId}/statuses`);
+  let commitmentStatusId: string | undefined;
+  if (args.commitmentStatus !== undefined) {
+    commitmentStatusId = statusRef(args.commitmentStatus, statuses);
+    if (!commitmentStatusId) throw new Error(`Status "${args.commitmentStatus}" not found on board ${boardId}`);
+  }
+
+  const [openItems, completedItems, activities] = await Promise.all([
+    fetchAllItems({ boardId, completed: false, includeChildItems: true }, ITEM_LIMIT),
+    fetchAllItems({ boardId, completedSince: startDate, includeChildItems: true }, ITEM_LIMIT),
+    fetchAllActivities(boardId, startDate, endDate, ACTIVITY_LIMIT),
+  ]);
+
+  const metrics = computeFlowMetrics({
+    statuses,
+    openItems: openItems.records,
+    completedItems: completedItems.records.filter((item) => item.completed),
+    activities: activities.records,
+    startDate,
+    endDate,
+    now,
+    commitmentStatusId,
+    agingLimit: args.agingLimit as number | undefined,
+  });
+  if (openItems.truncated || completedItems.truncated || activities.truncated) {
+    metrics.notes.push("The board has more items or activities than were fetched; metrics cover a partial data set.");
+  }
+  return { boardId, ...metrics, activityWindows: activities.windows };
+}
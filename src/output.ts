@@ -0,0 +1,366 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { randomBytes } from "crypto";
+import { currentProfile } from "./profiles.js";
+
+// ============================================================================
+// OUTPUT - how tool results are written into the conversation: field
+// selection, compact formats, and truncation of large results with a cursor
+// to read the rest
+// ============================================================================
+
+export type OutputFormat = "json" | "compact" | "table" | "summary";
+
+const OUTPUT_FORMATS: OutputFormat[] = ["json", "compact", "table", "summary"];
+
+function envFormat(name: string, fallback: OutputFormat): OutputFormat {
+  const raw = process.env[name]?.trim().toLowerCase();
+  if (!raw) return fallback;
+  if (!OUTPUT_FORMATS.includes(raw as OutputFormat)) {
+    throw new Error(`${name} must be one of ${OUTPUT_FORMATS.join(", ")}, got "${raw}"`);
+  }
+  return raw as OutputFormat;
+}
+
+function envChars(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative number of characters, got "${raw}"`);
+  }
+  return value;
+}
+
+const DEFAULT_FORMAT = envFormat("TEAMHOOD_OUTPUT_FORMAT", "json");
+// Longest text returned by one call; 0 disables truncation
+const MAX_OUTPUT_CHARS = envChars("TEAMHOOD_MAX_OUTPUT_CHARS", 40_000);
+// Room left for the continuation note appended to a truncated page
+const NOTE_RESERVE = 300;
+const CURSOR_TTL_MS = 15 * 60 * 1000;
+const MAX_STORED_OUTPUTS = 50;
+
+const CONTINUE_TOOL = "continue_output";
+
+export const outputTools: Tool[] = [
+  {
+    name: CONTINUE_TOOL,
+    description: `Read the next part of a result that was too long to return at once (longer than ${MAX_OUTPUT_CHARS} characters). Pass the cursor from the truncated result; the rest keeps the fields and format of the original call. Cursors expire after ${CURSOR_TTL_MS / 60000} minutes.`,
+    annotations: { readOnlyHint: true },
+    inputSchema: {
+      type: "object",
+      properties: {
+        cursor: { type: "string", description: "Cursor from the truncated result" },
+      },
+      required: ["cursor"],
+    },
+  },
+];
+
+// Named outputFormat so it never collides with a tool's own format argument
+// (export_board, get_dependency_graph, ...)
+const FORMAT_PROPERTY = {
+  type: "string",
+  enum: OUTPUT_FORMATS,
+  description: `How to write the result: json (indented), compact (one-line JSON), table (Markdown table) or summary (YAML-like, empty values left out). Default ${DEFAULT_FORMAT}`,
+};
+
+const FIELDS_PROPERTY = {
+  type: "array",
+  items: { type: "string" },
+  description: "Only return these fields, e.g. [\"id\", \"title\", \"statusId\"]; dotted paths select nested fields. For lists they apply to each record and the paging fields are kept",
+};
+
+// Add the optional fields and outputFormat arguments to each tool's input schema
+export function withOutputArguments(tools: Tool[]): Tool[] {
+  return tools.map((tool) => {
+    if (tool.name === CONTINUE_TOOL) return tool;
+    const properties = tool.inputSchema.properties ?? {};
+    return {
+      ...tool,
+      inputSchema: {
+        ...tool.inputSchema,
+        properties: {
+          ...properties,
+          fields: FIELDS_PROPERTY,
+          outputFormat: FORMAT_PROPERTY,
+        },
+      },
+    };
+  });
+}
+
+export interface OutputOptions {
+  format: OutputFormat;
+  fields?: string[];
+}
+
+// Split the output arguments from the ones the tool handles itself
+export function takeOutputOptions(args: Record<string, unknown>): { options: OutputOptions; toolArgs: Record<string, unknown> } {
+  const { fields, outputFormat, ...toolArgs } = args;
+  const format = (outputFormat as OutputFormat | undefined) ?? DEFAULT_FORMAT;
+  const selected = Array.isArray(fields) && fields.length > 0 ? (fields as string[]) : undefined;
+  return { options: { format, fields: selected }, toolArgs };
+}
+
+// ----------------------------------------------------------------------------
+// Field selection
+// ----------------------------------------------------------------------------
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+// Key of the record list in a paged result such as { items, totalCount }:
+// the longest array of objects. A result with an id is a record itself, and
+// its arrays (customFields, ...) are part of it.
+function recordsKey(value: Record<string, unknown>): string | undefined {
+  if ("id" in value) return undefined;
+  let best: string | undefined;
+  for (const [key, entry] of Object.entries(value)) {
+    if (!Array.isArray(entry) || !entry.every(isRecord)) continue;
+    if (best === undefined || entry.length > (value[best] as unknown[]).length) best = key;
+  }
+  return best;
+}
+
+// Keep the given dotted paths; arrays on the way are mapped element by element
+function pick(value: unknown, paths: string[]): unknown {
+  if (Array.isArray(value)) return value.map((element) => pick(element, paths));
+  if (!isRecord(value)) return value;
+  const byHead = new Map<string, string[]>();
+  for (const path of paths) {
+    const [head, ...rest] = path.split(".");
+    const tails = byHead.get(head) ?? [];
+    tails.push(rest.join("."));
+    byHead.set(head, tails);
+  }
+  const picked: Record<string, unknown> = {};
+  for (const [head, tails] of byHead) {
+    if (!(head in value)) continue;
+    picked[head] = tails.includes("") ? value[head] : pick(value[head], tails);
+  }
+  return picked;
+}
+
+// Fields naming a top-level key select from the result itself; the others
+// apply to each record of a paged result, whose other fields are kept when
+// none of them were named
+function selectFields(value: unknown, fields: string[]): unknown {
+  if (!isRecord(value)) return pick(value, fields);
+  const key = recordsKey(value);
+  const top = fields.filter((field) => field.split(".")[0] in value);
+  const inner = fields.filter((field) => !top.includes(field));
+  if (!key || inner.length === 0) return pick(value, top);
+  const selected = top.length > 0 ? (pick(value, top) as Record<string, unknown>) : { ...value };
+  selected[key] = pick(value[key], inner);
+  return selected;
+}
+
+// ----------------------------------------------------------------------------
+// Formats
+// ----------------------------------------------------------------------------
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+function scalarText(value: unknown): string {
+  return typeof value === "string" ? value.replace(/\s+/g, " ").trim() : String(value);
+}
+
+// Nested objects become dotted columns; lists of values are joined
+function flatten(value: Record<string, unknown>, prefix = "", into: Record<string, unknown> = {}): Record<string, unknown> {
+  for (const [key, entry] of Object.entries(value)) {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (isRecord(entry)) flatten(entry, name, into);
+    else if (Array.isArray(entry)) into[name] = entry.some((e) => e !== null && typeof e === "object") ? JSON.stringify(entry) : entry.join(", ");
+    else into[name] = entry;
+  }
+  return into;
+}
+
+function tableCell(value: unknown): string {
+  return isEmpty(value) ? "" : scalarText(value).replace(/\|/g, "\\|");
+}
+
+function markdownTable(rows: unknown[]): string {
+  if (rows.length === 0) return "(no records)";
+  if (!rows.every(isRecord)) return rows.map((row) => `- ${tableCell(row)}`).join("\n");
+  const flat = rows.map((row) => flatten(row));
+  // Columns in order of first appearance, without those empty in every row
+  const columns = [...new Set(flat.flatMap((row) => Object.keys(row)))].filter((column) =>
+    flat.some((row) => !isEmpty(row[column]))
+  );
+  return [
+    `| ${columns.join(" | ")} |`,
+    `| ${columns.map(() => "---").join(" | ")} |`,
+    ...flat.map((row) => `| ${columns.map((column) => tableCell(row[column])).join(" | ")} |`),
+  ].join("\n");
+}
+
+function renderTable(value: unknown): string {
+  if (Array.isArray(value)) return markdownTable(value);
+  if (!isRecord(value)) return scalarText(value);
+  const key = recordsKey(value);
+  if (!key) {
+    const fields = Object.entries(flatten(value)).filter(([, entry]) => !isEmpty(entry));
+    return ["| Field | Value |", "| --- | --- |", ...fields.map(([name, entry]) => `| ${name} | ${tableCell(entry)} |`)].join("\n");
+  }
+  const { [key]: records, ...envelope } = value;
+  const header = Object.entries(flatten(envelope))
+    .filter(([, entry]) => !isEmpty(entry))
+    .map(([name, entry]) => `${name}: ${scalarText(entry)}`);
+  return [...header, ...(header.length > 0 ? [""] : []), markdownTable(records as unknown[])].join("\n");
+}
+
+function summaryLines(value: unknown, indent: string): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((element) => {
+      const lines = summaryLines(element, `${indent}  `);
+      if (lines.length === 0) return [`${indent}-`];
+      return [`${indent}- ${lines[0].slice(indent.length + 2)}`, ...lines.slice(1)];
+    });
+  }
+  if (!isRecord(value)) return isEmpty(value) ? [] : [`${indent}${scalarText(value)}`];
+  const lines: string[] = [];
+  for (const [key, entry] of Object.entries(value)) {
+    if (isEmpty(entry)) continue;
+    if (Array.isArray(entry) && !entry.some((e) => e !== null && typeof e === "object")) {
+      lines.push(`${indent}${key}: ${entry.map(scalarText).join(", ")}`);
+    } else if (Array.isArray(entry) || isRecord(entry)) {
+      const nested = summaryLines(entry, `${indent}  `);
+      if (nested.length > 0) lines.push(`${indent}${key}:`, ...nested);
+    } else {
+      lines.push(`${indent}${key}: ${scalarText(entry)}`);
+    }
+  }
+  return lines;
+}
+
+function render(value: unknown, format: OutputFormat): string {
+  // Text exports (CSV, Markdown) are returned as they are
+  if (typeof value === "string") return value;
+  switch (format) {
+    case "compact":
+      return JSON.stringify(value);
+    case "table":
+      return renderTable(value);
+    case "summary":
+      return summaryLines(value, "").join("\n");
+    default:
+      return JSON.stringify(value, null, 2);
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Truncation
+// ----------------------------------------------------------------------------
+
+// Results too long for one call are kept for a while and read page by page:
+// lists a whole number of records at a time, anything else as plain text
+type StoredOutput = { profile: string; format: OutputFormat; expiresAt: number } & (
+  | { kind: "records"; value: unknown; key?: string; records: unknown[] }
+  | { kind: "text"; text: string }
+);
+
+const storedOutputs = new Map<string, StoredOutput>();
+
+function storeOutput(output: StoredOutput): string {
+  const now = Date.now();
+  for (const [id, stored] of storedOutputs) {
+    if (stored.expiresAt <= now) storedOutputs.delete(id);
+  }
+  // Oldest first, as the map keeps insertion order
+  while (storedOutputs.size >= MAX_STORED_OUTPUTS) storedOutputs.delete(storedOutputs.keys().next().value!);
+  const id = randomBytes(9).toString("base64url");
+  storedOutputs.set(id, output);
+  return id;
+}
+
+function continuationNote(cursor: string, shown: string): string {
+  return `[Output truncated: ${shown}. Call ${CONTINUE_TOOL} with cursor "${cursor}" for the rest.]`;
+}
+
+function recordsPage(id: string, stored: StoredOutput & { kind: "records" }, offset: number): string {
+  const { records, key, format } = stored;
+  const pageOf = (count: number): { text: string; done: boolean } => {
+    const end = offset + count;
+    const slice = records.slice(offset, end);
+    const done = end >= records.length;
+    const shown = `records ${offset + 1}-${end} of ${records.length}`;
+    const cursor = `${id}:${end}`;
+    const json = format === "json" || format === "compact";
+    const continuation = { shown, cursor, next: `call ${CONTINUE_TOOL} with this cursor` };
+    let value: unknown = key ? { ...(stored.value as Record<string, unknown>), [key]: slice } : slice;
+    if (!done && json) value = key ? { ...(value as Record<string, unknown>), continuation } : { records: slice, continuation };
+    const text = render(value, format);
+    return { text: done || json ? text : `${text}\n\n${continuationNote(cursor, shown)}`, done };
+  };
+
+  // Largest number of records that fits, at least one
+  const limit = MAX_OUTPUT_CHARS - NOTE_RESERVE;
+  let low = 1;
+  let high = records.length - offset;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (pageOf(middle).text.length <= limit) low = middle;
+    else high = middle - 1;
+  }
+  const { text } = pageOf(low);
+  if (text.length <= limit) return text;
+  // This record alone is larger than a page: its text is read page by page,
+  // and the last of them carries the cursor to the next record
+  const { profile, expiresAt } = stored;
+  return textPage(storeOutput({ profile, format, expiresAt, kind: "text", text }), text, 0);
+}
+
+function textPage(id: string, text: string, offset: number): string {
+  let end = offset + MAX_OUTPUT_CHARS - NOTE_RESERVE;
+  if (end >= text.length) return text.slice(offset);
+  // Prefer to stop at a line break in the second half of the page
+  const lineBreak = text.lastIndexOf("\n", end - 1);
+  if (lineBreak > offset + (end - offset) / 2) end = lineBreak + 1;
+  const shown = `characters ${offset + 1}-${end} of ${text.length}`;
+  return `${text.slice(offset, end)}\n\n${continuationNote(`${id}:${end}`, shown)}`;
+}
+
+function page(id: string, stored: StoredOutput, offset: number): string {
+  return stored.kind === "records" ? recordsPage(id, stored, offset) : textPage(id, stored.text, offset);
+}
+
+// Text for a tool result: selected fields in the requested format, cut to
+// MAX_OUTPUT_CHARS with a continuation cursor when longer
+export function renderOutput(result: unknown, options: OutputOptions): string {
+  const value = options.fields ? selectFields(result, options.fields) : result;
+  const text = render(value, options.format);
+  if (MAX_OUTPUT_CHARS === 0 || text.length <= MAX_OUTPUT_CHARS) return text;
+
+  const base = { profile: currentProfile().name, format: options.format, expiresAt: Date.now() + CURSOR_TTL_MS };
+  const key = isRecord(value) ? recordsKey(value) : undefined;
+  const records = Array.isArray(value) ? value : key ? ((value as Record<string, unknown>)[key] as unknown[]) : undefined;
+  if (records && records.length > 1) {
+    const stored: StoredOutput = { ...base, kind: "records", value, key, records };
+    const id = storeOutput(stored);
+    // A single record too large for a page is returned as text instead
+    if (render(records[0], options.format).length <= MAX_OUTPUT_CHARS - 2 * NOTE_RESERVE) return page(id, stored, 0);
+    storedOutputs.delete(id);
+  }
+  const stored: StoredOutput = { ...base, kind: "text", text };
+  return page(storeOutput(stored), stored, 0);
+}
+
+export function continueOutput(cursor: string): string {
+  const [id, rawOffset] = cursor.split(":");
+  const stored = storedOutputs.get(id);
+  const offset = Number(rawOffset);
+  // A cursor only works for the profile that produced the result
+  if (!stored || stored.expiresAt <= Date.now() || stored.profile !== currentProfile().name) {
+    if (stored && stored.expiresAt <= Date.now()) storedOutputs.delete(id);
+    throw new Error(`Cursor "${cursor}" is unknown or expired. Repeat the original call to get the result again.`);
+  }
+  const length = stored.kind === "records" ? stored.records.length : stored.text.length;
+  if (!Number.isInteger(offset) || offset <= 0 || offset >= length) {
+    throw new Error(`Cursor "${cursor}" has an invalid position`);
+  }
+  return page(id, stored, offset);
+}
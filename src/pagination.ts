@@ -0,0 +1,285 @@
+import { apiRequest } from "./api.js";
+import { Activity, Item, TimeLog } from "./types.js";
+
+// ============================================================================
+// PAGINATION - walk every page of the list endpoints and merge the results
+// ============================================================================
+
+// Upper bound when fetchAll is requested without an explicit maxRecords
+export const DEFAULT_MAX_RECORDS = 2000;
+
+const ITEMS_PAGE_SIZE = 100; // API maximum for /items
+const ACTIVITIES_PAGE_SIZE = 1000; // API maximum for item-activities
+const LOGS_PAGE_SIZE = 1000; // API maximum for /logs
+const ACTIVITY_WINDOW_MONTHS = 3; // API rejects longer activity ranges
+const TIMELOG_WINDOW_MONTHS = 1; // /timelogs is not paged, so keep each response small
+
+export interface PagedResult<T> {
+  records: T[];
+  totalCount: number;
+  truncated: boolean;
+}
+
+// Endpoints return either a bare array or an envelope around one
+function extractRecords(response: unknown): unknown[] {
+  if (Array.isArray(response)) return response;
+  if (response && typeof response === "object") {
+    for (const value of Object.values(response)) {
+      if (Array.isArray(value)) return value;
+    }
+  }
+  return [];
+}
+
+function extractTotal(response: unknown): number | undefined {
+  if (!response || typeof response !== "object" || Array.isArray(response)) return undefined;
+  const envelope = response as Record<string, unknown>;
+  for (const key of ["totalCount", "total", "count"]) {
+    if (typeof envelope[key] === "number") return envelope[key] as number;
+  }
+  return undefined;
+}
+
+// Whether a tool call asked for the auto-paginating mode
+export function wantsAllPages(args: Record<string, unknown>): boolean {
+  return args.fetchAll === true || args.maxRecords !== undefined;
+}
+
+export function maxRecordsFrom(args: Record<string, unknown>): number {
+  const max = args.maxRecords as number | undefined;
+  return max !== undefined && max > 0 ? Math.floor(max) : DEFAULT_MAX_RECORDS;
+}
+
+// Request pages until a short page comes back or maxRecords is reached. The
+// last request asks for one record more than needed, so a result of exactly
+// maxRecords is not reported as truncated.
+export async function collectPages<T>(
+  fetchPage: (offset: number, size: number) => Promise<unknown>,
+  pageSize: number,
+  maxRecords: number,
+  startOffset = 0
+): Promise<PagedResult<T>> {
+  const records: T[] = [];
+  let offset = startOffset;
+  let reportedTotal: number | undefined;
+  let truncated = false;
+
+  for (;;) {
+    const remaining = maxRecords - records.length;
+    const size = Math.min(pageSize, remaining + 1);
+    const response = await fetchPage(offset, size);
+    const page = extractRecords(response) as T[];
+    reportedTotal ??= extractTotal(response);
+    if (page.length > remaining) {
+      records.push(...page.slice(0, remaining));
+      truncated = true;
+      break;
+    }
+    records.push(...page);
+    offset += page.length;
+
+    if (page.length < size) break;
+    // With a reported total there is no need to probe for one more record
+    if (records.length >= maxRecords && reportedTotal !== undefined) {
+      truncated = reportedTotal > startOffset + records.length;
+      break;
+    }
+  }
+
+  return {
+    records,
+    totalCount: reportedTotal ?? startOffset + records.length,
+    truncated,
+  };
+}
+
+// ----------------------------------------------------------------------------
+// Items
+// ----------------------------------------------------------------------------
+
+// Filters accepted by list_items, shared with the tools that select items
+// the same way (bulk operations, exports)
+export const itemFilterProperties: Record<string, object> = {
+  workspaceId: { type: "string", description: "Filter by workspace UUID, name or display ID" },
+  boardId: { type: "string", description: "Filter by board UUID, name or display ID" },
+  statusId: { type: "string", description: "Filter by status UUID or name" },
+  rowId: { type: "string", description: "Filter by row UUID or name" },
+  assignedUserId: { type: "string", description: "Filter by assigned user UUID, name or email" },
+  ownerId: { type: "string", description: "Filter by owner user UUID, name or email" },
+  parentId: { type: "string", description: "Filter by parent item UUID" },
+  completed: { type: "boolean", description: "Filter by completion status" },
+  tags: { type: "array", items: { type: "string" }, description: "Filter by tags" },
+  customFields: { type: "array", items: { type: "string" }, description: "Filter by custom fields, e.g. ['\"Project\"=\"Cars\"']" },
+  createdSince: { type: "string", format: "date-time", description: "Filter items created since (ISO 8601)" },
+  modifiedSince: { type: "string", format: "date-time", description: "Filter items modified since (ISO 8601)" },
+  completedSince: { type: "string", format: "date-time", description: "Filter items completed since (ISO 8601)" },
+  includeChildItems: { type: "boolean", description: "Include child items in results" },
+};
+
+export function buildItemsQuery(args: Record<string, unknown>): URLSearchParams {
+  const params = new URLSearchParams();
+  if (args.workspaceId) params.append("WorkspaceId", args.workspaceId as string);
+  if (args.boardId) params.append("BoardId", args.boardId as string);
+  if (args.statusId) params.append("StatusId", args.statusId as string);
+  if (args.rowId) params.append("RowId", args.rowId as string);
+  if (args.assignedUserId) params.append("AssignedUserId", args.assignedUserId as string);
+  if (args.ownerId) params.append("OwnerId", args.ownerId as string);
+  if (args.parentId) params.append("ParentId", args.parentId as string);
+  if (args.completed !== undefined) params.append("Completed", String(args.completed));
+  if (args.tags) {
+    for (const tag of args.tags as string[]) {
+      params.append("Tags", tag);
+    }
+  }
+  if (args.customFields) {
+    for (const cf of args.customFields as string[]) {
+      params.append("CustomFields", cf);
+    }
+  }
+  if (args.createdSince) params.append("CreatedSince", args.createdSince as string);
+  if (args.modifiedSince) params.append("ModifiedSince", args.modifiedSince as string);
+  if (args.completedSince) params.append("CompletedSince", args.completedSince as string);
+  if (args.includeChildItems !== undefined) params.append("IncludeChildItems", String(args.includeChildItems));
+  return params;
+}
+
+export async function fetchAllItems<T = Item>(
+  args: Record<string, unknown>,
+  maxRecords = DEFAULT_MAX_RECORDS
+): Promise<PagedResult<T>> {
+  return collectPages<T>(
+    (skip, take) => {
+      const params = buildItemsQuery(args);
+      params.append("Skip", String(skip));
+      params.append("Take", String(take));
+      return apiRequest(`/items?${params.toString()}`);
+    },
+    ITEMS_PAGE_SIZE,
+    maxRecords,
+    (args.skip as number | undefined) ?? 0
+  );
+}
+
+// ----------------------------------------------------------------------------
+// Activities
+// ----------------------------------------------------------------------------
+
+// Split [start, end] into consecutive windows no longer than the API allows
+export function splitDateRange(
+  startDate: string,
+  endDate: string,
+  months = ACTIVITY_WINDOW_MONTHS
+): Array<{ startDate: string; endDate: string }> {
+  const start = new Date(startDate);
+  const end = new Date(endDate);
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+    throw new Error(`Invalid date range: ${startDate} - ${endDate}`);
+  }
+  if (start >= end) return [{ startDate: start.toISOString(), endDate: end.toISOString() }];
+
+  const windows: Array<{ startDate: string; endDate: string }> = [];
+  let cursor = start;
+  while (cursor < end) {
+    const next = new Date(cursor);
+    next.setUTCMonth(next.getUTCMonth() + months);
+    const windowEnd = next < end ? next : end;
+    windows.push({ startDate: cursor.toISOString(), endDate: windowEnd.toISOString() });
+    cursor = windowEnd;
+  }
+  return windows;
+}
+
+// The activity endpoint reports no total across windows, so only the number
+// of distinct activities returned is known
+export async function fetchAllActivities<T = Activity>(
+  boardId: string,
+  startDate: string,
+  endDate: string,
+  maxRecords = DEFAULT_MAX_RECORDS
+): Promise<{ records: T[]; returnedCount: number; truncated: boolean; windows: number }> {
+  const windows = splitDateRange(startDate, endDate);
+  const records: T[] = [];
+  const seen = new Set<unknown>();
+  let truncated = false;
+
+  for (const window of windows) {
+    // Once full, a window is still probed for one record to tell whether
+    // anything was left out
+    const remaining = maxRecords - records.length;
+    const page = await collectPages<T>(
+      (offset, limit) =>
+        apiRequest(`/boards/${boardId}/item-activities`, "POST", {
+          startDate: window.startDate,
+          endDate: window.endDate,
+          offset,
+          limit,
+        }),
+      ACTIVITIES_PAGE_SIZE,
+      remaining
+    );
+    // Activities stamped exactly on a window boundary can be returned twice
+    for (const record of page.records) {
+      const id = (record as { id?: unknown })?.id;
+      if (id !== undefined) {
+        if (seen.has(id)) continue;
+        seen.add(id);
+      }
+      records.push(record);
+    }
+    if (page.truncated) {
+      truncated = true;
+      break;
+    }
+  }
+
+  return { records, returnedCount: records.length, truncated, windows: windows.length };
+}
+
+// ----------------------------------------------------------------------------
+// System logs
+// ----------------------------------------------------------------------------
+export async function fetchAllSystemLogs<T = Record<string, unknown>>(
+  fromDate: string,
+  toDate: string,
+  maxRecords = DEFAULT_MAX_RECORDS,
+  startSkip = 0
+): Promise<PagedResult<T>> {
+  return collectPages<T>(
+    (skip, take) => {
+      const params = new URLSearchParams({ fromDate, toDate, skip: String(skip), take: String(take) });
+      return apiRequest(`/logs?${params.toString()}`);
+    },
+    LOGS_PAGE_SIZE,
+    maxRecords,
+    startSkip
+  );
+}
+
+// ----------------------------------------------------------------------------
+// Time logs
+// ----------------------------------------------------------------------------
+
+// /timelogs has no paging: long ranges are requested one window at a time
+export async function fetchAllTimeLogs(
+  filter: { workspaceId: string; boardIds?: string[]; rowIds?: string[]; userIds?: string[]; tags?: string[] },
+  startDate: string,
+  endDate: string
+): Promise<{ records: TimeLog[]; windows: number }> {
+  const windows = splitDateRange(startDate, endDate, TIMELOG_WINDOW_MONTHS);
+  const records: TimeLog[] = [];
+  const seen = new Set<string>();
+
+  for (const window of windows) {
+    const response = await apiRequest("/timelogs", "POST", { ...filter, ...window });
+    for (const record of extractRecords(response) as TimeLog[]) {
+      // Logs dated exactly on a window boundary can be returned twice
+      if (record.id) {
+        if (seen.has(record.id)) continue;
+        seen.add(record.id);
+      }
+      records.push(record);
+    }
+  }
+
+  return { records, windows: windows.length };
+}
@@ -0,0 +1,168 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { AsyncLocalStorage } from "async_hooks";
+import { readFileSync } from "fs";
+import { loadSecrets } from "./secrets.js";
+
+// ============================================================================
+// CONNECTION PROFILES - named tenant credentials (base URL + API key). Every
+// tool call runs inside one profile; the default is used when none is given.
+// ============================================================================
+
+export interface Profile {
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+}
+
+const DEFAULT_PROFILE_NAME = "default";
+
+function tenantUrl(tenant: string): string {
+  return `https://api-${tenant}.teamhood.com/api/v1`;
+}
+
+interface PartialProfile {
+  baseUrl?: string;
+  apiKey?: string;
+  tenant?: string;
+}
+
+// Profiles come from three places, later ones overriding earlier ones:
+//   1. TEAMHOOD_API_KEY / TEAMHOOD_BASE_URL (or TEAMHOOD_TENANT) -> "default"
+//   2. TEAMHOOD_PROFILES_FILE, a JSON file { "<name>": { baseUrl | tenant, apiKey } }
+//   3. TEAMHOOD_PROFILE_<NAME>_API_KEY / _BASE_URL / _TENANT
+function collectProfiles(values: Record<string, string>): Map<string, PartialProfile> {
+  const partial = new Map<string, PartialProfile>();
+  const merge = (name: string, patch: PartialProfile) => {
+    const defined = Object.fromEntries(Object.entries(patch).filter(([, v]) => v));
+    partial.set(name, { ...partial.get(name), ...defined });
+  };
+
+  if (values.TEAMHOOD_API_KEY || values.TEAMHOOD_BASE_URL || values.TEAMHOOD_TENANT) {
+    merge(DEFAULT_PROFILE_NAME, {
+      apiKey: values.TEAMHOOD_API_KEY,
+      baseUrl: values.TEAMHOOD_BASE_URL,
+      tenant: values.TEAMHOOD_TENANT,
+    });
+  }
+
+  if (values.TEAMHOOD_PROFILES_FILE) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(values.TEAMHOOD_PROFILES_FILE, "utf-8"));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Cannot read TEAMHOOD_PROFILES_FILE ${values.TEAMHOOD_PROFILES_FILE}: ${reason}`);
+    }
+    for (const [name, profile] of Object.entries((parsed ?? {}) as Record<string, PartialProfile>)) {
+      merge(name.toLowerCase(), profile ?? {});
+    }
+  }
+
+  for (const [key, value] of Object.entries(values)) {
+    const match = key.match(/^TEAMHOOD_PROFILE_(\w+?)_(API_KEY|BASE_URL|TENANT)$/);
+    if (!match) continue;
+    const field = { API_KEY: "apiKey", BASE_URL: "baseUrl", TENANT: "tenant" }[match[2]] as keyof PartialProfile;
+    merge(match[1].toLowerCase(), { [field]: value });
+  }
+
+  return partial;
+}
+
+interface ProfileSet {
+  profiles: Map<string, Profile>;
+  defaultName?: string;
+  problems: string[];
+}
+
+function buildProfiles(values: Record<string, string>, secretProblems: string[]): ProfileSet {
+  const profiles = new Map<string, Profile>();
+  const problems = [...secretProblems];
+
+  let collected = new Map<string, PartialProfile>();
+  try {
+    collected = collectProfiles(values);
+  } catch (error) {
+    problems.push(error instanceof Error ? error.message : String(error));
+  }
+
+  for (const [name, partial] of collected) {
+    const baseUrl = partial.baseUrl ?? (partial.tenant ? tenantUrl(partial.tenant) : undefined);
+    if (!partial.apiKey) problems.push(`profile "${name}" has no API key`);
+    if (!baseUrl) problems.push(`profile "${name}" has no base URL or tenant`);
+    if (partial.apiKey && baseUrl) {
+      profiles.set(name, { name, baseUrl: baseUrl.replace(/\/+$/, ""), apiKey: partial.apiKey });
+    }
+  }
+
+  const requested = values.TEAMHOOD_DEFAULT_PROFILE?.toLowerCase();
+  const defaultName = requested ?? (profiles.has(DEFAULT_PROFILE_NAME) ? DEFAULT_PROFILE_NAME : [...profiles.keys()][0]);
+  if (requested && !profiles.has(requested)) {
+    problems.push(`TEAMHOOD_DEFAULT_PROFILE "${requested}" is not a configured profile`);
+  }
+
+  return { profiles, defaultName, problems };
+}
+
+let loaded: ProfileSet = { profiles: new Map(), problems: ["profiles have not been loaded"] };
+
+// Read credentials from all secrets providers. Call once at startup; fails
+// rather than sending requests with an empty Authorization header.
+export async function loadProfiles(): Promise<void> {
+  const report = await loadSecrets();
+  loaded = buildProfiles(report.values, report.problems);
+  if (loaded.profiles.size === 0 && loaded.problems.length === 0) {
+    throw new Error(
+      "No Teamhood credentials configured. Set TEAMHOOD_API_KEY and TEAMHOOD_BASE_URL (or TEAMHOOD_TENANT), " +
+        "or define profiles with TEAMHOOD_PROFILE_<NAME>_API_KEY / TEAMHOOD_PROFILES_FILE. " +
+        "Run `teamhood-mcp secrets doctor` to see which sources were read."
+    );
+  }
+  if (loaded.problems.length > 0) {
+    throw new Error(
+      `Invalid Teamhood configuration: ${loaded.problems.join("; ")} (run \`teamhood-mcp secrets doctor\` for details)`
+    );
+  }
+}
+
+const activeProfile = new AsyncLocalStorage<Profile>();
+
+export function getProfile(name?: string): Profile {
+  const key = (name ?? loaded.defaultName)?.toLowerCase();
+  const profile = key ? loaded.profiles.get(key) : undefined;
+  if (!profile) {
+    const known = [...loaded.profiles.keys()].join(", ") || "none";
+    throw new Error(name ? `Unknown profile "${name}" (configured: ${known})` : "No Teamhood profile configured");
+  }
+  return profile;
+}
+
+// Run fn with the given profile active for every API request it makes
+export function withProfile<T>(name: string | undefined, fn: () => Promise<T>): Promise<T> {
+  return activeProfile.run(getProfile(name), fn);
+}
+
+export function currentProfile(): Profile {
+  return activeProfile.getStore() ?? getProfile();
+}
+
+export function listProfiles(): Array<{ name: string; baseUrl: string; default: boolean }> {
+  return [...loaded.profiles.values()].map((profile) => ({
+    name: profile.name,
+    baseUrl: profile.baseUrl,
+    default: profile.name === loaded.defaultName,
+  }));
+}
+
+// Add the optional profile argument to each tool's input schema
+export function withProfileArgument(tools: Tool[]): Tool[] {
+  return tools.map((tool) => ({
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        profile: { type: "string", description: "Connection profile to use (see list_profiles; default profile if omitted)" },
+      },
+    },
+  }));
+}
@@ -0,0 +1,244 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  Prompt,
+} from "@modelcontextprotocol/sdk/types.js";
+import { ValidationError } from "./errors.js";
+import { withProfile } from "./profiles.js";
+import { resolveArgs } from "./resolver.js";
+import { Activity, Item, Status } from "./types.js";
+
+// ============================================================================
+// PROMPTS - parameterised project-management workflows (standup, sprint
+// review, triage, time summary), pre-filled with data from the tool handlers
+// ============================================================================
+
+export type ToolCaller = (name: string, args: Record<string, unknown>) => Promise<unknown>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_ITEMS = 200;
+const MAX_ACTIVITIES = 500;
+const SPRINT_DAYS = 14;
+
+interface PromptDefinition extends Prompt {
+  build(args: Record<string, string>, callTool: ToolCaller): Promise<string>;
+}
+
+const profileArgument = {
+  name: "profile",
+  description: "Connection profile to use (see list_profiles; default profile if omitted)",
+};
+
+// Keep prompt context small: the fields a reader needs to talk about an item
+function itemSummary(item: Item): Record<string, unknown> {
+  return {
+    id: item.id,
+    displayId: item.displayId,
+    title: item.title,
+    statusId: item.statusId,
+    rowId: item.rowId,
+    assignedUserId: item.assignedUserId,
+    dueDate: item.dueDate,
+    completed: item.completed || undefined,
+    completedOn: item.completedOn,
+    progress: item.progress,
+    tags: item.tags?.length ? item.tags : undefined,
+  };
+}
+
+function section(title: string, data: unknown): string {
+  return `## ${title}\n\n\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``;
+}
+
+function truncationNote(result: { truncated?: boolean; totalCount?: number }, shown: number): string {
+  return result.truncated ? ` (first ${shown} of ${result.totalCount ?? "more"})` : "";
+}
+
+async function listItems(callTool: ToolCaller, args: Record<string, unknown>) {
+  const result = (await callTool("list_items", {
+    ...args,
+    fetchAll: true,
+    maxRecords: MAX_ITEMS,
+  })) as { items: Item[]; totalCount?: number; truncated?: boolean };
+  return { ...result, items: result.items.filter((item) => !item.archived) };
+}
+
+async function listActivities(callTool: ToolCaller, boardId: string, startDate: string, endDate: string) {
+  return (await callTool("list_activities", {
+    boardId,
+    startDate,
+    endDate,
+    fetchAll: true,
+    maxRecords: MAX_ACTIVITIES,
+  })) as { activities: Activity[]; truncated?: boolean };
+}
+
+async function listStatuses(callTool: ToolCaller, boardId: string): Promise<Status[]> {
+  const statuses = (await callTool("list_statuses", { boardId })) as Status[];
+  return [...statuses].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+}
+
+function isoDaysAgo(days: number, from = Date.now()): string {
+  return new Date(from - days * DAY_MS).toISOString();
+}
+
+const prompts: PromptDefinition[] = [
+  {
+    name: "daily_standup",
+    description: "Prepare a daily standup for a board: what changed since yesterday, what is in progress and what is blocked or overdue",
+    arguments: [
+      { name: "boardId", description: "Board UUID, name or display ID", required: true },
+      { name: "userId", description: "Limit to one user's items and changes (UUID, name or email); whole team if omitted" },
+      { name: "since", description: "Start of the reporting window (ISO 8601; default 24 hours ago)" },
+      profileArgument,
+    ],
+    async build(args, callTool) {
+      const now = new Date().toISOString();
+      const since = args.since ?? isoDaysAgo(1);
+      const [statuses, open, log] = await Promise.all([
+        listStatuses(callTool, args.boardId),
+        listItems(callTool, { boardId: args.boardId, assignedUserId: args.userId, completed: false }),
+        listActivities(callTool, args.boardId, since, now),
+      ]);
+      const activities = args.userId ? log.activities.filter((a) => a.userId === args.userId) : log.activities;
+
+      return [
+        `Prepare a daily standup for board ${args.boardId}${args.userId ? `, focused on user ${args.userId}` : ""}.`,
+        `Using the data below, summarise per person: what was done since ${since}, what is in progress now, and what is blocked or overdue (due date before ${now.slice(0, 10)}). ` +
+          "Refer to items by display ID and title, keep it short enough to read aloud, and end with anything that needs a decision.",
+        section("Statuses", statuses.map((s) => ({ id: s.id, title: s.title, isCompleted: s.isCompleted }))),
+        section(`Open items${truncationNote(open, open.items.length)}`, open.items.map(itemSummary)),
+        section(`Changes since ${since}${truncationNote(log, log.activities.length)}`, activities),
+      ].join("\n\n");
+    },
+  },
+  {
+    name: "sprint_review",
+    description: "Prepare a sprint review for a board: items completed since a date, work carried over and notable changes",
+    arguments: [
+      { name: "boardId", description: "Board UUID, name or display ID", required: true },
+      { name: "since", description: `Sprint start (ISO 8601; default ${SPRINT_DAYS} days ago)` },
+      profileArgument,
+    ],
+    async build(args, callTool) {
+      const now = new Date().toISOString();
+      const since = args.since ?? isoDaysAgo(SPRINT_DAYS);
+      const [statuses, done, open, log] = await Promise.all([
+        listStatuses(callTool, args.boardId),
+        listItems(callTool, { boardId: args.boardId, completed: true, completedSince: since }),
+        listItems(callTool, { boardId: args.boardId, completed: false }),
+        listActivities(callTool, args.boardId, since, now),
+      ]);
+
+      return [
+        `Prepare a sprint review for board ${args.boardId} covering ${since} to ${now}.`,
+        "Using the data below, report: what was delivered (grouped by theme or row), what is carried over and why, " +
+          "scope added during the sprint (items created after the start), and risks for the next sprint such as overdue or long-running items. " +
+          "Close with two or three suggested talking points for the retrospective.",
+        section("Statuses", statuses.map((s) => ({ id: s.id, title: s.title, isCompleted: s.isCompleted }))),
+        section(`Completed since ${since}${truncationNote(done, done.items.length)}`, done.items.map(itemSummary)),
+        section(`Still open${truncationNote(open, open.items.length)}`, open.items.map((item) => ({
+          ...itemSummary(item),
+          createdOn: item.createdOn,
+        }))),
+        section(`Changes during the sprint${truncationNote(log, log.activities.length)}`, log.activities),
+      ].join("\n\n");
+    },
+  },
+  {
+    name: "triage_inbox",
+    description: "Triage the items waiting in a board's intake status: suggest an assignee, row, priority and next status for each",
+    arguments: [
+      { name: "boardId", description: "Board UUID, name or display ID", required: true },
+      { name: "statusId", description: "Intake status UUID or name (default: the board's first status)" },
+      profileArgument,
+    ],
+    async build(args, callTool) {
+      const [statuses, rows, users] = await Promise.all([
+        listStatuses(callTool, args.boardId),
+        callTool("list_rows", { boardId: args.boardId }),
+        callTool("list_users", {}),
+      ]);
+      const statusId = args.statusId ?? statuses[0]?.id;
+      if (!statusId) throw new Error(`Board ${args.boardId} has no statuses`);
+      const inbox = await listItems(callTool, { boardId: args.boardId, statusId, completed: false });
+      const statusTitle = statuses.find((s) => s.id === statusId)?.title ?? statusId;
+
+      return [
+        `Triage the ${inbox.items.length} item(s) in status "${statusTitle}" on board ${args.boardId}.`,
+        "For each item propose an assignee, a row, a priority (high/medium/low) and the status it should move to, with a one-line reason. " +
+          "Flag duplicates and items that need more information instead of guessing. " +
+          "Present the proposal as a table and do not change anything until it is confirmed; then apply it with update_item or bulk_update_items.",
+        section(`Items in "${statusTitle}"${truncationNote(inbox, inbox.items.length)}`, inbox.items.map((item) => ({
+          ...itemSummary(item),
+          description: item.description,
+          createdOn: item.createdOn,
+        }))),
+        section("Statuses", statuses.map((s) => ({ id: s.id, title: s.title, isCompleted: s.isCompleted }))),
+        section("Rows", rows),
+        section("Users", users),
+      ].join("\n\n");
+    },
+  },
+  {
+    name: "weekly_time_summary",
+    description: "Summarise the last week of time logs in a workspace by person and board",
+    arguments: [
+      { name: "workspaceId", description: "Workspace UUID, name or display ID", required: true },
+      { name: "endDate", description: "End of the week (ISO 8601; default now)" },
+      profileArgument,
+    ],
+    async build(args, callTool) {
+      const end = args.endDate ? Date.parse(args.endDate) : Date.now();
+      if (Number.isNaN(end)) {
+        throw new ValidationError(`endDate ${args.endDate} is not a valid date`, {
+          field: "endDate",
+          hint: "Use ISO 8601, e.g. 2024-03-15 or 2024-03-15T17:00:00Z",
+        });
+      }
+      const endDate = new Date(end).toISOString();
+      const startDate = isoDaysAgo(7, end);
+      const range = { workspaceId: args.workspaceId, startDate, endDate };
+      const [logs, totals] = await Promise.all([
+        callTool("get_time_logs", range),
+        callTool("time_report", { ...range, groupBy: ["user", "board"], format: "markdown" }),
+      ]);
+
+      return [
+        `Summarise time logged in workspace ${args.workspaceId} from ${startDate} to ${endDate}.`,
+        "Give the total per person and per board, highlight days with no time logged and unusually long entries, " +
+          "and list the items that took the most time. Keep it to a short paragraph plus a table.",
+        `## Totals by user and board\n\n${String(totals)}`,
+        section("Time logs", logs),
+      ].join("\n\n");
+    },
+  },
+];
+
+export function registerPromptHandlers(server: Server, callTool: ToolCaller): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: prompts.map(({ build: _build, ...prompt }) => prompt),
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: rawArgs = {} } = request.params;
+    const prompt = prompts.find((p) => p.name === name);
+    if (!prompt) throw new Error(`Unknown prompt: ${name}`);
+
+    const missing = (prompt.arguments ?? []).filter((a) => a.required && !rawArgs[a.name]).map((a) => a.name);
+    if (missing.length > 0) throw new Error(`Prompt ${name} requires: ${missing.join(", ")}`);
+
+    const { profile, ...promptArgs } = rawArgs;
+    // The prompt's tool calls run under its profile
+    const callWithProfile: ToolCaller = (tool, args) => callTool(tool, profile ? { ...args, profile } : args);
+    const text = await withProfile(profile, async () => {
+      const resolved = (await resolveArgs(name, promptArgs)) as Record<string, string>;
+      return prompt.build(resolved, callWithProfile);
+    });
+    return {
+      description: prompt.description,
+      messages: [{ role: "user" as const, content: { type: "text" as const, text } }],
+    };
+  });
+}
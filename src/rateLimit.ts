@@ -0,0 +1,176 @@
+// ============================================================================
+// RATE LIMITING & RETRY
+// ============================================================================
+// Teamhood allows 100 requests per minute per API key. Every outgoing request
+// goes through a token bucket shared by all requests for the same profile, and
+// 429/5xx responses are retried with exponential backoff and jitter
+// (honouring Retry-After when the server sends one).
+
+function envNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative number, got "${raw}"`);
+  }
+  return value;
+}
+
+export interface RateLimitConfig {
+  requestsPerMinute: number;
+  burst: number;
+  maxRetries: number;
+  retryBaseMs: number;
+  retryMaxMs: number;
+}
+
+export function loadRateLimitConfig(): RateLimitConfig {
+  const requestsPerMinute = envNumber("TEAMHOOD_RATE_LIMIT", 100);
+  return {
+    requestsPerMinute,
+    burst: envNumber("TEAMHOOD_RATE_LIMIT_BURST", requestsPerMinute),
+    maxRetries: envNumber("TEAMHOOD_MAX_RETRIES", 3),
+    retryBaseMs: envNumber("TEAMHOOD_RETRY_BASE_MS", 500),
+    retryMaxMs: envNumber("TEAMHOOD_RETRY_MAX_MS", 30_000),
+  };
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Token bucket shared by every request made with one API key. Waiters are
+// served in FIFO order so a burst of parallel calls drains evenly instead of
+// racing.
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private blockedUntil = 0;
+  private queue: Promise<void> = Promise.resolve();
+  private readonly refillPerMs: number;
+
+  constructor(private readonly capacity: number, requestsPerMinute: number) {
+    this.tokens = capacity;
+    this.refillPerMs = requestsPerMinute / 60_000;
+  }
+
+  acquire(): Promise<void> {
+    // A limit of 0 disables client-side throttling entirely
+    if (this.refillPerMs === 0) return Promise.resolve();
+    const next = this.queue.then(() => this.take());
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  // Called when the server rejects us: stop handing out tokens until the
+  // server-side window has reset, and start again from an empty bucket.
+  pause(ms: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, Date.now() + ms);
+    this.tokens = 0;
+    this.lastRefill = this.blockedUntil;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    if (now > this.lastRefill) {
+      this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+      this.lastRefill = now;
+    }
+  }
+
+  private async take(): Promise<void> {
+    for (;;) {
+      const blockedFor = this.blockedUntil - Date.now();
+      if (blockedFor > 0) {
+        await sleep(blockedFor);
+        continue;
+      }
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil((1 - this.tokens) / this.refillPerMs));
+    }
+  }
+}
+
+const config = loadRateLimitConfig();
+const buckets = new Map<string, TokenBucket>();
+
+function bucketFor(key: string): TokenBucket {
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = new TokenBucket(Math.max(1, config.burst), config.requestsPerMinute);
+    buckets.set(key, bucket);
+  }
+  return bucket;
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  return undefined;
+}
+
+// Full jitter: a random delay between 0 and the exponential ceiling
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(config.retryMaxMs, config.retryBaseMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+// 429 means the request was not processed, so it is always safe to replay.
+// 5xx is only retried for idempotent methods: a POST that timed out at a
+// gateway may still have created the record.
+function isRetryable(status: number, method: string): boolean {
+  if (status === 429) return true;
+  return status >= 500 && method !== "POST";
+}
+
+export async function rateLimitedFetch(url: string, init: RequestInit = {}, bucketKey = "default"): Promise<Response> {
+  const method = (init.method ?? "GET").toUpperCase();
+  const bucket = bucketFor(bucketKey);
+
+  for (let attempt = 0; ; attempt++) {
+    await bucket.acquire();
+    const response = await fetch(url, init);
+
+    if (response.ok || attempt >= config.maxRetries || !isRetryable(response.status, method)) {
+      return response;
+    }
+
+    const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+    // Waiting longer than the configured ceiling would stall the conversation;
+    // surface the error instead and let the caller decide.
+    if (retryAfter !== undefined && retryAfter > config.retryMaxMs) {
+      return response;
+    }
+
+    const delay = retryAfter ?? backoffDelay(attempt);
+    if (response.status === 429) bucket.pause(delay);
+    // Drain the body so the connection can be reused
+    await response.arrayBuffer().catch(() => undefined);
+    await sleep(delay);
+  }
+}
+
+// Run fn over every input with at most `limit` calls in flight. Results keep
+// input order; every call still goes through the profile's token bucket.
+export async function mapConcurrent<T, R>(
+  inputs: T[],
+  limit: number,
+  fn: (input: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(inputs.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < inputs.length) {
+      const index = next++;
+      results[index] = await fn(inputs[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, inputs.length)) }, worker));
+  return results;
+}
@@ -0,0 +1,298 @@
+import { apiRequest } from "./api.js";
+import { kindHint, NotFoundError, ValidationError } from "./errors.js";
+import { Item, User } from "./types.js";
+
+// ============================================================================
+// NAME RESOLUTION - accept names, display IDs and emails wherever a UUID is
+// expected, so the assistant can skip the list_* lookups before acting
+// ============================================================================
+
+type EntityKind = "workspace" | "board" | "status" | "row" | "user" | "workspace template" | "board template";
+
+interface Candidate {
+  id: string;
+  labels: string[];
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isUuid(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
+
+// Minimum similarity for a fuzzy (typo-tolerant) match
+const FUZZY_THRESHOLD = 0.7;
+// Candidates listed in "not found" errors
+const MAX_LISTED_CANDIDATES = 20;
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^\p{L}\p{N}@.]+/gu, "");
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest;
+}
+
+// Score how well a query matches a label: exact beats partial beats
+// typo-tolerant. Returns 0 for no match.
+function scoreLabel(query: string, label: string): number {
+  if (label.toLowerCase() === query.toLowerCase()) return 1;
+  const q = normalize(query);
+  const l = normalize(label);
+  if (!q || !l) return 0;
+  if (q === l) return 0.95;
+  if (l.includes(q)) return 0.7;
+  const fuzzy = similarity(q, l);
+  return fuzzy >= FUZZY_THRESHOLD ? fuzzy * 0.6 : 0;
+}
+
+// Pull the human-facing labels out of whatever shape the API returns
+function toCandidate(record: unknown): Candidate | undefined {
+  if (!record || typeof record !== "object") return undefined;
+  const r = record as Record<string, unknown>;
+  if (typeof r.id !== "string") return undefined;
+  const labels: string[] = [];
+  for (const key of ["title", "name", "displayId", "email", "fullName", "userName"]) {
+    if (typeof r[key] === "string" && r[key]) labels.push(r[key] as string);
+  }
+  if (typeof r.firstName === "string" || typeof r.lastName === "string") {
+    labels.push([r.firstName, r.lastName].filter(Boolean).join(" "));
+  }
+  return { id: r.id, labels };
+}
+
+function toCandidates(response: unknown): Candidate[] {
+  const records = Array.isArray(response)
+    ? response
+    : Object.values((response as Record<string, unknown>) ?? {}).find(Array.isArray) ?? [];
+  return (records as unknown[]).map(toCandidate).filter((c): c is Candidate => c !== undefined);
+}
+
+// Display name of a user in reports and exports
+export function userLabel(user: User): string {
+  return user.fullName || [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || user.id;
+}
+
+function describe(candidate: Candidate): string {
+  return `"${candidate.labels[0] ?? candidate.id}" (${candidate.id})`;
+}
+
+// Tools that change data pass exactOnly: a name that only nearly matches
+// could move or assign items to the wrong entity, so it is reported with the
+// close candidates instead of being picked
+export function matchCandidate(kind: EntityKind, query: string, candidates: Candidate[], exactOnly = false): string {
+  const byId = candidates.find((c) => c.id.toLowerCase() === query.toLowerCase());
+  if (byId) return byId.id;
+
+  const scored = candidates
+    .map((candidate) => ({
+      candidate,
+      score: Math.max(0, ...candidate.labels.map((label) => scoreLabel(query, label))),
+    }))
+    .filter((entry) => entry.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  if (scored.length === 0) {
+    const available = candidates.slice(0, MAX_LISTED_CANDIDATES).map(describe).join(", ");
+    const more = candidates.length > MAX_LISTED_CANDIDATES ? `, and ${candidates.length - MAX_LISTED_CANDIDATES} more` : "";
+    throw new NotFoundError(`No ${kind} matches "${query}". Available: ${available || "none"}${more}`, { hint: kindHint(kind) });
+  }
+
+  if (exactOnly && scored[0].score < 1) {
+    const options = scored.slice(0, MAX_LISTED_CANDIDATES).map((entry) => describe(entry.candidate)).join(", ");
+    throw new ValidationError(`No ${kind} is named exactly "${query}". Close matches: ${options}`, {
+      hint: "Tools that change data only accept an exact name, display ID or UUID: repeat the call with one of these",
+    });
+  }
+
+  const best = scored.filter((entry) => entry.score === scored[0].score);
+  if (best.length > 1) {
+    const options = best.map((entry) => describe(entry.candidate)).join(", ");
+    throw new ValidationError(`Ambiguous ${kind} "${query}" matches ${best.length} candidates: ${options}`, {
+      hint: "Use the UUID or a more specific name",
+    });
+  }
+  return best[0].candidate.id;
+}
+
+// ----------------------------------------------------------------------------
+// Lookups
+// ----------------------------------------------------------------------------
+
+// A resolver memoizes list calls for the duration of one tool call, so
+// resolving statusId and rowId on the same board only fetches each list once.
+// With exactOnly (for tools that change data) names must match exactly.
+export class NameResolver {
+  private lists = new Map<string, Promise<Candidate[]>>();
+
+  constructor(private readonly exactOnly = false) {}
+
+  private match(kind: EntityKind, value: string, candidates: Candidate[]): string {
+    return matchCandidate(kind, value, candidates, this.exactOnly);
+  }
+
+  private list(endpoint: string): Promise<Candidate[]> {
+    let pending = this.lists.get(endpoint);
+    if (!pending) {
+      pending = apiRequest<unknown>(endpoint).then(toCandidates);
+      this.lists.set(endpoint, pending);
+    }
+    return pending;
+  }
+
+  async workspace(value: string): Promise<string> {
+    if (isUuid(value)) return value;
+    return this.match("workspace", value, await this.list("/workspaces"));
+  }
+
+  async board(value: string, workspaceId?: string): Promise<string> {
+    if (isUuid(value)) return value;
+    if (workspaceId) {
+      return this.match("board", value, await this.list(`/workspaces/${workspaceId}/boards`));
+    }
+    // No workspace given: search the boards of every accessible workspace
+    const workspaces = await this.list("/workspaces");
+    const boards = await Promise.all(workspaces.map((w) => this.list(`/workspaces/${w.id}/boards`)));
+    return this.match("board", value, boards.flat());
+  }
+
+  async status(value: string, boardId: string | undefined): Promise<string> {
+    if (isUuid(value)) return value;
+    if (!boardId) throw new Error(`Status "${value}" given by name: a boardId is required to resolve it`);
+    return this.match("status", value, await this.list(`/boards/${boardId}/statuses`));
+  }
+
+  async row(value: string, boardId: string | undefined): Promise<string> {
+    if (isUuid(value)) return value;
+    if (!boardId) throw new Error(`Row "${value}" given by name: a boardId is required to resolve it`);
+    return this.match("row", value, await this.list(`/boards/${boardId}/rows`));
+  }
+
+  async user(value: string): Promise<string> {
+    if (isUuid(value)) return value;
+    return this.match("user", value, await this.list("/users"));
+  }
+
+  async workspaceTemplate(value: string): Promise<string> {
+    if (isUuid(value)) return value;
+    return this.match("workspace template", value, await this.list("/templates/workspace"));
+  }
+
+  async boardTemplate(value: string): Promise<string> {
+    if (isUuid(value)) return value;
+    return this.match("board template", value, await this.list("/templates/board"));
+  }
+
+  // Board an existing item lives on - needed to resolve status/row names
+  // when update_item does not move the item to another board
+  async itemBoard(itemId: string): Promise<string | undefined> {
+    const item = await apiRequest<Item>(`/items/${itemId}`);
+    return item.boardId;
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Argument resolution
+// ----------------------------------------------------------------------------
+const USER_FIELDS = ["assigneeId", "assignedUserId", "ownerId", "userId"];
+
+function needsResolution(value: unknown): value is string {
+  return typeof value === "string" && value !== "" && !isUuid(value);
+}
+
+// Replace names in ID arguments with UUIDs. Workspaces resolve first, then
+// boards (scoped to the workspace), then statuses and rows (scoped to the board).
+export async function resolveArgs(
+  toolName: string,
+  args: Record<string, unknown>,
+  resolver = new NameResolver()
+): Promise<Record<string, unknown>> {
+  const resolved = { ...args };
+
+  if (needsResolution(resolved.workspaceId)) {
+    resolved.workspaceId = await resolver.workspace(resolved.workspaceId);
+  }
+  const workspaceId = resolved.workspaceId as string | undefined;
+
+  for (const field of ["boardId", "targetBoardId"]) {
+    if (needsResolution(resolved[field])) {
+      resolved[field] = await resolver.board(resolved[field] as string, workspaceId);
+    }
+  }
+  if (Array.isArray(resolved.boardIds)) {
+    resolved.boardIds = await Promise.all(
+      (resolved.boardIds as string[]).map((b) => resolver.board(b, workspaceId))
+    );
+  }
+
+  if (needsResolution(resolved.templateId)) {
+    resolved.templateId = toolName === "create_workspace"
+      ? await resolver.workspaceTemplate(resolved.templateId)
+      : await resolver.boardTemplate(resolved.templateId);
+  }
+
+  for (const field of USER_FIELDS) {
+    if (needsResolution(resolved[field])) {
+      resolved[field] = await resolver.user(resolved[field] as string);
+    }
+  }
+  if (Array.isArray(resolved.userIds)) {
+    resolved.userIds = await Promise.all((resolved.userIds as string[]).map((u) => resolver.user(u)));
+  }
+
+  // Statuses and rows belong to a board: the target board for moves, the
+  // board argument (or filter) when given, otherwise the board the item
+  // currently sits on
+  const boardScoped: Array<[string, string]> = [
+    ["statusId", "boardId"],
+    ["rowId", "boardId"],
+    ["targetStatusId", "targetBoardId"],
+    ["targetRowId", "targetBoardId"],
+  ];
+  let itemBoard: Promise<string | undefined> | undefined;
+  for (const [field, boardField] of boardScoped) {
+    if (!needsResolution(resolved[field])) continue;
+    let boardId = (resolved[boardField] ?? resolved.boardId) as string | undefined;
+    if (!boardId && typeof resolved.itemId === "string") {
+      itemBoard ??= resolver.itemBoard(resolved.itemId);
+      boardId = await itemBoard;
+    }
+    const value = resolved[field] as string;
+    resolved[field] = field.toLowerCase().includes("status")
+      ? await resolver.status(value, boardId)
+      : await resolver.row(value, boardId);
+  }
+  if (Array.isArray(resolved.rowIds)) {
+    const boardIds = (resolved.boardIds as string[] | undefined) ?? [];
+    resolved.rowIds = await Promise.all(
+      (resolved.rowIds as string[]).map((r) => {
+        if (isUuid(r)) return r;
+        if (boardIds.length !== 1) {
+          throw new Error(`Row "${r}" given by name: exactly one boardIds entry is required to resolve it`);
+        }
+        return resolver.row(r, boardIds[0]);
+      })
+    );
+  }
+
+  return resolved;
+}
@@ -0,0 +1,188 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  Resource,
+  ResourceTemplate,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { apiRequest } from "./api.js";
+import { getItem } from "./items.js";
+import { fetchAllItems } from "./pagination.js";
+import { mapConcurrent } from "./rateLimit.js";
+import { Attachment, Board, Item, Row, Status, Workspace } from "./types.js";
+import { ChangeWatcher } from "./watcher.js";
+
+// ============================================================================
+// RESOURCES - workspaces, boards and items as readable MCP resources, with
+// subscriptions on boards and items backed by the change watcher
+// ============================================================================
+
+const MIME_TYPE = "application/json";
+const BOARD_ITEMS_LIMIT = 500;
+const LIST_CONCURRENCY = 4;
+const URI_PATTERN = /^teamhood:\/\/(workspace|board|item)\/([^/?#]+)$/;
+
+type ResourceKind = "workspace" | "board" | "item";
+
+const resourceTemplates: ResourceTemplate[] = [
+  {
+    uriTemplate: "teamhood://workspace/{id}",
+    name: "Workspace",
+    description: "Workspace details and its boards",
+    mimeType: MIME_TYPE,
+  },
+  {
+    uriTemplate: "teamhood://board/{id}",
+    name: "Board",
+    description: `Board statuses and rows with item counts, plus a summary of up to ${BOARD_ITEMS_LIMIT} open items. Subscribe to be notified when any item on the board changes.`,
+    mimeType: MIME_TYPE,
+  },
+  {
+    uriTemplate: "teamhood://item/{id}",
+    name: "Item",
+    description: "Full item with its attachments list. Subscribe to be notified when the item changes.",
+    mimeType: MIME_TYPE,
+  },
+];
+
+function parseUri(uri: string): { kind: ResourceKind; id: string } {
+  const match = URI_PATTERN.exec(uri);
+  if (!match) {
+    throw new Error(`Unknown resource URI: ${uri} (expected teamhood://workspace/{id}, teamhood://board/{id} or teamhood://item/{id})`);
+  }
+  return { kind: match[1] as ResourceKind, id: decodeURIComponent(match[2]) };
+}
+
+// Workspaces plus their boards; items are reachable through the template
+async function listResources(): Promise<Resource[]> {
+  const workspaces = (await apiRequest<Workspace[]>("/workspaces")).filter((w) => !w.archived);
+  const boards = await mapConcurrent(workspaces, LIST_CONCURRENCY, (workspace) =>
+    apiRequest<Board[]>(`/workspaces/${workspace.id}/boards`)
+  );
+
+  return workspaces.flatMap((workspace, index) => [
+    {
+      uri: `teamhood://workspace/${workspace.id}`,
+      name: workspace.title ?? workspace.id,
+      description: "Workspace",
+      mimeType: MIME_TYPE,
+    },
+    ...boards[index]
+      .filter((board) => !board.archived)
+      .map((board) => ({
+        uri: `teamhood://board/${board.id}`,
+        name: `${workspace.title ?? workspace.id} / ${board.title ?? board.id}`,
+        description: board.viewType ? `${board.viewType} board` : "Board",
+        mimeType: MIME_TYPE,
+      })),
+  ]);
+}
+
+async function readWorkspace(workspaceId: string): Promise<unknown> {
+  const [workspace, boards] = await Promise.all([
+    apiRequest<Workspace>(`/workspaces/${workspaceId}`),
+    apiRequest<Board[]>(`/workspaces/${workspaceId}/boards`),
+  ]);
+  return { ...workspace, boards };
+}
+
+async function readBoard(boardId: string): Promise<unknown> {
+  const [statuses, rows, page] = await Promise.all([
+    apiRequest<Status[]>(`/boards/${boardId}/statuses`),
+    apiRequest<Row[]>(`/boards/${boardId}/rows`),
+    fetchAllItems({ boardId, completed: false }, BOARD_ITEMS_LIMIT),
+  ]);
+  const items = page.records.filter((item) => !item.archived);
+
+  // There is no GET /boards/{id}; find the board through its workspace
+  const workspaceId = items.find((item) => item.workspaceId)?.workspaceId;
+  const board = workspaceId
+    ? (await apiRequest<Board[]>(`/workspaces/${workspaceId}/boards`)).find((b) => b.id === boardId)
+    : undefined;
+
+  const count = (key: "statusId" | "rowId", id: string) => items.filter((item) => item[key] === id).length;
+  return {
+    board: board ?? { id: boardId, workspaceId },
+    statuses: [...statuses]
+      .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+      .map((status) => ({ ...status, openItems: count("statusId", status.id) })),
+    rows: rows.map((row) => ({ ...row, openItems: count("rowId", row.id) })),
+    items: items.map((item) => ({
+      id: item.id,
+      displayId: item.displayId,
+      title: item.title,
+      statusId: item.statusId,
+      rowId: item.rowId,
+      parentId: item.parentId,
+      assignedUserId: item.assignedUserId,
+      dueDate: item.dueDate,
+      progress: item.progress,
+    })),
+    totalCount: page.totalCount,
+    truncated: page.truncated,
+  };
+}
+
+async function readItem(itemId: string): Promise<unknown> {
+  const [item, attachments] = await Promise.all([
+    getItem(itemId),
+    apiRequest<Attachment[]>(`/items/${itemId}/attachments`),
+  ]);
+  return { ...item, attachments };
+}
+
+async function readResource(kind: ResourceKind, id: string): Promise<unknown> {
+  switch (kind) {
+    case "workspace":
+      return readWorkspace(id);
+    case "board":
+      return readBoard(id);
+    case "item":
+      return readItem(id);
+  }
+}
+
+// Board and item subscriptions poll the item's board; workspaces have no
+// change feed to poll
+async function subscribe(watcher: ChangeWatcher, uri: string): Promise<void> {
+  const { kind, id } = parseUri(uri);
+  if (kind === "workspace") {
+    throw new Error("Workspace resources do not support subscriptions; subscribe to a board or item instead");
+  }
+  if (kind === "board") return watcher.subscribe(uri, id);
+  const item: Item = await getItem(id);
+  if (!item.boardId) throw new Error(`Item ${id} is not on a board`);
+  return watcher.subscribe(uri, item.boardId, id);
+}
+
+export function registerResourceHandlers(server: Server, watcher: ChangeWatcher): void {
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: await listResources(),
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates,
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const { kind, id } = parseUri(uri);
+    const data = await readResource(kind, id);
+    return {
+      contents: [{ uri, mimeType: MIME_TYPE, text: JSON.stringify(data, null, 2) }],
+    };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    await subscribe(watcher, request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    watcher.unsubscribe(request.params.uri);
+    return {};
+  });
+}
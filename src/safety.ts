@@ -0,0 +1,135 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { randomBytes } from "crypto";
+import { currentProfile } from "./profiles.js";
+
+// ============================================================================
+// SAFETY - server-wide read-only mode, tool allow-list and two-step
+// confirmation for permanent deletions
+// ============================================================================
+
+function envFlag(name: string, fallback: boolean): boolean {
+  const raw = process.env[name]?.trim().toLowerCase();
+  if (!raw) return fallback;
+  return ["1", "true", "yes", "on"].includes(raw);
+}
+
+function envList(name: string): Set<string> | undefined {
+  const raw = process.env[name]?.trim();
+  if (!raw) return undefined;
+  return new Set(raw.split(",").map((entry) => entry.trim()).filter(Boolean));
+}
+
+const READ_ONLY = envFlag("TEAMHOOD_READ_ONLY", false);
+const ALLOWED_TOOLS = envList("TEAMHOOD_ALLOWED_TOOLS");
+const CONFIRM_DELETES = envFlag("TEAMHOOD_CONFIRM_DELETES", true);
+const CONFIRM_TOKEN_TTL_MS = 5 * 60 * 1000;
+
+// Tools without annotations are treated as writes
+export function isReadOnlyTool(tool: Tool): boolean {
+  return tool.annotations?.readOnlyHint === true;
+}
+
+function isAllowed(tool: Tool): boolean {
+  return !ALLOWED_TOOLS || ALLOWED_TOOLS.has(tool.name);
+}
+
+// Tools advertised to clients: writes are hidden in read-only mode, except
+// those that can still be used as a dry-run preview or without writing a file
+export function visibleTools(tools: Tool[]): Tool[] {
+  return tools.filter((tool) => {
+    if (!isAllowed(tool)) return false;
+    if (READ_ONLY && !isReadOnlyTool(tool)) return supportsDryRun(tool) || writesOnlyOutputPath(tool);
+    return true;
+  });
+}
+
+function supportsDryRun(tool: Tool): boolean {
+  return tool.inputSchema.properties?.dryRun !== undefined;
+}
+
+// Exports and downloads are reads, except for the local file they write when
+// given an outputPath
+function writesOnlyOutputPath(tool: Tool): boolean {
+  return tool.inputSchema.properties?.outputPath !== undefined;
+}
+
+export function assertToolPermitted(tool: Tool, args: Record<string, unknown>): void {
+  if (!isAllowed(tool)) {
+    throw new Error(`Tool ${tool.name} is disabled on this server (not in TEAMHOOD_ALLOWED_TOOLS)`);
+  }
+  if (!READ_ONLY || isReadOnlyTool(tool) || args.dryRun === true) return;
+  if (writesOnlyOutputPath(tool)) {
+    if (args.outputPath === undefined) return;
+    throw new Error(`Server is in read-only mode (TEAMHOOD_READ_ONLY): ${tool.name} cannot write outputPath. Call it without outputPath to get the result inline.`);
+  }
+  const hint = supportsDryRun(tool) ? " Only dryRun previews are available." : "";
+  throw new Error(`Server is in read-only mode (TEAMHOOD_READ_ONLY): ${tool.name} would modify data.${hint}`);
+}
+
+// ----------------------------------------------------------------------------
+// Confirmation tokens
+// ----------------------------------------------------------------------------
+
+// A token is bound to one tool and one target, expires after a few minutes
+// and can be used once, so the model has to look at the preview before it
+// can repeat the call with the token. It is used up only when the deletion
+// succeeds; while the deletion runs it cannot be presented again.
+const pendingConfirmations = new Map<string, { tool: string; target: string; expiresAt: number; inUse: boolean }>();
+
+function issueConfirmToken(tool: string, target: string): { confirmToken: string; expiresAt: string } {
+  const now = Date.now();
+  for (const [token, pending] of pendingConfirmations) {
+    if (pending.expiresAt <= now && !pending.inUse) pendingConfirmations.delete(token);
+  }
+  const confirmToken = randomBytes(9).toString("base64url");
+  const expiresAt = now + CONFIRM_TOKEN_TTL_MS;
+  pendingConfirmations.set(confirmToken, { tool, target, expiresAt, inUse: false });
+  return { confirmToken, expiresAt: new Date(expiresAt).toISOString() };
+}
+
+function claimConfirmToken(tool: string, target: string, token: string): void {
+  const pending = pendingConfirmations.get(token);
+  if (!pending || pending.expiresAt <= Date.now()) {
+    pendingConfirmations.delete(token);
+    throw new Error(`Confirmation token is invalid or expired. Call ${tool} without confirmToken to get a new one.`);
+  }
+  if (pending.tool !== tool || pending.target !== target) {
+    throw new Error(`Confirmation token was issued for ${pending.tool} on ${pending.target}, not ${tool} on ${target}`);
+  }
+  if (pending.inUse) throw new Error(`Confirmation token is already being used by another ${tool} call`);
+  pending.inUse = true;
+}
+
+// Run a permanent deletion behind a confirmation. Without a token the
+// deletion is not run and the confirmation request (with a preview) is
+// returned; with a valid token the deletion runs, and the token stays valid
+// for a retry if it fails.
+export async function confirmDeletion(
+  tool: string,
+  targetId: string,
+  confirmToken: unknown,
+  loadPreview: () => Promise<unknown>,
+  remove: () => Promise<unknown>
+): Promise<unknown> {
+  if (!CONFIRM_DELETES) return remove();
+  // Same ID on another tenant is a different target
+  const target = `${currentProfile().name}:${targetId}`;
+  if (typeof confirmToken === "string" && confirmToken) {
+    claimConfirmToken(tool, target, confirmToken);
+    try {
+      const result = await remove();
+      pendingConfirmations.delete(confirmToken);
+      return result;
+    } catch (error) {
+      const pending = pendingConfirmations.get(confirmToken);
+      if (pending) pending.inUse = false;
+      throw error;
+    }
+  }
+  return {
+    confirmationRequired: true,
+    message: `Nothing was deleted. Review the preview, then call ${tool} again with this confirmToken to delete permanently.`,
+    ...issueConfirmToken(tool, target),
+    preview: await loadPreview(),
+  };
+}
@@ -0,0 +1,238 @@
+import { existsSync, readFileSync, statSync } from "fs";
+import { chmod, mkdir, rename, writeFile } from "fs/promises";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import { readSopsFile } from "./sops.js";
+
+// ============================================================================
+// SECRETS - credentials and profile settings gathered from several providers.
+// Later providers override earlier ones, and every value remembers which
+// provider supplied it so configuration problems can be diagnosed.
+// ============================================================================
+
+// Get the directory where this script is located
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const projectRoot = join(__dirname, "..");
+
+export interface ProviderStatus {
+  provider: string;
+  location?: string;
+  status: "loaded" | "not found" | "error";
+  count: number;
+  error?: string;
+}
+
+export interface SecretsReport {
+  values: Record<string, string>;
+  // Every source that set a name, lowest precedence first; the last one wins
+  origins: Record<string, string[]>;
+  providers: ProviderStatus[];
+  problems: string[];
+}
+
+interface FileLocation {
+  path: string;
+  // Set by the user, so a missing file is an error rather than "not found"
+  explicit: boolean;
+}
+
+interface SecretsProvider {
+  name: string;
+  locate(values: Record<string, string>): FileLocation;
+  load(path: string): Promise<Record<string, string>>;
+}
+
+export function keychainPath(): string {
+  return process.env.TEAMHOOD_KEYCHAIN_FILE || join(homedir(), ".teamhood-mcp", "keychain.json");
+}
+
+function explicitOr(variable: string | undefined, fallbacks: string[]): FileLocation {
+  if (variable) return { path: variable, explicit: true };
+  const path = fallbacks.find((candidate) => existsSync(candidate));
+  return { path: path ?? fallbacks[0], explicit: false };
+}
+
+// Top-level scalars only; nested structures are not settings
+function scalarEntries(data: Record<string, unknown>, path: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const [name, value] of Object.entries(data)) {
+    if (value === null || value === undefined) continue;
+    if (typeof value === "object") throw new Error(`${path}: "${name}" must be a string, not a nested value`);
+    values[name] = String(value);
+  }
+  return values;
+}
+
+export function parseDotenv(content: string, path: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  const lines = content.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || line.startsWith("#")) continue;
+    const match = line.match(/^(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)$/);
+    if (!match) throw new Error(`${path}:${i + 1}: expected NAME=value`);
+    const raw = match[2];
+    let value: string;
+    if (raw.startsWith('"')) {
+      const end = raw.match(/^"((?:[^"\\]|\\.)*)"\s*(#.*)?$/);
+      if (!end) throw new Error(`${path}:${i + 1}: unterminated double quote`);
+      value = end[1].replace(/\\([nrt"\\])/g, (_, c: string) => ({ n: "\n", r: "\r", t: "\t" })[c] ?? c);
+    } else if (raw.startsWith("'")) {
+      const end = raw.match(/^'([^']*)'\s*(#.*)?$/);
+      if (!end) throw new Error(`${path}:${i + 1}: unterminated single quote`);
+      value = end[1];
+    } else {
+      value = raw.replace(/\s+#.*$/, "").trim();
+    }
+    values[match[1]] = value;
+  }
+  return values;
+}
+
+async function readKeychain(path: string): Promise<Record<string, string>> {
+  if (process.platform !== "win32" && (statSync(path).mode & 0o077) !== 0) {
+    throw new Error(`${path} is accessible by other users; run chmod 600 "${path}"`);
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`${path} is not valid JSON: ${reason}`);
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`${path} must contain a JSON object of names to values`);
+  }
+  return scalarEntries(parsed as Record<string, unknown>, path);
+}
+
+// Ordered from lowest to highest precedence; the environment sits between
+// the local files and the secrets file
+const FILE_PROVIDERS: SecretsProvider[] = [
+  {
+    name: "keychain",
+    locate: () => explicitOr(process.env.TEAMHOOD_KEYCHAIN_FILE, [keychainPath()]),
+    load: readKeychain,
+  },
+  {
+    name: "dotenv",
+    locate: () => explicitOr(process.env.TEAMHOOD_ENV_FILE, [join(projectRoot, ".env")]),
+    load: async (path) => parseDotenv(readFileSync(path, "utf-8"), path),
+  },
+];
+
+const SOPS_PROVIDER: SecretsProvider = {
+  name: "sops",
+  locate: (values) =>
+    explicitOr(values.TEAMHOOD_SECRETS_FILE, [join(projectRoot, "secrets.enc.yaml"), join(projectRoot, "secrets.yaml")]),
+  load: async (path) => scalarEntries((await readSopsFile(path)).data, path),
+};
+
+// Gather all values. Never throws: failures end up in problems.
+export async function loadSecrets(): Promise<SecretsReport> {
+  const report: SecretsReport = { values: {}, origins: {}, providers: [], problems: [] };
+  const apply = (values: Record<string, string>, source: string) => {
+    for (const [name, value] of Object.entries(values)) {
+      report.values[name] = value;
+      report.origins[name] = [...(report.origins[name] ?? []), source];
+    }
+  };
+
+  const runProvider = async (provider: SecretsProvider) => {
+    const location = provider.locate(report.values);
+    const status: ProviderStatus = { provider: provider.name, location: location.path, status: "not found", count: 0 };
+    report.providers.push(status);
+    if (!existsSync(location.path)) {
+      if (location.explicit) {
+        status.status = "error";
+        status.error = `${location.path} does not exist`;
+        report.problems.push(`${provider.name}: ${status.error}`);
+      }
+      return;
+    }
+    try {
+      const values = await provider.load(location.path);
+      apply(values, `${provider.name} (${location.path})`);
+      status.status = "loaded";
+      status.count = Object.keys(values).length;
+    } catch (error) {
+      status.status = "error";
+      status.error = error instanceof Error ? error.message : String(error);
+      report.problems.push(`${provider.name}: ${status.error}`);
+    }
+  };
+
+  for (const provider of FILE_PROVIDERS) await runProvider(provider);
+
+  const env = Object.fromEntries(
+    Object.entries(process.env).filter((entry): entry is [string, string] => entry[0].startsWith("TEAMHOOD_") && !!entry[1])
+  );
+  apply(env, "environment");
+  report.providers.push({ provider: "environment", status: "loaded", count: Object.keys(env).length });
+
+  await runProvider(SOPS_PROVIDER);
+
+  // TEAMHOOD_API_KEY_FILE=/run/secrets/teamhood (also per profile) holds the key itself
+  for (const [name, path] of Object.entries(report.values)) {
+    const match = name.match(/^(TEAMHOOD_\w*API_KEY)_FILE$/);
+    if (!match) continue;
+    try {
+      const value = readFileSync(path, "utf-8").trim();
+      if (!value) throw new Error("file is empty");
+      apply({ [match[1]]: value }, `file (${path})`);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      report.problems.push(`${name}: cannot read ${path}: ${reason}`);
+    }
+  }
+
+  return report;
+}
+
+function isSecretName(name: string): boolean {
+  return /(API_KEY|TOKEN|SECRET|PASSWORD)$/.test(name);
+}
+
+// Keys are never shown in full: only their length and last characters
+export function redact(name: string, value: string): string {
+  if (!isSecretName(name)) return value;
+  if (value.length < 12) return `**** (${value.length} chars)`;
+  return `****${value.slice(-4)} (${value.length} chars)`;
+}
+
+// Which source supplied each value, with secrets redacted
+export function describeSecrets(report: SecretsReport): {
+  providers: ProviderStatus[];
+  values: Array<{ name: string; value: string; source: string; overrides: string[] }>;
+} {
+  const values = Object.keys(report.values)
+    .filter((name) => name.startsWith("TEAMHOOD_"))
+    .sort()
+    .map((name) => {
+      const origins = report.origins[name];
+      return {
+        name,
+        value: redact(name, report.values[name]),
+        source: origins[origins.length - 1],
+        overrides: origins.slice(0, -1),
+      };
+    });
+  return { providers: report.providers, values };
+}
+
+// Keychain writes go through a temp file so a crash never leaves it half-written
+export async function writeKeychain(values: Record<string, string>): Promise<void> {
+  const path = keychainPath();
+  await mkdir(dirname(path), { recursive: true, mode: 0o700 });
+  const temp = `${path}.${process.pid}.tmp`;
+  await writeFile(temp, `${JSON.stringify(values, null, 2)}\n`, { encoding: "utf-8", mode: 0o600 });
+  await chmod(temp, 0o600);
+  await rename(temp, path);
+}
+
+export async function loadKeychain(): Promise<Record<string, string>> {
+  const path = keychainPath();
+  return existsSync(path) ? readKeychain(path) : {};
+}
@@ -0,0 +1,96 @@
+import { listProfiles, loadProfiles } from "./profiles.js";
+import { describeSecrets, keychainPath, loadKeychain, loadSecrets, redact, writeKeychain } from "./secrets.js";
+
+// ============================================================================
+// SECRETS COMMAND - `teamhood-mcp secrets <doctor|list|set|unset>` for
+// inspecting where credentials come from and managing the file keychain
+// ============================================================================
+
+const USAGE = `Usage: teamhood-mcp secrets <command>
+
+  doctor        Show every secrets source, which one supplied each value, and
+                whether the resulting profiles are valid (keys are redacted)
+  list          List the names stored in the keychain (${keychainPath()})
+  set <NAME>    Store a value in the keychain, read from stdin
+  unset <NAME>  Remove a value from the keychain`;
+
+async function readStdin(): Promise<string> {
+  if (process.stdin.isTTY) process.stderr.write("Enter the value, then press Ctrl-D:\n");
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf-8").replace(/\r?\n$/, "");
+}
+
+async function doctor(): Promise<number> {
+  const { providers, values } = describeSecrets(await loadSecrets());
+
+  console.log("Sources (lowest precedence first):");
+  for (const p of providers) {
+    const detail = p.status === "loaded" ? `${p.count} value(s)` : p.status === "error" ? `ERROR: ${p.error}` : "not found";
+    console.log(`  ${p.provider.padEnd(12)} ${detail}${p.location ? `  ${p.location}` : ""}`);
+  }
+
+  console.log("\nValues:");
+  if (values.length === 0) console.log("  (none)");
+  for (const v of values) {
+    const overrides = v.overrides.length > 0 ? `, overrides ${v.overrides.join(", ")}` : "";
+    console.log(`  ${v.name} = ${v.value}\n      from ${v.source}${overrides}`);
+  }
+
+  console.log("\nProfiles:");
+  try {
+    await loadProfiles();
+  } catch (error) {
+    console.log(`  ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  }
+  for (const profile of listProfiles()) {
+    console.log(`  ${profile.name}${profile.default ? " (default)" : ""}  ${profile.baseUrl}`);
+  }
+  return 0;
+}
+
+export async function runSecretsCommand(argv: string[]): Promise<number> {
+  const [command, name] = argv;
+
+  switch (command) {
+    case "doctor":
+      return doctor();
+
+    case "list": {
+      const keychain = await loadKeychain();
+      for (const [key, value] of Object.entries(keychain)) console.log(`${key} = ${redact(key, value)}`);
+      if (Object.keys(keychain).length === 0) console.log(`No values stored in ${keychainPath()}`);
+      return 0;
+    }
+
+    case "set":
+    case "unset": {
+      if (!name || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+        console.error(`A variable name is required, e.g. teamhood-mcp secrets ${command} TEAMHOOD_API_KEY`);
+        return 1;
+      }
+      const keychain = await loadKeychain();
+      if (command === "set") {
+        const value = await readStdin();
+        if (!value) {
+          console.error("No value given on stdin");
+          return 1;
+        }
+        keychain[name] = value;
+      } else if (!(name in keychain)) {
+        console.error(`${name} is not stored in ${keychainPath()}`);
+        return 1;
+      } else {
+        delete keychain[name];
+      }
+      await writeKeychain(keychain);
+      console.log(`${command === "set" ? "Stored" : "Removed"} ${name} in ${keychainPath()}`);
+      return 0;
+    }
+
+    default:
+      console.error(USAGE);
+      return command === undefined || command === "help" ? 0 : 1;
+  }
+}
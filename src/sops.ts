@@ -0,0 +1,216 @@
+import { armor, Decrypter } from "age-encryption";
+import { execFileSync } from "child_process";
+import { createDecipheriv, createHash } from "crypto";
+import { existsSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { parse as parseYaml } from "yaml";
+
+// ============================================================================
+// SOPS - decrypt SOPS-encrypted YAML/JSON files in-process. The data key is
+// unwrapped with an age identity; values are AES-256-GCM encrypted with
+// their key path as additional data, and the MAC covers every value. Files
+// encrypted for PGP or a cloud KMS only can be handed to the sops binary when
+// TEAMHOOD_SOPS_BINARY is set; otherwise they are rejected.
+// ============================================================================
+
+type Tree = Record<string, unknown>;
+
+interface SopsMetadata {
+  age?: Array<{ recipient?: string; enc?: string }>;
+  lastmodified?: string;
+  mac?: string;
+  unencrypted_suffix?: string;
+  encrypted_suffix?: string;
+  unencrypted_regex?: string;
+  encrypted_regex?: string;
+  mac_only_encrypted?: boolean;
+}
+
+const ENCRYPTED_VALUE = /^ENC\[AES256_GCM,data:([^,]*),iv:([^,]+),tag:([^,]+),type:(\w+)\]$/;
+
+// Parse a YAML or JSON document (JSON is valid YAML)
+function parseDocument(content: string, path: string): Tree {
+  let parsed: unknown;
+  try {
+    parsed = parseYaml(content);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`${path} is not valid YAML/JSON: ${reason}`);
+  }
+  if (parsed === null || parsed === undefined) return {};
+  if (typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`${path} must contain a mapping of names to values`);
+  }
+  return parsed as Tree;
+}
+
+function isSopsDocument(doc: Tree): boolean {
+  return typeof doc.sops === "object" && doc.sops !== null;
+}
+
+// Age identities, looked up the same way the sops binary does
+function ageIdentities(env: NodeJS.ProcessEnv): string[] {
+  const sources: string[] = [];
+  if (env.SOPS_AGE_KEY) sources.push(env.SOPS_AGE_KEY);
+
+  const configHome = env.XDG_CONFIG_HOME || join(homedir(), ".config");
+  const keyFiles = [
+    env.SOPS_AGE_KEY_FILE,
+    join(configHome, "sops", "age", "keys.txt"),
+    join(homedir(), "Library", "Application Support", "sops", "age", "keys.txt"),
+  ];
+  for (const file of keyFiles) {
+    if (file && existsSync(file)) sources.push(readFileSync(file, "utf-8"));
+  }
+
+  return sources
+    .flatMap((text) => text.split(/\r?\n/))
+    .map((line) => line.trim())
+    .filter((line) => line.startsWith("AGE-SECRET-KEY-"));
+}
+
+async function unwrapDataKey(metadata: SopsMetadata, path: string, env: NodeJS.ProcessEnv): Promise<Buffer> {
+  const stanzas = (metadata.age ?? []).filter((entry) => entry.enc);
+  const identities = ageIdentities(env);
+  if (identities.length === 0) {
+    throw new Error(`No age identity found to decrypt ${path}. Set SOPS_AGE_KEY or SOPS_AGE_KEY_FILE.`);
+  }
+  const decrypter = new Decrypter();
+  for (const identity of identities) decrypter.addIdentity(identity);
+
+  for (const stanza of stanzas) {
+    try {
+      const key = Buffer.from(await decrypter.decrypt(armor.decode(stanza.enc!)));
+      if (key.length === 32) return key;
+    } catch {
+      // Encrypted for another recipient; try the next one
+    }
+  }
+  const recipients = stanzas.map((s) => s.recipient).filter(Boolean).join(", ");
+  throw new Error(`None of the available age identities can decrypt ${path} (recipients: ${recipients})`);
+}
+
+function decryptValue(value: string, key: Buffer, additionalData: string): string | number | boolean {
+  const match = value.match(ENCRYPTED_VALUE);
+  if (!match) throw new Error(`malformed encrypted value`);
+  const [, data, iv, tag, type] = match;
+
+  const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(iv, "base64"));
+  decipher.setAAD(Buffer.from(additionalData, "utf-8"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  const plaintext = Buffer.concat([decipher.update(Buffer.from(data, "base64")), decipher.final()]).toString("utf-8");
+
+  switch (type) {
+    case "int":
+    case "float":
+      return Number(plaintext);
+    case "bool":
+      return plaintext.toLowerCase() === "true";
+    default:
+      return plaintext;
+  }
+}
+
+// Matches the sops encoding of values before hashing them into the MAC
+// (ToBytes in sops, which writes booleans the Python way)
+function macBytes(value: unknown): string {
+  if (typeof value === "boolean") return value ? "True" : "False";
+  return String(value);
+}
+
+// A key anywhere on the path decides for the whole subtree below it
+function isEncryptedPath(keyPath: string[], metadata: SopsMetadata): boolean {
+  const { unencrypted_suffix, encrypted_suffix, unencrypted_regex, encrypted_regex } = metadata;
+  if (unencrypted_suffix) return !keyPath.some((key) => key.endsWith(unencrypted_suffix));
+  if (encrypted_suffix) return keyPath.some((key) => key.endsWith(encrypted_suffix));
+  if (unencrypted_regex) return !keyPath.some((key) => new RegExp(unencrypted_regex).test(key));
+  if (encrypted_regex) return keyPath.some((key) => new RegExp(encrypted_regex).test(key));
+  return true;
+}
+
+function envFlag(env: NodeJS.ProcessEnv, name: string): boolean {
+  return ["1", "true", "yes", "on"].includes((env[name] ?? "").trim().toLowerCase());
+}
+
+// PGP and cloud KMS keys need the sops binary, which is only run when the
+// operator opted in
+function decryptWithSopsBinary(path: string, env: NodeJS.ProcessEnv): Tree {
+  if (!envFlag(env, "TEAMHOOD_SOPS_BINARY")) {
+    throw new Error(
+      `${path} has no age recipients. Only age is decrypted in-process; set TEAMHOOD_SOPS_BINARY=true to decrypt PGP/KMS files with the sops binary.`
+    );
+  }
+  let output: string;
+  try {
+    output = execFileSync("sops", ["--decrypt", path], { encoding: "utf-8", stdio: ["ignore", "pipe", "pipe"] });
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    const reason = stderr || (error instanceof Error ? error.message : String(error));
+    throw new Error(`${path} has no age recipients and "sops --decrypt" failed: ${reason}`);
+  }
+  return parseDocument(output, path);
+}
+
+// Decrypt a SOPS file and verify its MAC. Returns the document without the
+// sops metadata; plain YAML/JSON files are returned as they are.
+export async function readSopsFile(
+  path: string,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<{ data: Tree; encrypted: boolean }> {
+  const content = readFileSync(path, "utf-8");
+  const doc = parseDocument(content, path);
+  if (!isSopsDocument(doc)) return { data: doc, encrypted: false };
+  if (!(doc.sops as SopsMetadata).age?.some((entry) => entry.enc)) {
+    return { data: decryptWithSopsBinary(path, env), encrypted: true };
+  }
+  return { data: await decryptSopsDocument(doc, path, env), encrypted: true };
+}
+
+// sops leaves comments out of the MAC, so the parser dropping them (encrypted
+// or not) does not change the hash
+async function decryptSopsDocument(doc: Tree, path: string, env: NodeJS.ProcessEnv): Promise<Tree> {
+  const metadata = doc.sops as SopsMetadata;
+  const key = await unwrapDataKey(metadata, path, env);
+  const hash = createHash("sha512");
+
+  const walk = (node: unknown, keyPath: string[]): unknown => {
+    // List entries share their parent's path
+    if (Array.isArray(node)) return node.map((entry) => walk(entry, keyPath));
+    if (node !== null && typeof node === "object") {
+      const out: Tree = {};
+      for (const [name, child] of Object.entries(node as Tree)) {
+        out[name] = walk(child, [...keyPath, name]);
+      }
+      return out;
+    }
+    const encrypted = isEncryptedPath(keyPath, metadata);
+    let value = node;
+    if (encrypted && typeof node === "string" && node.startsWith("ENC[")) {
+      try {
+        value = decryptValue(node, key, `${keyPath.join(":")}:`);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new Error(`Cannot decrypt "${keyPath.join(".")}" in ${path}: ${reason}`);
+      }
+    }
+    if (encrypted || !metadata.mac_only_encrypted) hash.update(macBytes(value));
+    return value;
+  };
+
+  const { sops: _metadata, ...data } = doc;
+  const decrypted = walk(data, []) as Tree;
+
+  if (!metadata.mac || !metadata.lastmodified) throw new Error(`${path} has no SOPS MAC`);
+  let expected: unknown;
+  try {
+    expected = decryptValue(metadata.mac, key, metadata.lastmodified);
+  } catch {
+    throw new Error(`Cannot decrypt the SOPS MAC of ${path}`);
+  }
+  if (String(expected).toUpperCase() !== hash.digest("hex").toUpperCase()) {
+    throw new Error(`${path} failed its SOPS MAC check: the file was modified after encryption`);
+  }
+
+  return decrypted;
+}
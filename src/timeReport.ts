@@ -0,0 +1,295 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { apiRequest } from "./api.js";
+import { toCsv } from "./csv.js";
+import { outputPathFrom, writeLocalFile } from "./files.js";
+import { getItem } from "./items.js";
+import { fetchAllTimeLogs } from "./pagination.js";
+import { mapConcurrent } from "./rateLimit.js";
+import { userLabel } from "./resolver.js";
+import { Board, Item, Row, TimeLog, User } from "./types.js";
+
+// ============================================================================
+// TIME REPORT - aggregate /timelogs by user, board, row, tag, item or period,
+// with totals and an optional comparison against per-item estimates
+// ============================================================================
+
+type Dimension = "user" | "board" | "row" | "tag" | "item" | "day" | "week" | "month";
+
+const DIMENSIONS: Dimension[] = ["user", "board", "row", "tag", "item", "day", "week", "month"];
+const TIME_DIMENSIONS = new Set<Dimension>(["day", "week", "month"]);
+const ITEM_LOOKUP_CONCURRENCY = 4;
+
+export const timeReportTools: Tool[] = [
+  {
+    name: "time_report",
+    description: "Aggregate time logs into a table with totals, grouped by user, board, row, tag, item, day, week or month (up to three levels, e.g. user then week). Long date ranges are fetched in chunks. Grouping by item can compare logged hours with an estimate custom field. Returns JSON, a Markdown table or CSV, inline or written to outputPath.",
+    // Writes a local file when given outputPath
+    annotations: { readOnlyHint: false, destructiveHint: false },
+    inputSchema: {
+      type: "object",
+      properties: {
+        workspaceId: { type: "string", description: "Workspace UUID, name or display ID" },
+        startDate: { type: "string", format: "date-time", description: "Start date (ISO 8601 UTC)" },
+        endDate: { type: "string", format: "date-time", description: "End date (ISO 8601 UTC)" },
+        boardIds: { type: "array", items: { type: "string" }, description: "Filter by board UUIDs or names" },
+        rowIds: { type: "array", items: { type: "string" }, description: "Filter by row UUIDs or names" },
+        userIds: { type: "array", items: { type: "string" }, description: "Filter by user UUIDs, names or emails" },
+        tags: { type: "array", items: { type: "string" }, description: "Filter by tags" },
+        groupBy: {
+          type: "array",
+          items: { type: "string", enum: DIMENSIONS },
+          description: "Grouping levels, outermost first (default [\"user\"]). A log with several tags counts under each of them.",
+        },
+        estimateField: { type: "string", description: "Custom field holding an item's estimated hours; adds estimate and remaining columns when grouping by item" },
+        format: { type: "string", enum: ["json", "markdown", "csv"], description: "Output format (default json)" },
+        outputPath: { type: "string", description: "Write the report to this local file instead of returning it" },
+        overwrite: { type: "boolean", description: "Replace outputPath if it already exists (default false)" },
+      },
+      required: ["workspaceId", "startDate", "endDate"],
+    },
+  },
+];
+
+interface ReportRow {
+  // Label per dimension, plus <dimension>Id for entities
+  [column: string]: string | number | null | undefined;
+  hours: number;
+  entries: number;
+}
+
+function logHours(log: TimeLog): number {
+  return (log.hours ?? 0) + (log.minutes ?? 0) / 60;
+}
+
+function round(hours: number): number {
+  return Math.round(hours * 100) / 100;
+}
+
+// ISO 8601 week, e.g. 2024-W05 (weeks start on Monday)
+export function isoWeek(date: Date): string {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const weekday = day.getUTCDay() || 7;
+  day.setUTCDate(day.getUTCDate() + 4 - weekday);
+  const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((day.getTime() - yearStart) / 86400000 + 1) / 7);
+  return `${day.getUTCFullYear()}-W${String(week).padStart(2, "0")}`;
+}
+
+function periodKey(dimension: Dimension, log: TimeLog): string {
+  const date = log.date ? new Date(log.date) : undefined;
+  if (!date || Number.isNaN(date.getTime())) return "(no date)";
+  const iso = date.toISOString();
+  if (dimension === "day") return iso.slice(0, 10);
+  if (dimension === "month") return iso.slice(0, 7);
+  return isoWeek(date);
+}
+
+// Keys a log falls under for one dimension (several for multi-tag logs)
+function keysFor(dimension: Dimension, log: TimeLog): string[] {
+  switch (dimension) {
+    case "user":
+      return [log.userId ?? ""];
+    case "board":
+      return [log.boardId ?? ""];
+    case "row":
+      return [log.rowId ?? ""];
+    case "item":
+      return [log.itemId ?? ""];
+    case "tag":
+      return log.tags && log.tags.length > 0 ? log.tags : [""];
+    default:
+      return [periodKey(dimension, log)];
+  }
+}
+
+function parseEstimate(item: Item | undefined, field: string): number | undefined {
+  const raw = item?.customFields?.find((f) => f.name.toLowerCase() === field.toLowerCase())?.value;
+  if (raw === undefined) return undefined;
+  const hours = parseFloat(raw.replace(",", "."));
+  return Number.isFinite(hours) ? hours : undefined;
+}
+
+// Names for every ID that appears in the grouped columns
+async function loadLabels(
+  workspaceId: string,
+  logs: TimeLog[],
+  groupBy: Dimension[]
+): Promise<{ label: (dimension: Dimension, key: string) => string; items: Map<string, Item> }> {
+  const labels = new Map<string, string>();
+  const items = new Map<string, Item>();
+
+  if (groupBy.includes("user")) {
+    for (const user of await apiRequest<User[]>("/users")) labels.set(`user:${user.id}`, userLabel(user));
+  }
+  if (groupBy.includes("board") || groupBy.includes("row")) {
+    const boards = await apiRequest<Board[]>(`/workspaces/${workspaceId}/boards`);
+    for (const board of boards) labels.set(`board:${board.id}`, board.title ?? board.id);
+  }
+  if (groupBy.includes("row")) {
+    const boardIds = [...new Set(logs.map((log) => log.boardId).filter((id): id is string => !!id))];
+    for (const boardId of boardIds) {
+      const board = labels.get(`board:${boardId}`);
+      for (const row of await apiRequest<Row[]>(`/boards/${boardId}/rows`)) {
+        labels.set(`row:${row.id}`, board ? `${board} / ${row.title ?? row.id}` : (row.title ?? row.id));
+      }
+    }
+  }
+  if (groupBy.includes("item")) {
+    const itemIds = [...new Set(logs.map((log) => log.itemId).filter((id): id is string => !!id))];
+    const fetched = await mapConcurrent(itemIds, ITEM_LOOKUP_CONCURRENCY, async (id) => {
+      try {
+        return await getItem(id);
+      } catch {
+        // Deleted items still have logs; they are reported by ID
+        return { id } as Item;
+      }
+    });
+    for (const item of fetched) {
+      items.set(item.id, item);
+      const title = [item.displayId, item.title].filter(Boolean).join(" ");
+      labels.set(`item:${item.id}`, title || item.id);
+    }
+  }
+
+  const label = (dimension: Dimension, key: string): string => {
+    if (TIME_DIMENSIONS.has(dimension) || dimension === "tag") return key || "(no tag)";
+    if (!key) return `(no ${dimension})`;
+    return labels.get(`${dimension}:${key}`) ?? key;
+  };
+  return { label, items };
+}
+
+function aggregate(
+  logs: TimeLog[],
+  groupBy: Dimension[],
+  label: (dimension: Dimension, key: string) => string
+): Array<{ keys: string[]; hours: number; entries: number }> {
+  const groups = new Map<string, { keys: string[]; hours: number; entries: number }>();
+  for (const log of logs) {
+    // Cartesian product of the keys of every dimension
+    let combinations: string[][] = [[]];
+    for (const dimension of groupBy) {
+      combinations = combinations.flatMap((prefix) => keysFor(dimension, log).map((key) => [...prefix, key]));
+    }
+    for (const keys of combinations) {
+      const id = JSON.stringify(keys);
+      const group = groups.get(id) ?? { keys, hours: 0, entries: 0 };
+      group.hours += logHours(log);
+      group.entries += 1;
+      groups.set(id, group);
+    }
+  }
+
+  // Periods in calendar order, everything else alphabetically
+  return [...groups.values()].sort((a, b) => {
+    for (let i = 0; i < groupBy.length; i++) {
+      const left = TIME_DIMENSIONS.has(groupBy[i]) ? a.keys[i] : label(groupBy[i], a.keys[i]);
+      const right = TIME_DIMENSIONS.has(groupBy[i]) ? b.keys[i] : label(groupBy[i], b.keys[i]);
+      const order = left.localeCompare(right);
+      if (order !== 0) return order;
+    }
+    return 0;
+  });
+}
+
+function renderTable(groupBy: Dimension[], rows: ReportRow[], total: ReportRow, withEstimates: boolean): string {
+  const columns = [...groupBy, "hours", "entries", ...(withEstimates ? ["estimate", "remaining"] : [])];
+  const cell = (value: unknown) => (value === undefined || value === null ? "" : String(value).replace(/\|/g, "\\|"));
+  const lines = [
+    `| ${columns.join(" | ")} |`,
+    `| ${columns.map((c) => (groupBy.includes(c as Dimension) ? "---" : "---:")).join(" | ")} |`,
+    ...rows.map((row) => `| ${columns.map((c) => cell(row[c])).join(" | ")} |`),
+    `| ${columns.map((c, i) => (i === 0 ? "**Total**" : groupBy.includes(c as Dimension) ? "" : `**${cell(total[c])}**`)).join(" | ")} |`,
+  ];
+  return `${lines.join("\n")}\n`;
+}
+
+export async function handleTimeReportTool(name: string, args: Record<string, unknown>): Promise<unknown> {
+  if (name !== "time_report") throw new Error(`Unknown tool: ${name}`);
+
+  const groupBy = (args.groupBy as Dimension[] | undefined) ?? ["user"];
+  if (groupBy.length === 0 || groupBy.length > 3 || new Set(groupBy).size !== groupBy.length) {
+    throw new Error("groupBy takes one to three distinct dimensions");
+  }
+  const format = (args.format as string | undefined) ?? "json";
+  const outputPath = outputPathFrom(args);
+  const estimateField = args.estimateField as string | undefined;
+  const withEstimates = estimateField !== undefined && groupBy.includes("item");
+
+  const workspaceId = args.workspaceId as string;
+  const { records: logs, windows } = await fetchAllTimeLogs(
+    {
+      workspaceId,
+      boardIds: args.boardIds as string[] | undefined,
+      rowIds: args.rowIds as string[] | undefined,
+      userIds: args.userIds as string[] | undefined,
+      tags: args.tags as string[] | undefined,
+    },
+    args.startDate as string,
+    args.endDate as string
+  );
+
+  const { label, items } = await loadLabels(workspaceId, logs, groupBy);
+  const itemIndex = groupBy.indexOf("item");
+  const rows: ReportRow[] = aggregate(logs, groupBy, label).map((group) => {
+    const row: ReportRow = { hours: round(group.hours), entries: group.entries };
+    groupBy.forEach((dimension, i) => {
+      row[dimension] = label(dimension, group.keys[i]);
+      if (!TIME_DIMENSIONS.has(dimension) && dimension !== "tag" && group.keys[i]) row[`${dimension}Id`] = group.keys[i];
+    });
+    if (withEstimates) {
+      const estimate = parseEstimate(items.get(group.keys[itemIndex]), estimateField!);
+      row.estimate = estimate ?? null;
+      row.remaining = estimate === undefined ? null : round(estimate - group.hours);
+    }
+    return row;
+  });
+
+  const totalHours = round(logs.reduce((sum, log) => sum + logHours(log), 0));
+  const total: ReportRow = { hours: totalHours, entries: logs.length };
+  if (withEstimates) {
+    // An item spans several rows when grouped by another dimension too, but
+    // its estimate counts once, against all hours logged on it
+    const estimates = new Map<string, number>();
+    for (const row of rows) {
+      if (typeof row.estimate === "number") estimates.set(row.itemId as string, row.estimate);
+    }
+    const estimatedHours = logs
+      .filter((log) => estimates.has(keysFor("item", log)[0]))
+      .reduce((sum, log) => sum + logHours(log), 0);
+    const estimate = [...estimates.values()].reduce((sum, value) => sum + value, 0);
+    total.estimate = round(estimate);
+    total.remaining = round(estimate - estimatedHours);
+  }
+
+  const notes: string[] = [];
+  if (groupBy.includes("tag")) notes.push("Logs with several tags count under each tag, so row hours can add up to more than the total.");
+  if (withEstimates) notes.push(`Estimates are read from the "${estimateField}" custom field; remaining = estimate - hours logged in this period.`);
+  if (estimateField && !withEstimates) notes.push("estimateField is only used when grouping by item.");
+
+  let content: unknown;
+  if (format === "markdown") {
+    content = `${renderTable(groupBy, rows, total, withEstimates)}${notes.map((n) => `\n_${n}_\n`).join("")}`;
+  } else if (format === "csv") {
+    const columns = [...groupBy, "hours", "entries", ...(withEstimates ? ["estimate", "remaining"] : [])];
+    content = toCsv(columns, [...rows, { ...total, [groupBy[0]]: "Total" }]);
+  } else {
+    content = {
+      workspaceId,
+      startDate: args.startDate,
+      endDate: args.endDate,
+      windows,
+      groupBy,
+      logCount: logs.length,
+      totalHours,
+      total,
+      rows,
+      notes,
+    };
+  }
+
+  if (!outputPath) return content;
+  const text = typeof content === "string" ? content : `${JSON.stringify(content, null, 2)}\n`;
+  await writeLocalFile(outputPath, text, args.overwrite === true);
+  return { path: outputPath, format, rows: rows.length, totalHours };
+}
@@ -0,0 +1,172 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { randomUUID, timingSafeEqual } from "crypto";
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from "http";
+
+// ============================================================================
+// TRANSPORTS - stdio for a local process, or an HTTP server that several MCP
+// clients can share (Streamable HTTP at /mcp, legacy SSE at /sse + /messages)
+// ============================================================================
+
+export interface TransportOptions {
+  transport: "stdio" | "http";
+  host: string;
+  port: number;
+  authToken?: string;
+}
+
+const MAX_BODY_BYTES = 32 * 1024 * 1024; // room for base64 attachment uploads
+
+// CLI flags (--transport, --port, --host) win over environment variables
+export function parseTransportOptions(argv: string[], env: NodeJS.ProcessEnv = process.env): TransportOptions {
+  const flags: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const match = argv[i].match(/^--(transport|port|host)(?:=(.*))?$/);
+    if (!match) continue;
+    const value = match[2] ?? argv[++i];
+    if (value === undefined) throw new Error(`Missing value for --${match[1]}`);
+    flags[match[1]] = value;
+  }
+
+  const transport = (flags.transport ?? env.TEAMHOOD_MCP_TRANSPORT ?? "stdio").toLowerCase();
+  if (!["stdio", "http", "sse", "streamable-http"].includes(transport)) {
+    throw new Error(`Unknown transport "${transport}" (expected stdio or http)`);
+  }
+
+  const port = Number(flags.port ?? env.TEAMHOOD_MCP_PORT ?? 3000);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port "${flags.port ?? env.TEAMHOOD_MCP_PORT}"`);
+  }
+
+  return {
+    transport: transport === "stdio" ? "stdio" : "http",
+    host: flags.host ?? env.TEAMHOOD_MCP_HOST ?? "127.0.0.1",
+    port,
+    authToken: env.TEAMHOOD_MCP_AUTH_TOKEN || undefined,
+  };
+}
+
+function isLoopback(host: string): boolean {
+  return host === "localhost" || host === "::1" || host.startsWith("127.");
+}
+
+function isAuthorized(req: IncomingMessage, token: string | undefined): boolean {
+  if (!token) return true;
+  const header = req.headers.authorization ?? "";
+  const presented = Buffer.from(header.replace(/^Bearer\s+/i, ""));
+  const expected = Buffer.from(token);
+  return /^Bearer\s+/i.test(header) && presented.length === expected.length && timingSafeEqual(presented, expected);
+}
+
+function sendJsonError(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new Error("Request body too large");
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString("utf-8");
+  return text ? JSON.parse(text) : undefined;
+}
+
+async function startHttp(createServer: () => Server, options: TransportOptions): Promise<void> {
+  if (!options.authToken && !isLoopback(options.host)) {
+    throw new Error(`Refusing to listen on ${options.host} without TEAMHOOD_MCP_AUTH_TOKEN; set a token or bind to 127.0.0.1`);
+  }
+
+  // One MCP server instance per client session
+  const streamable = new Map<string, StreamableHTTPServerTransport>();
+  const legacySse = new Map<string, SSEServerTransport>();
+
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse) => {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+    let transport = sessionId ? streamable.get(sessionId) : undefined;
+    if (!transport) {
+      if (sessionId || req.method !== "POST" || !isInitializeRequest(body)) {
+        sendJsonError(res, sessionId ? 404 : 400, sessionId ? "Unknown session" : "No session: send an initialize request first");
+        return;
+      }
+      const created = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          streamable.set(id, created);
+        },
+      });
+      created.onclose = () => {
+        if (created.sessionId) streamable.delete(created.sessionId);
+      };
+      await createServer().connect(created);
+      transport = created;
+    }
+
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSse = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    if (req.method === "GET" && url.pathname === "/sse") {
+      const transport = new SSEServerTransport("/messages", res);
+      legacySse.set(transport.sessionId, transport);
+      res.on("close", () => legacySse.delete(transport.sessionId));
+      await createServer().connect(transport);
+      return;
+    }
+    const transport = legacySse.get(url.searchParams.get("sessionId") ?? "");
+    if (!transport) {
+      sendJsonError(res, 404, "Unknown SSE session");
+      return;
+    }
+    await transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const httpServer = createHttpServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    try {
+      if (url.pathname === "/health") {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ status: "ok" }));
+        return;
+      }
+      if (!isAuthorized(req, options.authToken)) {
+        res.setHeader("WWW-Authenticate", "Bearer");
+        sendJsonError(res, 401, "Missing or invalid bearer token");
+        return;
+      }
+      if (url.pathname === "/mcp") {
+        await handleStreamable(req, res);
+      } else if (url.pathname === "/sse" || (url.pathname === "/messages" && req.method === "POST")) {
+        await handleSse(req, res, url);
+      } else {
+        sendJsonError(res, 404, "Not found");
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!res.headersSent) sendJsonError(res, 400, message);
+      else res.end();
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, resolve);
+  });
+  console.error(`teamhood-mcp listening on http://${options.host}:${options.port} (Streamable HTTP: /mcp, SSE: /sse)`);
+}
+
+export async function startTransport(createServer: () => Server, options: TransportOptions): Promise<void> {
+  if (options.transport === "stdio") {
+    await createServer().connect(new StdioServerTransport());
+    return;
+  }
+  await startHttp(createServer, options);
+}
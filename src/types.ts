@@ -0,0 +1,127 @@
+// ============================================================================
+// TEAMHOOD DOMAIN MODEL
+// ============================================================================
+// Shapes returned by the Teamhood API v1. Only `id` is guaranteed; the API
+// omits empty fields, so everything else is optional.
+
+export type DependencyDirection = "FinishToStart" | "StartToStart" | "FinishToFinish" | "StartToFinish";
+
+export interface Dependency {
+  itemId: string;
+  direction: DependencyDirection;
+}
+
+export interface CustomFieldValue {
+  name: string;
+  value: string;
+}
+
+export interface Workspace {
+  id: string;
+  title?: string;
+  displayId?: string;
+  icon?: string;
+  color?: number;
+  ownerId?: string;
+  archived?: boolean;
+}
+
+export interface Board {
+  id: string;
+  workspaceId?: string;
+  title?: string;
+  displayId?: string;
+  viewType?: "Kanban" | "Gantt" | "List" | "Overview";
+  archived?: boolean;
+}
+
+export interface Status {
+  id: string;
+  boardId?: string;
+  title?: string;
+  order?: number;
+  isCompleted?: boolean;
+}
+
+export interface Row {
+  id: string;
+  boardId?: string;
+  title?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface Item {
+  id: string;
+  displayId?: string;
+  workspaceId?: string;
+  boardId?: string;
+  statusId?: string;
+  rowId?: string;
+  parentId?: string;
+  title?: string;
+  description?: string;
+  assignedUserId?: string;
+  ownerId?: string;
+  startDate?: string;
+  dueDate?: string;
+  createdOn?: string;
+  modifiedOn?: string;
+  completedOn?: string;
+  completed?: boolean;
+  archived?: boolean;
+  milestone?: boolean;
+  progress?: number;
+  color?: number;
+  tags?: string[];
+  customFields?: CustomFieldValue[];
+  blocking?: Dependency[];
+  waiting?: Dependency[];
+}
+
+export interface Attachment {
+  id: string;
+  itemId?: string;
+  name?: string;
+  size?: number;
+  contentType?: string;
+  createdOn?: string;
+}
+
+export interface User {
+  id: string;
+  email?: string;
+  fullName?: string;
+  firstName?: string;
+  lastName?: string;
+}
+
+export interface TimeLog {
+  id: string;
+  itemId?: string;
+  userId?: string;
+  boardId?: string;
+  rowId?: string;
+  date?: string;
+  hours?: number;
+  minutes?: number;
+  description?: string;
+  tags?: string[];
+}
+
+export interface Activity {
+  id: string;
+  itemId?: string;
+  userId?: string;
+  date?: string;
+  type?: string;
+  field?: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+}
+
+export interface Template {
+  id: string;
+  name?: string;
+  title?: string;
+}
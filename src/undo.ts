@@ -0,0 +1,191 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { apiRequest } from "./api.js";
+import { getItem, itemFieldValue, restorePayload, updateItem } from "./items.js";
+import { JournalRecord, journalEnabled, journalPath, readJournal, recordUndo } from "./journal.js";
+import { logMessage } from "./logging.js";
+import { currentProfile } from "./profiles.js";
+import { Item } from "./types.js";
+
+// ============================================================================
+// UNDO - list journaled item changes and restore the previous field values
+// ============================================================================
+
+export const undoTools: Tool[] = [
+  {
+    name: "list_recent_changes",
+    description: "List recent item changes made through this server (update, move, archive, delete, bulk operations), newest first, with the values before and after. Use the changeId with undo_change.",
+    annotations: { readOnlyHint: true },
+    inputSchema: {
+      type: "object",
+      properties: {
+        itemId: { type: "string", description: "Only changes to this item UUID" },
+        limit: { type: "integer", minimum: 1, maximum: 500, description: "Number of changes to return (default 20)" },
+        includeUndone: { type: "boolean", description: "Include changes that were already undone (default true)" },
+      },
+    },
+  },
+  {
+    name: "undo_change",
+    description: "Undo a journaled change: restores the previous field values, or recreates a deleted item with create_item (it gets a new ID; attachments, comments and time logs are not restored). Refuses when the item was changed again since, unless force is set.",
+    annotations: { readOnlyHint: false, destructiveHint: true },
+    inputSchema: {
+      type: "object",
+      properties: {
+        changeId: { type: "string", description: "Change ID from list_recent_changes" },
+        force: { type: "boolean", description: "Restore even if the fields were modified after this change" },
+        dryRun: { type: "boolean", description: "Show what would be restored without changing anything" },
+      },
+      required: ["changeId"],
+    },
+  },
+];
+
+function summarize(record: JournalRecord) {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  for (const [key, to] of Object.entries(record.changes)) {
+    changes[key] = { from: itemFieldValue(record.before, key), to };
+  }
+  return {
+    changeId: record.id,
+    timestamp: record.timestamp,
+    tool: record.tool,
+    profile: record.profile,
+    operation: record.operation,
+    itemId: record.itemId,
+    title: record.before.title,
+    changes: record.operation === "update" ? changes : undefined,
+    undoneAt: record.undoneAt,
+    recreatedItemId: record.recreatedItemId,
+  };
+}
+
+async function findChange(changeId: string): Promise<JournalRecord> {
+  const record = (await readJournal()).find((entry) => entry.id === changeId);
+  if (!record) throw new Error(`Change ${changeId} not found in ${journalPath()}. Use list_recent_changes to find valid IDs.`);
+  if (record.undoneAt) throw new Error(`Change ${changeId} was already undone at ${record.undoneAt}`);
+  const profile = currentProfile().name;
+  // Entries written before profiles existed carry none
+  if (record.profile && record.profile !== profile) {
+    throw new Error(`Change ${changeId} was made with profile "${record.profile}"; call undo_change with profile "${record.profile}"`);
+  }
+  return record;
+}
+
+// The restore has already happened at this point, so a journal write that
+// fails is reported as a warning rather than failing the call
+async function markUndone(record: JournalRecord, recreatedItemId?: string): Promise<string | undefined> {
+  try {
+    await recordUndo(record.id, recreatedItemId);
+    return undefined;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    const warning = `Change ${record.id} was undone but not marked as undone in the journal: ${reason}`;
+    await logMessage("warning", "teamhood-journal", warning);
+    return warning;
+  }
+}
+
+async function undoUpdate(record: JournalRecord, force: boolean, dryRun: boolean): Promise<unknown> {
+  const current = await getItem(record.itemId);
+  // Fields that no longer hold the value this change wrote
+  const conflicts = Object.entries(record.changes)
+    .filter(([key, value]) => JSON.stringify(itemFieldValue(current, key)) !== JSON.stringify(value))
+    .map(([key, value]) => ({ field: key, setByChange: value, current: itemFieldValue(current, key) }));
+  if (conflicts.length > 0 && !force && !dryRun) {
+    throw new Error(
+      `Item ${record.itemId} was modified after this change (${conflicts.map((c) => c.field).join(", ")}). ` +
+        "Review with dryRun or pass force to restore anyway."
+    );
+  }
+
+  const restore = restorePayload(record.before, record.changes);
+  if (dryRun) return { dryRun: true, changeId: record.id, itemId: record.itemId, restore, conflicts };
+
+  await updateItem(record.itemId, restore, "undo_change");
+  const warning = await markUndone(record);
+  return { undone: true, changeId: record.id, itemId: record.itemId, restored: restore, warning };
+}
+
+async function undoDelete(record: JournalRecord, dryRun: boolean): Promise<unknown> {
+  const before = record.before;
+  const payload = {
+    workspaceId: before.workspaceId,
+    boardId: before.boardId,
+    statusId: before.statusId,
+    title: before.title,
+    description: before.description,
+    rowId: before.rowId,
+    assignedUserId: before.assignedUserId,
+    startDate: before.startDate,
+    dueDate: before.dueDate,
+    color: before.color,
+    tags: before.tags ?? [],
+    customFields: before.customFields ?? [],
+    blocking: before.blocking ?? [],
+    waiting: before.waiting ?? [],
+    milestone: before.milestone ?? false,
+    isSuspended: false,
+    suspendReason: "",
+  };
+  // Fields create_item does not accept are applied with a follow-up update
+  const followUp: Record<string, unknown> = {};
+  if (before.parentId) followUp.parentId = before.parentId;
+  if (before.progress !== undefined) followUp.progress = before.progress;
+  if (before.archived) followUp.archived = true;
+
+  const lost = "Original ID, attachments, comments, time logs and history cannot be restored.";
+  if (dryRun) return { dryRun: true, changeId: record.id, recreate: payload, followUp, note: lost };
+
+  // Mark the change undone as soon as the copy exists, so that a retry after
+  // a later failure cannot create a second one
+  const created = await apiRequest<Item>("/items", "POST", payload);
+  const warnings: string[] = [];
+  const journalWarning = await markUndone(record, created.id);
+  if (journalWarning) warnings.push(journalWarning);
+  if (Object.keys(followUp).length > 0 && created.id) {
+    try {
+      await updateItem(created.id, followUp, "undo_change");
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      warnings.push(`Item ${created.id} was recreated, but ${Object.keys(followUp).join(", ")} could not be restored: ${reason}`);
+    }
+  }
+  return {
+    undone: true,
+    changeId: record.id,
+    deletedItemId: record.itemId,
+    recreatedItemId: created.id,
+    note: lost,
+    warnings: warnings.length > 0 ? warnings : undefined,
+  };
+}
+
+export async function handleUndoTool(name: string, args: Record<string, unknown>): Promise<unknown> {
+  if (!journalEnabled()) {
+    throw new Error("The change journal is disabled (TEAMHOOD_JOURNAL=false), so there is nothing to list or undo");
+  }
+
+  switch (name) {
+    case "list_recent_changes": {
+      const limit = (args.limit as number | undefined) ?? 20;
+      const profile = currentProfile().name;
+      const changes = (await readJournal())
+        .filter((entry) => (entry.profile ?? profile) === profile)
+        .filter((entry) => !args.itemId || entry.itemId === args.itemId)
+        .filter((entry) => args.includeUndone !== false || !entry.undoneAt)
+        .slice(0, limit)
+        .map(summarize);
+      return { journal: journalPath(), changes };
+    }
+
+    case "undo_change": {
+      const record = await findChange(args.changeId as string);
+      return record.operation === "delete"
+        ? undoDelete(record, args.dryRun === true)
+        : undoUpdate(record, args.force === true, args.dryRun === true);
+    }
+
+    default:
+      throw new Error(`Unknown tool: ${name}`);
+  }
+}
@@ -0,0 +1,174 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { fieldHint, ValidationError } from "./errors.js";
+
+// ============================================================================
+// VALIDATION - reject bad tool arguments before any HTTP call, and fail
+// loudly when the API returns something we do not understand
+// ============================================================================
+
+// Subset of JSON Schema used by the tool definitions
+interface SchemaNode {
+  type?: string;
+  enum?: unknown[];
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  items?: SchemaNode;
+  properties?: Record<string, SchemaNode>;
+  // Schema for keys not listed in properties (free-form maps)
+  additionalProperties?: SchemaNode;
+  required?: string[];
+}
+
+const ISO_8601 = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+export function isIsoDate(value: string): boolean {
+  return ISO_8601.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "string") return `"${value.length > 40 ? `${value.slice(0, 40)}...` : value}"`;
+  if (typeof value === "object") return "object";
+  return String(value);
+}
+
+function checkNode(path: string, value: unknown, schema: SchemaNode, errors: string[]): void {
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string") {
+        errors.push(`${path} must be a string (got ${describeValue(value)})`);
+        return;
+      }
+      if (schema.format === "date-time" && !isIsoDate(value)) {
+        errors.push(`${path} must be an ISO 8601 date such as 2024-02-05 or 2024-02-05T14:00:00Z (got ${describeValue(value)})`);
+      }
+      break;
+    case "number":
+    case "integer":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        errors.push(`${path} must be a number (got ${describeValue(value)})`);
+        return;
+      }
+      if (schema.type === "integer" && !Number.isInteger(value)) {
+        errors.push(`${path} must be a whole number (got ${value})`);
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push(`${path} must be >= ${schema.minimum} (got ${value})`);
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push(`${path} must be <= ${schema.maximum} (got ${value})`);
+      }
+      break;
+    case "boolean":
+      if (typeof value !== "boolean") {
+        errors.push(`${path} must be true or false (got ${describeValue(value)})`);
+        return;
+      }
+      break;
+    case "array":
+      if (!Array.isArray(value)) {
+        errors.push(`${path} must be an array (got ${describeValue(value)})`);
+        return;
+      }
+      if (schema.items) {
+        value.forEach((element, index) => checkNode(`${path}[${index}]`, element, schema.items!, errors));
+      }
+      return;
+    case "object":
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        errors.push(`${path} must be an object (got ${describeValue(value)})`);
+        return;
+      }
+      checkObject(path, value as Record<string, unknown>, schema, errors);
+      return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path} must be one of ${schema.enum.map((e) => JSON.stringify(e)).join(", ")} (got ${describeValue(value)})`);
+  }
+}
+
+function checkObject(path: string, value: Record<string, unknown>, schema: SchemaNode, errors: string[]): void {
+  const properties = schema.properties ?? {};
+  const prefix = path ? `${path}.` : "";
+
+  for (const key of schema.required ?? []) {
+    if (value[key] === undefined || value[key] === null || value[key] === "") {
+      errors.push(`${prefix}${key} is required`);
+    }
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    // null is treated like an omitted optional argument
+    if (child === undefined || child === null) continue;
+    const childSchema = properties[key] ?? schema.additionalProperties;
+    if (!childSchema) {
+      errors.push(`${prefix}${key} is not a recognised argument (expected one of: ${Object.keys(properties).join(", ") || "none"})`);
+      continue;
+    }
+    checkNode(`${prefix}${key}`, child, childSchema, errors);
+  }
+}
+
+export function validateToolArgs(tool: Tool, args: Record<string, unknown>): void {
+  const errors: string[] = [];
+  checkObject("", args, tool.inputSchema as SchemaNode, errors);
+  if (errors.length > 0) {
+    // Errors start with the argument path, e.g. "statusId must be a string"
+    const field = errors[0].split(/[\s.[]/)[0];
+    throw new ValidationError(`Invalid arguments for ${tool.name}: ${errors.join("; ")}`, { field, hint: fieldHint(field) });
+  }
+}
+
+// ----------------------------------------------------------------------------
+// API responses
+// ----------------------------------------------------------------------------
+type ResponseCheck = (value: unknown) => string | undefined;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const recordWithId: ResponseCheck = (value) => {
+  if (!isRecord(value)) return `expected an object, got ${describeValue(value)}`;
+  if (typeof value.id !== "string") return "expected an object with a string id";
+  return undefined;
+};
+
+const listOfRecords: ResponseCheck = (value) => {
+  if (!Array.isArray(value)) return `expected an array, got ${describeValue(value)}`;
+  const index = value.findIndex((entry) => recordWithId(entry) !== undefined);
+  return index === -1 ? undefined : `element ${index} is not an object with a string id`;
+};
+
+// List endpoints that may wrap their results in a paging envelope
+const listOrEnvelope: ResponseCheck = (value) => {
+  if (Array.isArray(value)) return listOfRecords(value);
+  if (isRecord(value) && Object.values(value).some(Array.isArray)) return undefined;
+  return `expected an array or a paged result, got ${describeValue(value)}`;
+};
+
+const RESPONSE_CHECKS: Array<{ method: string; pattern: RegExp; check: ResponseCheck }> = [
+  { method: "GET", pattern: /^\/workspaces$/, check: listOfRecords },
+  { method: "GET", pattern: /^\/workspaces\/[^/?]+$/, check: recordWithId },
+  { method: "GET", pattern: /^\/workspaces\/[^/?]+\/boards$/, check: listOfRecords },
+  { method: "GET", pattern: /^\/boards\/[^/?]+\/(statuses|rows)$/, check: listOfRecords },
+  { method: "GET", pattern: /^\/users$/, check: listOfRecords },
+  { method: "GET", pattern: /^\/templates\/(workspace|board)$/, check: listOfRecords },
+  { method: "GET", pattern: /^\/items(\?.*)?$/, check: listOrEnvelope },
+  { method: "GET", pattern: /^\/items\/[^/?]+$/, check: recordWithId },
+  { method: "GET", pattern: /^\/items\/[^/?]+\/attachments$/, check: listOfRecords },
+  { method: "GET", pattern: /^\/attachments\/[^/?]+$/, check: recordWithId },
+  { method: "GET", pattern: /^\/logs\?/, check: listOrEnvelope },
+  { method: "POST", pattern: /^\/timelogs$/, check: listOrEnvelope },
+  { method: "POST", pattern: /^\/boards\/[^/?]+\/item-activities$/, check: listOrEnvelope },
+];
+
+export function validateResponse(endpoint: string, method: string, value: unknown): void {
+  const rule = RESPONSE_CHECKS.find((r) => r.method === method && r.pattern.test(endpoint));
+  const problem = rule?.check(value);
+  if (problem) {
+    throw new Error(`Unexpected API response from ${method} ${endpoint.split("?")[0]}: ${problem}`);
+  }
+}
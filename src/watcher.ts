@@ -0,0 +1,379 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { LoggingLevel, Tool } from "@modelcontextprotocol/sdk/types.js";
+import { randomUUID } from "crypto";
+import { fetchAllActivities, fetchAllItems } from "./pagination.js";
+import { currentProfile, withProfile } from "./profiles.js";
+import { Activity, Item } from "./types.js";
+
+// ============================================================================
+// CHANGE WATCHER - opt-in polling of boards for item changes, pushed to the
+// client as MCP logging notifications (watch_board) or resources/updated
+// notifications (resource subscriptions), plus a stateless get_changes_since
+// for clients that cannot receive notifications
+// ============================================================================
+
+const DEFAULT_INTERVAL_SECONDS = 60;
+const MAX_WATCHES = 10;
+const MAX_FAILURES = 5;
+const MAX_RECORDS = 2000;
+// Re-read a few seconds before the previous poll so changes saved while it
+// ran are not missed; unchanged items are filtered out by the diff
+const POLL_OVERLAP_MS = 5_000;
+const LOGGER = "teamhood-watch";
+
+// Fields compared between snapshots
+const WATCHED_FIELDS: Array<keyof Item> = [
+  "title", "statusId", "rowId", "boardId", "assignedUserId", "parentId",
+  "startDate", "dueDate", "completed", "archived", "progress", "tags",
+];
+
+export const watchTools: Tool[] = [
+  {
+    name: "watch_board",
+    description: "Start polling a board for item changes. Each change (created, assigned, moved, completed, archived, updated) is pushed to the client as a logging notification (logger \"teamhood-watch\") with the fields that changed. Watches last for this session; stop them with unwatch.",
+    annotations: { readOnlyHint: true },
+    inputSchema: {
+      type: "object",
+      properties: {
+        boardId: { type: "string", description: "Board UUID, name or display ID" },
+        intervalSeconds: { type: "integer", minimum: 15, maximum: 3600, description: `Polling interval (default ${DEFAULT_INTERVAL_SECONDS})` },
+        assigneeId: { type: "string", description: "Only report items assigned to (or unassigned from) this user UUID, name or email" },
+      },
+      required: ["boardId"],
+    },
+  },
+  {
+    name: "unwatch",
+    description: "Stop a board watch started with watch_board",
+    annotations: { readOnlyHint: true },
+    inputSchema: {
+      type: "object",
+      properties: {
+        watchId: { type: "string", description: "Watch ID returned by watch_board" },
+      },
+      required: ["watchId"],
+    },
+  },
+  {
+    name: "list_watches",
+    description: "List the board watches active in this session",
+    annotations: { readOnlyHint: true },
+    inputSchema: { type: "object", properties: {} },
+  },
+  {
+    name: "get_changes_since",
+    description: "Items on a board created or modified since a point in time, each with its activity entries (who changed which field, old and new value). For clients without notifications: pass the returned nextSince on the following call.",
+    annotations: { readOnlyHint: true },
+    inputSchema: {
+      type: "object",
+      properties: {
+        boardId: { type: "string", description: "Board UUID, name or display ID" },
+        since: { type: "string", format: "date-time", description: "Report changes after this time (ISO 8601 UTC)" },
+        assigneeId: { type: "string", description: "Only items assigned to, or whose assignment changed involving, this user UUID, name or email" },
+        maxRecords: { type: "integer", minimum: 1, description: `Maximum items and activities to fetch (default ${MAX_RECORDS})` },
+      },
+      required: ["boardId", "since"],
+    },
+  },
+];
+
+type ChangeEvent = "created" | "assigned" | "moved" | "completed" | "reopened" | "archived" | "updated";
+
+interface ItemChange {
+  itemId: string;
+  displayId?: string;
+  title?: string;
+  events: ChangeEvent[];
+  fields: Record<string, { from: unknown; to: unknown }>;
+  changedBy?: string;
+}
+
+interface Watch {
+  id: string;
+  boardId: string;
+  profile: string;
+  intervalMs: number;
+  assigneeId?: string;
+  // Started by watch_board; otherwise the watch only serves subscriptions
+  logging: boolean;
+  // Subscribed resource URIs, with the item each one covers (all items for
+  // a board URI)
+  subscribers: Map<string, string | undefined>;
+  snapshot: Map<string, Item>;
+  lastPoll: number;
+  timer?: NodeJS.Timeout;
+  polling: boolean;
+  failures: number;
+  startedAt: string;
+  changesReported: number;
+}
+
+function diffSnapshot(before: Item | undefined, after: Item): ItemChange | undefined {
+  const fields: ItemChange["fields"] = {};
+  for (const field of WATCHED_FIELDS) {
+    if (JSON.stringify(before?.[field]) !== JSON.stringify(after[field])) {
+      fields[field] = { from: before?.[field], to: after[field] };
+    }
+  }
+  if (before && Object.keys(fields).length === 0) return undefined;
+
+  const events: ChangeEvent[] = [];
+  if (!before) events.push("created");
+  else {
+    if (fields.assignedUserId && after.assignedUserId) events.push("assigned");
+    if (fields.statusId || fields.rowId || fields.boardId) events.push("moved");
+    if (fields.completed) events.push(after.completed ? "completed" : "reopened");
+    if (fields.archived && after.archived) events.push("archived");
+    if (events.length === 0) events.push("updated");
+  }
+  return { itemId: after.id, displayId: after.displayId, title: after.title, events, fields };
+}
+
+function involvesUser(change: ItemChange, item: Item, userId: string): boolean {
+  const assignment = change.fields.assignedUserId;
+  return item.assignedUserId === userId || assignment?.from === userId || assignment?.to === userId;
+}
+
+// Items that changed since `since`, with the activities that explain them
+export async function changesSince(
+  boardId: string,
+  since: string,
+  until: string,
+  maxRecords = MAX_RECORDS
+): Promise<{ items: Item[]; activities: Activity[]; truncated: boolean }> {
+  const [items, activities] = await Promise.all([
+    fetchAllItems({ boardId, modifiedSince: since, includeChildItems: true }, maxRecords),
+    fetchAllActivities(boardId, since, until, maxRecords),
+  ]);
+  return { items: items.records, activities: activities.records, truncated: items.truncated || activities.truncated };
+}
+
+// ----------------------------------------------------------------------------
+// Watches
+// ----------------------------------------------------------------------------
+
+// One per MCP server instance, so notifications reach the client that asked
+// for them and watches end with its session
+export class ChangeWatcher {
+  private watches = new Map<string, Watch>();
+
+  constructor(private server: Server) {}
+
+  async watch(args: Record<string, unknown>): Promise<unknown> {
+    const { watch, truncated } = await this.start(
+      args.boardId as string,
+      ((args.intervalSeconds as number | undefined) ?? DEFAULT_INTERVAL_SECONDS) * 1000,
+      true
+    );
+    watch.assigneeId = args.assigneeId as string | undefined;
+    return {
+      watchId: watch.id,
+      boardId: watch.boardId,
+      profile: watch.profile,
+      intervalSeconds: watch.intervalMs / 1000,
+      items: watch.snapshot.size,
+      truncated,
+      notifications: `logging messages from logger "${LOGGER}"`,
+    };
+  }
+
+  // resources/subscribe: share the board's subscription watch, or start one
+  async subscribe(uri: string, boardId: string, itemId?: string): Promise<void> {
+    const profile = currentProfile().name;
+    const existing = [...this.watches.values()].find((w) => !w.logging && w.boardId === boardId && w.profile === profile);
+    const watch = existing ?? (await this.start(boardId, DEFAULT_INTERVAL_SECONDS * 1000, false)).watch;
+    watch.subscribers.set(uri, itemId);
+  }
+
+  unsubscribe(uri: string): void {
+    for (const watch of this.watches.values()) {
+      watch.subscribers.delete(uri);
+      if (!watch.logging && watch.subscribers.size === 0) this.stop(watch);
+    }
+  }
+
+  private async start(boardId: string, intervalMs: number, logging: boolean): Promise<{ watch: Watch; truncated: boolean }> {
+    if (this.watches.size >= MAX_WATCHES) {
+      throw new Error(`At most ${MAX_WATCHES} watches per session; stop one with unwatch first`);
+    }
+    const startedAt = Date.now();
+    const page = await fetchAllItems({ boardId, includeChildItems: true }, MAX_RECORDS);
+    const watch: Watch = {
+      id: randomUUID(),
+      boardId,
+      profile: currentProfile().name,
+      intervalMs,
+      logging,
+      subscribers: new Map(),
+      snapshot: new Map(page.records.map((item) => [item.id, item])),
+      lastPoll: startedAt,
+      polling: false,
+      failures: 0,
+      startedAt: new Date(startedAt).toISOString(),
+      changesReported: 0,
+    };
+    watch.timer = setInterval(() => void this.poll(watch), watch.intervalMs);
+    watch.timer.unref();
+    this.watches.set(watch.id, watch);
+    return { watch, truncated: page.truncated };
+  }
+
+  unwatch(watchId: string): unknown {
+    const watch = this.watches.get(watchId);
+    if (!watch) throw new Error(`No active watch ${watchId} (see list_watches)`);
+    this.stop(watch);
+    return { stopped: watchId, boardId: watch.boardId, changesReported: watch.changesReported };
+  }
+
+  list(): unknown {
+    return [...this.watches.values()].map((watch) => ({
+      watchId: watch.id,
+      boardId: watch.boardId,
+      profile: watch.profile,
+      intervalSeconds: watch.intervalMs / 1000,
+      assigneeId: watch.assigneeId,
+      notifications: watch.logging ? "logging" : "resources",
+      subscriptions: watch.subscribers.size > 0 ? [...watch.subscribers.keys()] : undefined,
+      startedAt: watch.startedAt,
+      lastPoll: new Date(watch.lastPoll).toISOString(),
+      changesReported: watch.changesReported,
+      consecutiveFailures: watch.failures,
+    }));
+  }
+
+  stopAll(): void {
+    for (const watch of this.watches.values()) this.stop(watch);
+  }
+
+  private stop(watch: Watch): void {
+    clearInterval(watch.timer);
+    this.watches.delete(watch.id);
+  }
+
+  private async poll(watch: Watch): Promise<void> {
+    // A slow poll is not overlapped by the next tick
+    if (watch.polling) return;
+    watch.polling = true;
+    const startedAt = Date.now();
+    try {
+      const since = new Date(watch.lastPoll - POLL_OVERLAP_MS).toISOString();
+      const { items, activities } = await withProfile(watch.profile, () =>
+        changesSince(watch.boardId, since, new Date(startedAt).toISOString())
+      );
+      watch.lastPoll = startedAt;
+      watch.failures = 0;
+
+      const changes: ItemChange[] = [];
+      for (const item of items) {
+        const change = diffSnapshot(watch.snapshot.get(item.id), item);
+        watch.snapshot.set(item.id, item);
+        if (!change) continue;
+        change.changedBy = activities.filter((a) => a.itemId === item.id && a.userId).pop()?.userId;
+        changes.push(change);
+      }
+
+      for (const [uri, itemId] of watch.subscribers) {
+        if (changes.some((change) => itemId === undefined || change.itemId === itemId)) {
+          await this.server.sendResourceUpdated({ uri }).catch(() => undefined);
+        }
+      }
+      if (!watch.logging) return;
+      const assigneeId = watch.assigneeId;
+      const reported = assigneeId
+        ? changes.filter((change) => involvesUser(change, watch.snapshot.get(change.itemId)!, assigneeId))
+        : changes;
+      if (reported.length === 0) return;
+      watch.changesReported += reported.length;
+      await this.notify("info", {
+        watchId: watch.id,
+        boardId: watch.boardId,
+        detectedAt: new Date(startedAt).toISOString(),
+        changes: reported,
+      });
+    } catch (error) {
+      watch.failures++;
+      const message = error instanceof Error ? error.message : String(error);
+      const giveUp = watch.failures >= MAX_FAILURES;
+      if (giveUp) this.stop(watch);
+      await this.notify(giveUp ? "error" : "warning", {
+        watchId: watch.id,
+        boardId: watch.boardId,
+        error: giveUp ? `Watch stopped after ${MAX_FAILURES} failed polls: ${message}` : `Poll failed: ${message}`,
+      });
+    } finally {
+      watch.polling = false;
+    }
+  }
+
+  private async notify(level: LoggingLevel, data: unknown): Promise<void> {
+    try {
+      await this.server.sendLoggingMessage({ level, logger: LOGGER, data });
+    } catch {
+      // The client disconnected; its watches end with the session
+    }
+  }
+}
+
+export async function handleWatchTool(
+  name: string,
+  args: Record<string, unknown>,
+  watcher: ChangeWatcher
+): Promise<unknown> {
+  switch (name) {
+    case "watch_board":
+      return watcher.watch(args);
+
+    case "unwatch":
+      return watcher.unwatch(args.watchId as string);
+
+    case "list_watches":
+      return { watches: watcher.list() };
+
+    case "get_changes_since": {
+      const until = new Date().toISOString();
+      const since = args.since as string;
+      const assigneeId = args.assigneeId as string | undefined;
+      const { items, activities, truncated } = await changesSince(
+        args.boardId as string,
+        since,
+        until,
+        (args.maxRecords as number | undefined) ?? MAX_RECORDS
+      );
+
+      const byItem = new Map<string, Activity[]>();
+      for (const activity of activities) {
+        if (activity.itemId) byItem.set(activity.itemId, [...(byItem.get(activity.itemId) ?? []), activity]);
+      }
+      // Activities can name items that no longer match the board (moved or deleted)
+      const known = new Map(items.map((item) => [item.id, item]));
+      const ids = [...new Set([...known.keys(), ...byItem.keys()])];
+
+      const changes = ids
+        .map((id) => {
+          const item = known.get(id);
+          const entries = byItem.get(id) ?? [];
+          return {
+            itemId: id,
+            displayId: item?.displayId,
+            title: item?.title,
+            statusId: item?.statusId,
+            assignedUserId: item?.assignedUserId,
+            created: item?.createdOn !== undefined && Date.parse(item.createdOn) >= Date.parse(since),
+            modifiedOn: item?.modifiedOn,
+            activities: entries.map(({ date, userId, type, field, oldValue, newValue }) => ({ date, userId, type, field, oldValue, newValue })),
+          };
+        })
+        .filter(
+          (change) =>
+            !assigneeId ||
+            change.assignedUserId === assigneeId ||
+            change.activities.some((a) => a.oldValue === assigneeId || a.newValue === assigneeId)
+        );
+
+      return { boardId: args.boardId, since, until, nextSince: until, count: changes.length, truncated, changes };
+    }
+
+    default:
+      throw new Error(`Unknown tool: ${name}`);
+  }
+}
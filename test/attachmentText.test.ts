@@ -0,0 +1,62 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { chunkText, handleAttachmentTextTool, htmlToText } from "../src/attachmentText.js";
+import { withProfile } from "../src/profiles.js";
+import { stubApi, useTestProfile } from "./fakeApi.js";
+
+beforeAll(useTestProfile);
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("chunkText", () => {
+  it("cuts after the last paragraph break in the final fifth of a chunk", () => {
+    const text = `${"a".repeat(85)}\n\n${"b".repeat(50)}`;
+    expect(chunkText(text, 100)).toEqual([[0, 87], [87, 137]]);
+  });
+
+  it("falls back to a line break, then to the full size", () => {
+    const lines = `${"a".repeat(90)}\n${"b".repeat(50)}`;
+    expect(chunkText(lines, 100)[0]).toEqual([0, 91]);
+    // Breaks before the window are ignored
+    const early = `${"a".repeat(10)}\n\n${"b".repeat(150)}`;
+    expect(chunkText(early, 100)).toEqual([[0, 100], [100, 162]]);
+  });
+
+  it("returns one empty chunk for empty text", () => {
+    expect(chunkText("", 100)).toEqual([[0, 0]]);
+  });
+});
+
+describe("htmlToText", () => {
+  it("decodes named, decimal and hex entities", () => {
+    expect(htmlToText("<p>Fish &amp; chips &lt;3 &#8364;5 &#x1F41F; &quot;fresh&quot;&nbsp;today</p>")).toBe(
+      'Fish & chips <3 €5 🐟 "fresh" today'
+    );
+    expect(htmlToText("&unknown; &#xZZ;")).toBe("&unknown; &#xZZ;");
+  });
+
+  it("keeps block structure and drops scripts and styles", () => {
+    const html = "<head><title>x</title></head><style>p{}</style><h1>Title</h1><ul><li>One</li><li>Two</li></ul>a<br>b<script>alert(1)</script>";
+    expect(htmlToText(html)).toBe("Title\n\n- One\n- Two\na\nb");
+  });
+});
+
+describe("read_attachment_text", () => {
+  it("downloads and extracts once for all chunks", async () => {
+    const text = Array.from({ length: 30 }, (_, i) => `Line ${i} ${"x".repeat(90)}`).join("\n");
+    const requests = stubApi(({ path }) =>
+      path.endsWith("/content")
+        ? new Response(text, { headers: { "Content-Type": "text/plain" } })
+        : { id: "att-cached", name: "notes.txt" }
+    );
+    const read = (chunk: number) =>
+      withProfile(undefined, () => handleAttachmentTextTool("read_attachment_text", { attachmentId: "att-cached", chunk, chunkSize: 1000 }));
+
+    const first = (await read(1)) as { chunks: number; nextChunk: number; text: string };
+    const second = (await read(2)) as { start: number; text: string };
+    expect(first.chunks).toBe(3);
+    expect(second.start).toBe(first.text.length);
+    expect(requests).toHaveLength(2);
+  });
+});
@@ -0,0 +1,101 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { apiError, stubApi, useTestProfile } from "./fakeApi.js";
+
+// The journal is read when the modules load; these tests only look at the
+// API calls and the per-item report
+process.env.TEAMHOOD_JOURNAL = "off";
+const { handleBulkTool } = await import("../src/bulk.js");
+const { withProfile } = await import("../src/profiles.js");
+
+const items: Record<string, { id: string; title: string; tags: string[] }> = {
+  i1: { id: "i1", title: "First", tags: ["a"] },
+  i2: { id: "i2", title: "Second", tags: ["a", "b"] },
+  i3: { id: "i3", title: "Locked", tags: [] },
+};
+
+// i3 cannot be written
+function board() {
+  return stubApi(({ method, path }) => {
+    const id = path.match(/^\/items\/(\w+)$/)?.[1];
+    if (id && !items[id]) return apiError(404);
+    if (method === "GET" && id) return items[id];
+    if (method === "PUT" && id === "i3") return apiError(400, { title: "Item is locked" });
+    if (method === "PUT" && id) return { id };
+    if (method === "GET" && path.startsWith("/items?")) return Object.values(items);
+    throw new Error(`Unexpected ${method} ${path}`);
+  });
+}
+
+const run = (name: string, args: Record<string, unknown>) => withProfile(undefined, () => handleBulkTool(name, args));
+
+beforeAll(useTestProfile);
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("bulk tools", () => {
+  it("reports success and failure per item", async () => {
+    const requests = board();
+    const result = await run("bulk_archive_items", { itemIds: ["i1", "i3", "i1"] });
+    expect(result).toMatchObject({
+      dryRun: false,
+      matched: 2,
+      succeeded: 1,
+      failed: 1,
+      results: [
+        { itemId: "i1", ok: true },
+        { itemId: "i3", ok: false, error: expect.stringContaining("Item is locked") },
+      ],
+    });
+    // Without a preview or tag edits, ID lists are not looked up first
+    expect(requests.map((r) => `${r.method} ${r.path}`)).toEqual(["PUT /items/i1", "PUT /items/i3"]);
+    expect(requests[0].body).toEqual({ data: { archived: true } });
+  });
+
+  it("adds and removes tags per item, keeping the others", async () => {
+    const requests = board();
+    await run("bulk_update_items", { itemIds: ["i1", "i2"], changes: { addTags: ["c"], removeTags: ["a"] } });
+    const puts = requests.filter((r) => r.method === "PUT");
+    expect(puts.map((r) => [r.path, r.body])).toEqual([
+      ["/items/i1", { data: { tags: ["c"] } }],
+      ["/items/i2", { data: { tags: ["b", "c"] } }],
+    ]);
+  });
+
+  it("previews the changes without writing", async () => {
+    const requests = board();
+    const result = await run("bulk_move_items", { boardId: "b1", targetStatusId: "22222222-2222-2222-2222-222222222222", dryRun: true });
+    expect(result).toMatchObject({ dryRun: true, matched: 3 });
+    expect((result as { results: Array<{ changes: unknown }> }).results[0].changes).toEqual({
+      statusId: { from: undefined, to: "22222222-2222-2222-2222-222222222222" },
+    });
+    expect(requests.every((r) => r.method === "GET")).toBe(true);
+  });
+
+  it("refuses selections larger than maxItems", async () => {
+    board();
+    await expect(run("bulk_archive_items", { boardId: "b1", maxItems: 2 })).rejects.toThrow(
+      "Filter matches more than maxItems (2) items"
+    );
+    await expect(run("bulk_archive_items", { itemIds: ["i1", "i2", "i3"], maxItems: 2 })).rejects.toThrow(
+      "3 items selected, more than maxItems (2)"
+    );
+  });
+
+  it("needs exactly one way of selecting items", async () => {
+    board();
+    await expect(run("bulk_archive_items", {})).rejects.toThrow(/Select items with itemIds or at least one list_items filter/);
+    await expect(run("bulk_archive_items", { itemIds: ["i1"], boardId: "b1" })).rejects.toThrow(
+      "Pass either itemIds or list_items filters, not both"
+    );
+  });
+
+  it("rejects changes that set nothing, or tags both ways", async () => {
+    board();
+    await expect(run("bulk_update_items", { itemIds: ["i1"], changes: {} })).rejects.toThrow("changes must set at least one field");
+    await expect(run("bulk_update_items", { itemIds: ["i1"], changes: { tags: ["x"], addTags: ["y"] } })).rejects.toThrow(
+      "Use either tags or addTags/removeTags in changes, not both"
+    );
+  });
+});
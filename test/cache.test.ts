@@ -0,0 +1,150 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { cachedGet, cacheStats, clearCache, invalidateForMutation } from "../src/cache.js";
+import { loadProfiles, withProfile } from "../src/profiles.js";
+
+// Two tenants, so entries of one can be told apart from the other's
+beforeAll(async () => {
+  vi.stubEnv("TEAMHOOD_API_KEY", "key-default");
+  vi.stubEnv("TEAMHOOD_BASE_URL", "https://api-default.test/api/v1");
+  vi.stubEnv("TEAMHOOD_PROFILE_OTHER_API_KEY", "key-other");
+  vi.stubEnv("TEAMHOOD_PROFILE_OTHER_BASE_URL", "https://api-other.test/api/v1");
+  await loadProfiles();
+  vi.unstubAllEnvs();
+});
+
+beforeEach(async () => {
+  for (const profile of ["default", "other"]) await withProfile(profile, async () => clearCache());
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// A loader that counts its calls and returns a fresh list each time
+function loader(value: unknown = [{ id: "s1", title: "To Do" }]) {
+  return vi.fn(async () => structuredClone(value));
+}
+
+const inDefault = <T>(fn: () => Promise<T>) => withProfile(undefined, fn);
+
+describe("cachedGet", () => {
+  it("serves structural endpoints from memory after the first request", async () => {
+    const load = loader();
+    await inDefault(() => cachedGet("/boards/b1/statuses", load));
+    const second = await inDefault(() => cachedGet("/boards/b1/statuses", load));
+    expect(second).toEqual([{ id: "s1", title: "To Do" }]);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not cache other endpoints", async () => {
+    const load = loader();
+    await inDefault(() => cachedGet("/items/i1", load));
+    await inDefault(() => cachedGet("/items/i1", load));
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it("hands every caller its own copy", async () => {
+    const load = loader();
+    const first = (await inDefault(() => cachedGet("/users", load))) as Array<{ title: string }>;
+    first[0].title = "changed";
+    expect(await inDefault(() => cachedGet("/users", load))).toEqual([{ id: "s1", title: "To Do" }]);
+  });
+
+  it("shares a request that is still in flight", async () => {
+    const load = loader();
+    await inDefault(() => Promise.all([cachedGet("/workspaces", load), cachedGet("/workspaces", load)]));
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it("loads again once the TTL has passed", async () => {
+    vi.useFakeTimers();
+    const load = loader();
+    await inDefault(() => cachedGet("/boards/b2/rows", load));
+    vi.advanceTimersByTime(299_000);
+    await inDefault(() => cachedGet("/boards/b2/rows", load));
+    expect(load).toHaveBeenCalledTimes(1);
+    vi.advanceTimersByTime(1_000);
+    await inDefault(() => cachedGet("/boards/b2/rows", load));
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it("never caches a failure", async () => {
+    const failing = vi.fn(async () => {
+      throw new Error("API Error 500");
+    });
+    await expect(inDefault(() => cachedGet("/templates/board", failing))).rejects.toThrow("API Error 500");
+    const load = loader();
+    await inDefault(() => cachedGet("/templates/board", load));
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps each profile's entries apart", async () => {
+    const load = loader();
+    await inDefault(() => cachedGet("/users", load));
+    await withProfile("other", () => cachedGet("/users", load));
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it("counts hits and misses", async () => {
+    const before = cacheStats();
+    const load = loader();
+    await inDefault(() => cachedGet("/boards/b3/statuses", load));
+    await inDefault(() => cachedGet("/boards/b3/statuses", load));
+    const after = cacheStats();
+    expect(after.hits - before.hits).toBe(1);
+    expect(after.misses - before.misses).toBe(1);
+  });
+});
+
+describe("invalidation", () => {
+  // Cache the given endpoints, run the change, and return those that are
+  // requested again afterwards
+  async function reloadedAfter(endpoints: string[], change: () => void): Promise<string[]> {
+    const loads = new Map(endpoints.map((endpoint) => [endpoint, loader()]));
+    return inDefault(async () => {
+      for (const [endpoint, load] of loads) await cachedGet(endpoint, load);
+      change();
+      const reloaded: string[] = [];
+      for (const [endpoint, load] of loads) {
+        await cachedGet(endpoint, load);
+        if (load.mock.calls.length > 1) reloaded.push(endpoint);
+      }
+      return reloaded;
+    });
+  }
+
+  it("drops only the board list of the workspace a board is created in", async () => {
+    const reloaded = await reloadedAfter(["/workspaces/w1/boards", "/workspaces/w2/boards", "/users"], () =>
+      invalidateForMutation("/boards", "POST", { workspaceId: "w1" })
+    );
+    expect(reloaded).toEqual(["/workspaces/w1/boards"]);
+  });
+
+  it("drops the row list of the board a row is created on", async () => {
+    const reloaded = await reloadedAfter(["/boards/b1/rows", "/boards/b1/statuses"], () =>
+      invalidateForMutation("/rows", "POST", { boardId: "b1" })
+    );
+    expect(reloaded).toEqual(["/boards/b1/rows"]);
+  });
+
+  it("drops workspace details and the workspace list on workspace changes", async () => {
+    const reloaded = await reloadedAfter(["/workspaces", "/workspaces/w1", "/workspaces/w2"], () =>
+      invalidateForMutation("/workspaces/w1/members", "POST", {})
+    );
+    expect(reloaded).toEqual(["/workspaces", "/workspaces/w1"]);
+  });
+
+  it("leaves the cache alone for item writes", async () => {
+    const reloaded = await reloadedAfter(["/boards/b1/statuses", "/users"], () =>
+      invalidateForMutation("/items/i1", "PUT", { statusId: "s2" })
+    );
+    expect(reloaded).toEqual([]);
+  });
+
+  it("clears by group and board", async () => {
+    const reloaded = await reloadedAfter(["/boards/b1/rows", "/boards/b2/rows", "/boards/b1/statuses"], () =>
+      clearCache("rows", "b1")
+    );
+    expect(reloaded).toEqual(["/boards/b1/rows"]);
+  });
+});
@@ -0,0 +1,76 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { apiError, stubApi, useTestProfile } from "./fakeApi.js";
+
+process.env.TEAMHOOD_JOURNAL = "off";
+const { handleDependencyTool } = await import("../src/dependencies.js");
+const { withProfile } = await import("../src/profiles.js");
+
+const run = (name: string, args: Record<string, unknown>) => withProfile(undefined, () => handleDependencyTool(name, args));
+
+beforeAll(useTestProfile);
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// A board of count unlinked items, served page by page
+function board(count: number) {
+  const items = Array.from({ length: count }, (_, i) => ({ id: `i${i}`, title: `Item ${i}` }));
+  return stubApi(({ path }) => {
+    const query = new URLSearchParams(path.split("?")[1]);
+    const skip = Number(query.get("Skip"));
+    return items.slice(skip, skip + Number(query.get("Take")));
+  });
+}
+
+describe("get_dependency_graph", () => {
+  it("reports the node count of a complete board", async () => {
+    board(3);
+    await expect(run("get_dependency_graph", { boardId: "b1" })).resolves.toMatchObject({ nodeCount: 3, truncated: false });
+  });
+
+  it("says when a board has more items than the graph loads", async () => {
+    board(501);
+    const result = (await run("get_dependency_graph", { boardId: "b1" })) as { nodeCount: number; truncated: boolean; note: string };
+    expect(result).toMatchObject({ nodeCount: 500, truncated: true });
+    expect(result.note).toMatch(/only the first 500 were loaded/);
+    await expect(run("get_dependency_graph", { boardId: "b1", format: "mermaid" })).resolves.toContain("%% truncated");
+  });
+});
+
+describe("add_dependency", () => {
+  const items: Record<string, object> = {
+    a: { id: "a", title: "A", blocking: [{ itemId: "x", direction: "FinishToStart" }] },
+    b: { id: "b", title: "B", waiting: [] },
+  };
+
+  it("reverts the first item when the second write fails", async () => {
+    const requests = stubApi(({ method, path }) => {
+      const id = path.match(/^\/items\/(\w+)$/)![1];
+      if (method === "GET") return items[id];
+      return id === "b" ? apiError(409, { title: "Item was modified" }) : { id };
+    });
+    await expect(run("add_dependency", { fromItemId: "a", toItemId: "b" })).rejects.toThrow(
+      /Cannot add the link: updating waiting of B failed .*; no change was kept/
+    );
+    const puts = requests.filter((r) => r.method === "PUT").map((r) => [r.path, r.body]);
+    expect(puts).toEqual([
+      ["/items/a", { data: { blocking: [{ itemId: "x", direction: "FinishToStart" }, { itemId: "b", direction: "FinishToStart" }] } }],
+      ["/items/b", { data: { waiting: [{ itemId: "a", direction: "FinishToStart" }] } }],
+      ["/items/a", { data: { blocking: [{ itemId: "x", direction: "FinishToStart" }] } }],
+    ]);
+  });
+
+  it("reports a half-written link when the revert fails too", async () => {
+    let writesToA = 0;
+    stubApi(({ method, path }) => {
+      const id = path.match(/^\/items\/(\w+)$/)![1];
+      if (method === "GET") return items[id];
+      if (id === "a" && ++writesToA === 1) return { id };
+      return apiError(409, { title: "Item was modified" });
+    });
+    await expect(run("add_dependency", { fromItemId: "a", toItemId: "b" })).rejects.toThrow(
+      /^Link only partly written: blocking of A was updated, but waiting of B failed/
+    );
+  });
+});
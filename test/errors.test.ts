@@ -0,0 +1,99 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { apiRequest } from "../src/api.js";
+import { apiError, NotFoundError, TeamhoodError, toolErrorResult, ValidationError } from "../src/errors.js";
+import { withProfile } from "../src/profiles.js";
+import { apiError as errorResponse, stubApi, useTestProfile } from "./fakeApi.js";
+
+describe("apiError", () => {
+  it("maps statuses to error codes", () => {
+    const codes = [401, 403, 404, 409, 412, 429, 500, 503, 400, 422].map((status) => apiError(status, "", "GET", "/x").code);
+    expect(codes).toEqual(["AUTH", "AUTH", "NOT_FOUND", "CONFLICT", "CONFLICT", "RATE_LIMIT", "SERVER", "SERVER", "VALIDATION", "VALIDATION"]);
+  });
+
+  it("names the entity of a missing record and leaves the query string out", () => {
+    const error = apiError(404, "", "GET", "/items/i1?includeChildItems=true");
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.message).toBe("API Error 404 on GET /items/i1: Item i1 was not found");
+    expect(error.details.hint).toBe("use list_items or get_item to find a valid itemId");
+  });
+
+  it("keeps the wait of a rate limit", () => {
+    const error = apiError(429, "", "GET", "/items", 30);
+    expect(error.details).toMatchObject({ status: 429, retryAfterSeconds: 30 });
+    expect(error.details.hint).toMatch(/^Still rate limited after automatic retries: wait 30s/);
+    expect(apiError(429, "", "GET", "/items").details.hint).toMatch(/wait a minute/);
+  });
+
+  it("only calls a server error safe to retry for reads", () => {
+    expect(apiError(502, "", "GET", "/items").details.hint).toMatch(/already retried/);
+    expect(apiError(502, "", "POST", "/items").details.hint).toMatch(/check whether the change was applied/);
+  });
+
+  it("reads ASP.NET problem details with field errors", () => {
+    const body = JSON.stringify({
+      title: "One or more validation errors occurred.",
+      errors: { "$.StatusId": ["The StatusId field is required."], Title: ["Too long", "Invalid characters"] },
+    });
+    const error = apiError(400, body, "POST", "/items");
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.message).toBe(
+      "API Error 400 on POST /items: One or more validation errors occurred. - statusId: The StatusId field is required.; title: Too long, Invalid characters"
+    );
+    expect(error.details).toMatchObject({
+      field: "statusId",
+      fieldErrors: { statusId: ["The StatusId field is required."], title: ["Too long", "Invalid characters"] },
+      hint: "use list_statuses to find a valid statusId for this board",
+    });
+  });
+
+  it("reads error lists, messages and plain text", () => {
+    const list = apiError(400, JSON.stringify({ errors: [{ propertyName: "request.RowId", errorMessage: "Unknown row" }] }), "PUT", "/items/i1");
+    expect(list.details.fieldErrors).toEqual({ rowId: ["Unknown row"] });
+    expect(apiError(400, JSON.stringify({ detail: "d", message: "m" }), "GET", "/x").message).toBe("API Error 400 on GET /x: d");
+    expect(apiError(400, JSON.stringify("quoted"), "GET", "/x").message).toBe("API Error 400 on GET /x: quoted");
+    expect(apiError(400, "Bad input", "GET", "/x").message).toBe("API Error 400 on GET /x: Bad input");
+  });
+
+  it("ignores HTML error pages and empty bodies", () => {
+    expect(apiError(502, "<html><body>Bad Gateway</body></html>", "GET", "/x").message).toBe("API Error 502 on GET /x: no details given");
+    expect(apiError(400, "", "GET", "/x").details.hint).toBe("Check the arguments against the tool's schema");
+  });
+});
+
+describe("toolErrorResult", () => {
+  it("puts the message and hint first, then the details as JSON", () => {
+    const result = toolErrorResult(apiError(404, "", "GET", "/boards/b1"));
+    const text = (result.content[0] as { text: string }).text;
+    expect(result.isError).toBe(true);
+    expect(text).toMatch(/^Error: API Error 404 on GET \/boards\/b1: Board b1 was not found\nHint: use list_boards/);
+    expect(JSON.parse(text.slice(text.indexOf("{")))).toMatchObject({ error: { code: "NOT_FOUND", status: 404 } });
+  });
+
+  it("wraps untyped errors", () => {
+    const text = (toolErrorResult(new Error("boom")).content[0] as { text: string }).text;
+    expect(text).toMatch(/^Error: boom\n\n/);
+    expect(JSON.parse(text.slice(text.indexOf("{")))).toEqual({ error: { code: "ERROR", message: "boom" } });
+  });
+});
+
+describe("apiRequest errors", () => {
+  beforeAll(useTestProfile);
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const request = (endpoint: string) => withProfile(undefined, () => apiRequest(endpoint));
+
+  it("turns an error response into a typed error", async () => {
+    stubApi(() => errorResponse(403, { title: "Forbidden" }));
+    const error = await request("/boards/b1/statuses").catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(TeamhoodError);
+    expect(error).toMatchObject({ code: "AUTH", message: "API Error 403 on GET /boards/b1/statuses: Forbidden" });
+  });
+
+  it("rejects a successful response that is not JSON", async () => {
+    stubApi(() => new Response("<html>login</html>", { status: 200 }));
+    await expect(request("/items/i1")).rejects.toThrow("Unexpected API response from GET /items/i1: body is not JSON");
+  });
+});
@@ -0,0 +1,49 @@
+import { vi } from "vitest";
+import { loadProfiles } from "../src/profiles.js";
+
+// Test double for the Teamhood API: a default profile pointing at a fake base
+// URL, and a fetch stub that hands each request to a handler
+
+export const BASE_URL = "https://api-test.teamhood.test/api/v1";
+
+export interface ApiRequest {
+  method: string;
+  // Endpoint as passed to apiRequest, e.g. "/items/i1?x=1"
+  path: string;
+  body?: unknown;
+}
+
+// Handlers return a JSON body, or a Response for statuses other than 200
+export type ApiHandler = (request: ApiRequest) => unknown | Response | Promise<unknown | Response>;
+
+export async function useTestProfile(): Promise<void> {
+  vi.stubEnv("TEAMHOOD_API_KEY", "test-key");
+  vi.stubEnv("TEAMHOOD_BASE_URL", BASE_URL);
+  await loadProfiles();
+  vi.unstubAllEnvs();
+}
+
+export function apiError(status: number, body: unknown = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+// Route every fetch to handler; returns the requests made, in order
+export function stubApi(handler: ApiHandler): ApiRequest[] {
+  const requests: ApiRequest[] = [];
+  vi.stubGlobal("fetch", async (url: string, init: RequestInit = {}) => {
+    const text = typeof init.body === "string" ? init.body : undefined;
+    const request: ApiRequest = {
+      method: (init.method ?? "GET").toUpperCase(),
+      path: String(url).slice(BASE_URL.length),
+      body: text ? JSON.parse(text) : undefined,
+    };
+    requests.push(request);
+    const result = await handler(request);
+    if (result instanceof Response) return result;
+    return new Response(result === undefined ? "" : JSON.stringify(result), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  });
+  return requests;
+}
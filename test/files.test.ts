@@ -0,0 +1,89 @@
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, symlinkSync, writeFileSync } from "fs";
+import { homedir, tmpdir } from "os";
+import { join } from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { configureFileAccess, readablePath, writablePath } from "../src/files.js";
+
+// root/ holds notes.txt and a symlink to outside/, which holds secret.txt
+const base = realpathSync(mkdtempSync(join(tmpdir(), "teamhood-files-")));
+const root = join(base, "root");
+const outside = join(base, "outside");
+
+beforeAll(() => {
+  mkdirSync(root);
+  mkdirSync(outside);
+  writeFileSync(join(root, "notes.txt"), "notes");
+  writeFileSync(join(outside, "secret.txt"), "secret");
+  symlinkSync(outside, join(root, "link"));
+  symlinkSync(join(outside, "secret.txt"), join(root, "secret-link.txt"));
+  configureFileAccess("stdio", { TEAMHOOD_MCP_FILE_ROOT: root });
+});
+
+afterAll(() => rmSync(base, { recursive: true, force: true }));
+
+describe("readablePath", () => {
+  it("resolves files under the root", () => {
+    expect(readablePath("notes.txt")).toBe(join(root, "notes.txt"));
+    expect(readablePath(join(root, "notes.txt"))).toBe(join(root, "notes.txt"));
+  });
+
+  it("rejects paths that escape the root with ..", () => {
+    expect(() => readablePath("../outside/secret.txt")).toThrow(/outside the file root/);
+    expect(() => readablePath(join(outside, "secret.txt"))).toThrow(/outside the file root/);
+  });
+
+  it("rejects symlinks that point out of the root", () => {
+    expect(() => readablePath("link/secret.txt")).toThrow(/resolves outside the file root/);
+    expect(() => readablePath("secret-link.txt")).toThrow(/resolves outside the file root/);
+  });
+});
+
+describe("writablePath", () => {
+  it("allows new files under the root, including new directories", () => {
+    expect(writablePath("exports/board.csv", false)).toBe(join(root, "exports", "board.csv"));
+  });
+
+  it("rejects writes that escape the root", () => {
+    expect(() => writablePath("../outside/new.txt", false)).toThrow(/outside the file root/);
+    expect(() => writablePath("link/new.txt", false)).toThrow(/resolves outside the file root/);
+    expect(() => writablePath("secret-link.txt", true)).toThrow(/resolves outside the file root/);
+  });
+
+  it("only replaces an existing file with overwrite", () => {
+    expect(() => writablePath("notes.txt", false)).toThrow(/already exists/);
+    expect(writablePath("notes.txt", true)).toBe(join(root, "notes.txt"));
+  });
+});
+
+describe("configureFileAccess", () => {
+  it("turns file arguments off over HTTP without a configured root", () => {
+    configureFileAccess("http", {});
+    try {
+      expect(() => readablePath("notes.txt")).toThrow(/disabled on this server/);
+      expect(() => writablePath("out.csv", false)).toThrow(/disabled on this server/);
+    } finally {
+      configureFileAccess("stdio", { TEAMHOOD_MCP_FILE_ROOT: root });
+    }
+  });
+
+  it("uses the working directory over stdio, but not / or the home directory", () => {
+    const cwd = vi.spyOn(process, "cwd");
+    try {
+      cwd.mockReturnValue(root);
+      configureFileAccess("stdio", {});
+      expect(readablePath("notes.txt")).toBe(join(root, "notes.txt"));
+      for (const dir of ["/", homedir()]) {
+        cwd.mockReturnValue(dir);
+        configureFileAccess("stdio", {});
+        expect(() => readablePath("notes.txt")).toThrow("path is disabled on this server: no file root is configured");
+      }
+    } finally {
+      cwd.mockRestore();
+      configureFileAccess("stdio", { TEAMHOOD_MCP_FILE_ROOT: root });
+    }
+  });
+
+  it("refuses a root that does not exist", () => {
+    expect(() => configureFileAccess("http", { TEAMHOOD_MCP_FILE_ROOT: join(base, "missing") })).toThrow(/does not exist/);
+  });
+});
@@ -0,0 +1,84 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { describe, expect, it } from "vitest";
+import { computeFlowMetrics, type FlowInput } from "../src/metrics.js";
+
+// board-activity.json is a board's items and status changes over two weeks:
+// TH-1 goes straight through, TH-2 is sent back from review once, TH-3 was
+// committed before the range, and TH-4 to TH-6 are not completed (TH-6 moves
+// back and forth between In Progress and Review).
+const fixture = JSON.parse(readFileSync(join(import.meta.dirname, "fixtures", "board-activity.json"), "utf-8"));
+
+const input: FlowInput = {
+  ...fixture,
+  startDate: "2024-03-04T00:00:00Z",
+  endDate: "2024-03-18T00:00:00Z",
+  now: new Date("2024-03-20T00:00:00Z"),
+};
+
+describe("computeFlowMetrics", () => {
+  const metrics = computeFlowMetrics(input);
+
+  it("measures lead time from creation to completion", () => {
+    // TH-1 4 days, TH-2 8 days, TH-3 22 days
+    expect(metrics.completedCount).toBe(3);
+    expect(metrics.leadTime).toEqual({ count: 3, averageDays: 11.3, p50Days: 8, p85Days: 22, p95Days: 22 });
+  });
+
+  it("measures cycle time from the first commitment, not the last re-entry", () => {
+    // TH-1 3 days; TH-2 6 days from its first move to In Progress
+    expect(metrics.commitmentStatus).toEqual({ id: "st-doing", title: "In Progress" });
+    expect(metrics.cycleTime).toEqual({ count: 2, averageDays: 4.5, p50Days: 3, p85Days: 6, p95Days: 6, unknown: 1 });
+    expect(metrics.notes[0]).toMatch(/^1 completed item\(s\) entered the commitment status before startDate/);
+  });
+
+  it("counts throughput per ISO week of completion", () => {
+    expect(metrics.throughput).toEqual({
+      averagePerWeek: 1,
+      weeks: [
+        { week: "2024-W10", completed: 1 },
+        { week: "2024-W11", completed: 2 },
+        { week: "2024-W12", completed: 0 },
+      ],
+    });
+  });
+
+  it("adds up every stay in a status an item re-enters", () => {
+    const byStatus = Object.fromEntries(metrics.timeInStatus.map((s) => [s.statusId, s]));
+    expect(Object.keys(byStatus)).toEqual(["st-backlog", "st-doing", "st-review"]);
+    // In Progress: TH-1 2, TH-2 2+2, TH-3 9 (from startDate), TH-4 7 (to endDate), TH-6 9+1
+    expect(byStatus["st-doing"]).toMatchObject({ totalDays: 32, count: 5, p50Days: 7 });
+    // Review: TH-1 1, TH-2 1+1, TH-6 1+2
+    expect(byStatus["st-review"]).toMatchObject({ totalDays: 6, count: 3 });
+    expect(metrics.statusChanges).toBe(14);
+  });
+
+  it("reports WIP and aging for items that are not completed", () => {
+    expect(metrics.wip).toEqual([
+      { statusId: "st-backlog", title: "Backlog", count: 1 },
+      { statusId: "st-doing", title: "In Progress", count: 1 },
+      { statusId: "st-review", title: "Review", count: 1 },
+    ]);
+    expect(metrics.wipTotal).toBe(3);
+    expect(metrics.aging.map(({ displayId, ageDays, ageFrom, daysInStatus, overCycleTimeP85 }) => ({
+      displayId,
+      ageDays,
+      ageFrom,
+      daysInStatus,
+      overCycleTimeP85,
+    }))).toEqual([
+      { displayId: "TH-6", ageDays: 15, ageFrom: "commitment", daysInStatus: 4, overCycleTimeP85: true },
+      { displayId: "TH-4", ageDays: 9, ageFrom: "commitment", daysInStatus: 9, overCycleTimeP85: true },
+    ]);
+  });
+
+  it("leaves items completed outside the range out of throughput", () => {
+    const later = computeFlowMetrics({ ...input, startDate: "2024-03-09T00:00:00Z" });
+    expect(later.completedCount).toBe(2);
+    expect(later.throughput.weeks).toEqual([
+      { week: "2024-W10", completed: 0 },
+      { week: "2024-W11", completed: 2 },
+      { week: "2024-W12", completed: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,138 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { useTestProfile } from "./fakeApi.js";
+
+// Pages are cut at TEAMHOOD_MAX_OUTPUT_CHARS, read when the module loads
+process.env.TEAMHOOD_MAX_OUTPUT_CHARS = "1000";
+const { continueOutput, renderOutput, takeOutputOptions, withOutputArguments } = await import("../src/output.js");
+const { withProfile } = await import("../src/profiles.js");
+
+const inDefault = <T>(fn: () => T) => withProfile(undefined, async () => fn());
+
+beforeAll(useTestProfile);
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const items = [
+  { id: "i1", title: "First", statusId: "s1", owner: { id: "u1", name: "Ann" }, tags: ["a", "b"] },
+  { id: "i2", title: "Second | piped", statusId: "s2", owner: { id: "u2", name: "Bob" }, tags: [] },
+];
+
+describe("output arguments", () => {
+  it("adds fields and outputFormat to every tool but continue_output", () => {
+    const tools = withOutputArguments([
+      { name: "get_item", inputSchema: { type: "object", properties: { itemId: { type: "string" } } } },
+      { name: "continue_output", inputSchema: { type: "object", properties: {} } },
+    ]);
+    expect(Object.keys(tools[0].inputSchema.properties!)).toEqual(["itemId", "fields", "outputFormat"]);
+    expect(tools[1].inputSchema.properties).toEqual({});
+  });
+
+  it("takes them out of the tool's own arguments", () => {
+    expect(takeOutputOptions({ boardId: "b1", format: "csv", outputFormat: "table", fields: ["id"] })).toEqual({
+      options: { format: "table", fields: ["id"] },
+      toolArgs: { boardId: "b1", format: "csv" },
+    });
+    expect(takeOutputOptions({ fields: [] }).options).toEqual({ format: "json", fields: undefined });
+  });
+});
+
+describe("renderOutput", () => {
+  it("selects fields of each record and keeps the paging fields", () => {
+    const text = renderOutput({ items, totalCount: 2 }, { format: "compact", fields: ["id", "owner.name"] });
+    expect(JSON.parse(text)).toEqual({
+      items: [{ id: "i1", owner: { name: "Ann" } }, { id: "i2", owner: { name: "Bob" } }],
+      totalCount: 2,
+    });
+  });
+
+  it("selects top-level fields of a single record", () => {
+    expect(renderOutput(items[0], { format: "compact", fields: ["title", "tags"] })).toBe('{"title":"First","tags":["a","b"]}');
+  });
+
+  it("writes tables with dotted columns and escaped pipes", () => {
+    expect(renderOutput({ items, totalCount: 2 }, { format: "table" })).toBe(
+      [
+        "totalCount: 2",
+        "",
+        "| id | title | statusId | owner.id | owner.name | tags |",
+        "| --- | --- | --- | --- | --- | --- |",
+        "| i1 | First | s1 | u1 | Ann | a, b |",
+        "| i2 | Second \\| piped | s2 | u2 | Bob |  |",
+      ].join("\n")
+    );
+  });
+
+  it("writes summaries without empty values", () => {
+    expect(renderOutput(items[1], { format: "summary" })).toBe(
+      ["id: i2", "title: Second | piped", "statusId: s2", "owner:", "  id: u2", "  name: Bob"].join("\n")
+    );
+  });
+
+  it("returns text results as they are", () => {
+    expect(renderOutput("a,b\n1,2\n", { format: "table" })).toBe("a,b\n1,2\n");
+  });
+});
+
+describe("truncation", () => {
+  const many = Array.from({ length: 30 }, (_, i) => ({ id: `i${i}`, title: `Item number ${i}` }));
+
+  it("pages a list a whole number of records at a time", async () => {
+    const seen: string[] = [];
+    let page = JSON.parse(await inDefault(() => renderOutput({ items: many, totalCount: 30 }, { format: "compact" })));
+    for (;;) {
+      seen.push(...page.items.map((item: { id: string }) => item.id));
+      expect(page.totalCount).toBe(30);
+      if (!page.continuation) break;
+      expect(page.continuation.shown).toMatch(/^records \d+-\d+ of 30$/);
+      const cursor = page.continuation.cursor;
+      page = JSON.parse(await inDefault(() => continueOutput(cursor)));
+    }
+    expect(seen).toEqual(many.map((item) => item.id));
+  });
+
+  it("appends a cursor note to other formats", async () => {
+    const text = await inDefault(() => renderOutput([...many, ...many], { format: "table" }));
+    expect(text.length).toBeLessThanOrEqual(1000);
+    expect(text).toMatch(/\[Output truncated: records 1-\d+ of 60\. Call continue_output with cursor "[\w-]+:\d+" for the rest\.\]$/);
+  });
+
+  it("reads a record larger than a page as text, then moves on to the next record", async () => {
+    const records = [{ id: "r0" }, { id: "r1", description: "x".repeat(2500) }, { id: "r2" }];
+    const first = await inDefault(() => renderOutput(records, { format: "compact" }));
+    let cursor = JSON.parse(first).continuation.cursor;
+    expect(JSON.parse(first).records).toEqual([{ id: "r0" }]);
+
+    let text = "";
+    for (let calls = 0; cursor && calls < 10; calls++) {
+      const page = await inDefault(() => continueOutput(cursor));
+      expect(page.length).toBeLessThanOrEqual(1000);
+      const note = page.match(/\n\n\[Output truncated: characters .*cursor "([^"]+)" for the rest\.\]$/);
+      text += note ? page.slice(0, note.index) : page;
+      cursor = note?.[1];
+    }
+    const oversized = JSON.parse(text);
+    expect(oversized.records).toEqual([records[1]]);
+    expect(await inDefault(() => continueOutput(oversized.continuation.cursor))).toBe('[{"id":"r2"}]');
+  });
+
+  it("cuts long text at a line break", async () => {
+    const text = Array.from({ length: 40 }, (_, i) => `line ${i} ${"-".repeat(40)}`).join("\n");
+    const page = await inDefault(() => renderOutput(text, { format: "json" }));
+    expect(page).toMatch(/^line 0 .*-\n\n\n\[Output truncated: characters 1-\d+ of \d+/s);
+    const cursor = page.match(/cursor "([^"]+)"/)![1];
+    expect(await inDefault(() => continueOutput(cursor))).toMatch(/^line \d+ /);
+  });
+
+  it("rejects unknown, expired and malformed cursors", async () => {
+    vi.useFakeTimers();
+    const page = JSON.parse(await inDefault(() => renderOutput(many, { format: "compact" })));
+    const cursor: string = page.continuation.cursor;
+    const [id] = cursor.split(":");
+    expect(() => continueOutput("nope:1")).toThrow('Cursor "nope:1" is unknown or expired');
+    await expect(inDefault(() => continueOutput(`${id}:999`))).rejects.toThrow("has an invalid position");
+    vi.advanceTimersByTime(15 * 60 * 1000);
+    await expect(inDefault(() => continueOutput(cursor))).rejects.toThrow(/unknown or expired/);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { collectPages, maxRecordsFrom, splitDateRange, wantsAllPages } from "../src/pagination.js";
+
+// A list endpoint over `total` numbered records, as a bare array or inside an
+// envelope that reports the total; records every request it gets
+function endpoint(total: number, envelope = false) {
+  const requests: Array<{ offset: number; size: number }> = [];
+  const fetchPage = async (offset: number, size: number) => {
+    requests.push({ offset, size });
+    const page = Array.from({ length: Math.max(0, Math.min(size, total - offset)) }, (_, i) => offset + i);
+    return envelope ? { items: page, totalCount: total } : page;
+  };
+  return { fetchPage, requests };
+}
+
+describe("collectPages", () => {
+  it("reads every page until a short one comes back", async () => {
+    const { fetchPage, requests } = endpoint(250);
+    const result = await collectPages<number>(fetchPage, 100, 1000);
+    expect(result.records).toHaveLength(250);
+    expect(result).toMatchObject({ totalCount: 250, truncated: false });
+    expect(requests.map((r) => r.offset)).toEqual([0, 100, 200]);
+  });
+
+  it("does not report a result of exactly maxRecords as truncated", async () => {
+    const { fetchPage, requests } = endpoint(200);
+    const result = await collectPages<number>(fetchPage, 100, 200);
+    expect(result.records).toHaveLength(200);
+    expect(result.truncated).toBe(false);
+    // The probe for record 201 finds nothing
+    expect(requests.at(-1)).toEqual({ offset: 200, size: 1 });
+  });
+
+  it("stops at maxRecords and reports truncation when more records exist", async () => {
+    const { fetchPage } = endpoint(201);
+    const result = await collectPages<number>(fetchPage, 100, 200);
+    expect(result.records).toEqual(Array.from({ length: 200 }, (_, i) => i));
+    expect(result).toMatchObject({ totalCount: 200, truncated: true });
+  });
+
+  it("asks for one record more than remains on the last page", async () => {
+    const { fetchPage, requests } = endpoint(1000);
+    const result = await collectPages<number>(fetchPage, 100, 150);
+    expect(requests).toEqual([{ offset: 0, size: 100 }, { offset: 100, size: 51 }]);
+    expect(result.records).toHaveLength(150);
+    expect(result.truncated).toBe(true);
+  });
+
+  it("uses a reported total instead of probing", async () => {
+    const { fetchPage, requests } = endpoint(200, true);
+    const result = await collectPages<number>(fetchPage, 100, 200);
+    expect(result).toMatchObject({ totalCount: 200, truncated: false });
+    expect(requests).toHaveLength(2);
+
+    const more = await collectPages<number>(endpoint(500, true).fetchPage, 100, 200);
+    expect(more).toMatchObject({ totalCount: 500, truncated: true });
+  });
+
+  it("starts from an offset and counts it in the total", async () => {
+    const { fetchPage, requests } = endpoint(120);
+    const result = await collectPages<number>(fetchPage, 100, 1000, 50);
+    expect(result.records[0]).toBe(50);
+    expect(result.records).toHaveLength(70);
+    expect(result).toMatchObject({ totalCount: 120, truncated: false });
+    expect(requests[0].offset).toBe(50);
+  });
+});
+
+describe("splitDateRange", () => {
+  it("splits a long range into consecutive windows", () => {
+    expect(splitDateRange("2024-01-01T00:00:00Z", "2024-08-15T00:00:00Z")).toEqual([
+      { startDate: "2024-01-01T00:00:00.000Z", endDate: "2024-04-01T00:00:00.000Z" },
+      { startDate: "2024-04-01T00:00:00.000Z", endDate: "2024-07-01T00:00:00.000Z" },
+      { startDate: "2024-07-01T00:00:00.000Z", endDate: "2024-08-15T00:00:00.000Z" },
+    ]);
+  });
+
+  it("keeps a short range as one window", () => {
+    expect(splitDateRange("2024-01-01T00:00:00Z", "2024-01-20T00:00:00Z", 1)).toHaveLength(1);
+  });
+
+  it("rejects dates it cannot parse", () => {
+    expect(() => splitDateRange("yesterday", "2024-01-20T00:00:00Z")).toThrow(/Invalid date range/);
+  });
+});
+
+describe("paging arguments", () => {
+  it("turns on auto-pagination with fetchAll or maxRecords", () => {
+    expect(wantsAllPages({ fetchAll: true })).toBe(true);
+    expect(wantsAllPages({ maxRecords: 10 })).toBe(true);
+    expect(wantsAllPages({ take: 10 })).toBe(false);
+  });
+
+  it("falls back to the default cap for missing or non-positive maxRecords", () => {
+    expect(maxRecordsFrom({ maxRecords: 25.7 })).toBe(25);
+    expect(maxRecordsFrom({ maxRecords: 0 })).toBe(2000);
+    expect(maxRecordsFrom({})).toBe(2000);
+  });
+});
@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+// Short backoff and a fast refill after a 429 so retried requests do not slow
+// the suite down; the config is read when the module loads
+process.env.TEAMHOOD_RATE_LIMIT = "600000";
+process.env.TEAMHOOD_RETRY_BASE_MS = "1";
+process.env.TEAMHOOD_RETRY_MAX_MS = "1000";
+process.env.TEAMHOOD_MAX_RETRIES = "2";
+const { mapConcurrent, rateLimitedFetch, TokenBucket } = await import("../src/rateLimit.js");
+
+function respond(status: number, headers: Record<string, string> = {}): Response {
+  return new Response(status === 204 ? null : "{}", { status, headers });
+}
+
+// fetch that answers with the given statuses in turn and records the calls
+function stubFetch(...statuses: Array<number | Response>) {
+  const fetch = vi.fn(async () => {
+    const next = statuses.length > 1 ? statuses.shift()! : statuses[0];
+    return typeof next === "number" ? respond(next) : next;
+  });
+  vi.stubGlobal("fetch", fetch);
+  return fetch;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe("TokenBucket", () => {
+  it("serves a burst up to its capacity, then one request per refill interval", async () => {
+    vi.useFakeTimers();
+    const bucket = new TokenBucket(2, 60);
+    const served: number[] = [];
+    const start = Date.now();
+    const all = [1, 2, 3].map((n) => bucket.acquire().then(() => served.push(n)));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(served).toEqual([1, 2]);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(served).toEqual([1, 2]);
+    await vi.advanceTimersByTimeAsync(1);
+    await Promise.all(all);
+    expect(served).toEqual([1, 2, 3]);
+    expect(Date.now() - start).toBe(1000);
+  });
+
+  it("hands out nothing while paused", async () => {
+    vi.useFakeTimers();
+    const bucket = new TokenBucket(5, 60);
+    bucket.pause(5000);
+    let served = false;
+    const acquired = bucket.acquire().then(() => (served = true));
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(served).toBe(false);
+    // The bucket restarts empty when the pause ends
+    await vi.advanceTimersByTimeAsync(1000);
+    await acquired;
+    expect(served).toBe(true);
+  });
+
+  it("does not throttle with a limit of 0", async () => {
+    const bucket = new TokenBucket(1, 0);
+    await Promise.all(Array.from({ length: 10 }, () => bucket.acquire()));
+  });
+});
+
+describe("rateLimitedFetch", () => {
+  it("retries 429 responses until one succeeds", async () => {
+    const fetch = stubFetch(429, 429, 200);
+    const response = await rateLimitedFetch("https://api.test/items", {}, "retry-429");
+    expect(response.status).toBe(200);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("gives up after the configured number of retries", async () => {
+    const fetch = stubFetch(503);
+    const response = await rateLimitedFetch("https://api.test/items", {}, "give-up");
+    expect(response.status).toBe(503);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not replay a POST that failed with a server error", async () => {
+    const fetch = stubFetch(502, 200);
+    const response = await rateLimitedFetch("https://api.test/items", { method: "POST" }, "post");
+    expect(response.status).toBe(502);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("replays a rate-limited POST, which the server did not process", async () => {
+    const fetch = stubFetch(429, 201);
+    const response = await rateLimitedFetch("https://api.test/items", { method: "POST" }, "post-429");
+    expect(response.status).toBe(201);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("returns client errors without retrying", async () => {
+    const fetch = stubFetch(400, 200);
+    const response = await rateLimitedFetch("https://api.test/items", {}, "client-error");
+    expect(response.status).toBe(400);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("surfaces a Retry-After longer than the retry ceiling instead of waiting", async () => {
+    const fetch = stubFetch(respond(429, { "Retry-After": "120" }), 200);
+    const response = await rateLimitedFetch("https://api.test/items", {}, "long-wait");
+    expect(response.status).toBe(429);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("mapConcurrent", () => {
+  it("keeps input order and never runs more than the limit at once", async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await mapConcurrent([30, 10, 20, 0, 5], 2, async (ms, index) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      running--;
+      return index;
+    });
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(peak).toBe(2);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { isUuid, matchCandidate } from "../src/resolver.js";
+
+const statuses = [
+  { id: "11111111-1111-1111-1111-111111111111", labels: ["To Do"] },
+  { id: "22222222-2222-2222-2222-222222222222", labels: ["In Progress"] },
+  { id: "33333333-3333-3333-3333-333333333333", labels: ["In Review"] },
+  { id: "44444444-4444-4444-4444-444444444444", labels: ["Done"] },
+];
+const boards = [
+  { id: "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa", labels: ["Roadmap", "ROAD"] },
+  { id: "bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb", labels: ["Road Trip", "TRIP"] },
+];
+
+describe("matchCandidate", () => {
+  it("matches names case-insensitively", () => {
+    expect(matchCandidate("status", "in progress", statuses)).toBe(statuses[1].id);
+    expect(matchCandidate("status", "DONE", statuses)).toBe(statuses[3].id);
+  });
+
+  it("matches display IDs and UUIDs", () => {
+    expect(matchCandidate("board", "road", boards)).toBe(boards[0].id);
+    expect(matchCandidate("board", boards[1].id.toUpperCase(), boards)).toBe(boards[1].id);
+  });
+
+  it("prefers an exact match over a partial one", () => {
+    // "Road" is a display ID of Roadmap and part of "Road Trip"
+    expect(matchCandidate("board", "Road", boards)).toBe(boards[0].id);
+  });
+
+  it("ignores punctuation and spacing", () => {
+    expect(matchCandidate("status", "in-progress", statuses)).toBe(statuses[1].id);
+  });
+
+  it("accepts partial names and small typos", () => {
+    expect(matchCandidate("status", "Progress", statuses)).toBe(statuses[1].id);
+    expect(matchCandidate("status", "In Progres", statuses)).toBe(statuses[1].id);
+  });
+
+  it("fails with the candidates when a name is ambiguous", () => {
+    expect(() => matchCandidate("status", "In", statuses)).toThrow(
+      /Ambiguous status "In" matches 2 candidates: "In Progress" \(2222.*\), "In Review" \(3333.*\)/
+    );
+  });
+
+  it("lists what is available when nothing matches", () => {
+    expect(() => matchCandidate("status", "Blocked", statuses)).toThrow(
+      /No status matches "Blocked". Available: "To Do" .*"Done" \(4444/
+    );
+  });
+
+  describe("with exactOnly", () => {
+    it("still accepts exact, case-insensitive and display ID matches", () => {
+      expect(matchCandidate("status", "in progress", statuses, true)).toBe(statuses[1].id);
+      expect(matchCandidate("board", "TRIP", boards, true)).toBe(boards[1].id);
+    });
+
+    it("rejects typos and partial names, listing the close matches", () => {
+      expect(() => matchCandidate("status", "In Progres", statuses, true)).toThrow(
+        /No status is named exactly "In Progres". Close matches: "In Progress" \(2222/
+      );
+      expect(() => matchCandidate("board", "Road T", boards, true)).toThrow(/Close matches: "Road Trip"/);
+    });
+  });
+});
+
+describe("isUuid", () => {
+  it("recognises UUIDs in either case", () => {
+    expect(isUuid("aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa")).toBe(true);
+    expect(isUuid("AAAAAAAA-AAAA-AAAA-AAAA-AAAAAAAAAAAA")).toBe(true);
+    expect(isUuid("ROAD")).toBe(false);
+  });
+});
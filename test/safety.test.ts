@@ -0,0 +1,122 @@
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { withProfile } from "../src/profiles.js";
+import { confirmDeletion } from "../src/safety.js";
+import { useTestProfile } from "./fakeApi.js";
+
+beforeAll(useTestProfile);
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  vi.resetModules();
+});
+
+type Confirmation = { confirmationRequired: true; confirmToken: string; preview: unknown };
+
+// Ask for a deletion without a token and return the issued token
+async function requestToken(tool = "delete_item", target = "i1"): Promise<string> {
+  const result = (await confirm(tool, target, undefined, vi.fn())) as Confirmation;
+  expect(result).toMatchObject({ confirmationRequired: true, preview: { id: target } });
+  return result.confirmToken;
+}
+
+function confirm(tool: string, target: string, token: string | undefined, remove: () => Promise<unknown>) {
+  return withProfile(undefined, () => confirmDeletion(tool, target, token, async () => ({ id: target }), remove));
+}
+
+describe("confirmDeletion", () => {
+  it("returns a preview and a token instead of deleting", async () => {
+    const remove = vi.fn();
+    const result = (await confirm("delete_item", "i1", undefined, remove)) as Confirmation;
+    expect(result.confirmToken).toMatch(/^[\w-]{12}$/);
+    expect(remove).not.toHaveBeenCalled();
+  });
+
+  it("deletes with the token, and only once", async () => {
+    const token = await requestToken();
+    const remove = vi.fn(async () => ({ success: true }));
+    await expect(confirm("delete_item", "i1", token, remove)).resolves.toEqual({ success: true });
+    await expect(confirm("delete_item", "i1", token, remove)).rejects.toThrow(/invalid or expired/);
+    expect(remove).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps the token for a retry when the deletion fails", async () => {
+    const token = await requestToken();
+    const failing = vi.fn(async () => {
+      throw new Error("API Error 503");
+    });
+    await expect(confirm("delete_item", "i1", token, failing)).rejects.toThrow("API Error 503");
+    await expect(confirm("delete_item", "i1", token, async () => "deleted")).resolves.toBe("deleted");
+  });
+
+  it("refuses a token while the deletion it confirmed is still running", async () => {
+    const token = await requestToken();
+    let finish!: () => void;
+    const slow = confirm("delete_item", "i1", token, () => new Promise<void>((resolve) => (finish = resolve)));
+    await expect(confirm("delete_item", "i1", token, vi.fn())).rejects.toThrow(/already being used/);
+    finish();
+    await slow;
+  });
+
+  it("binds the token to one tool and one target", async () => {
+    const token = await requestToken("delete_item", "i1");
+    await expect(confirm("delete_item", "i2", token, vi.fn())).rejects.toThrow(
+      "Confirmation token was issued for delete_item on default:i1, not delete_item on default:i2"
+    );
+    await expect(confirm("delete_attachment", "i1", token, vi.fn())).rejects.toThrow(/issued for delete_item/);
+    // A mismatch does not use the token up
+    await expect(confirm("delete_item", "i1", token, async () => "deleted")).resolves.toBe("deleted");
+  });
+
+  it("expires tokens after five minutes", async () => {
+    vi.useFakeTimers();
+    const token = await requestToken();
+    vi.advanceTimersByTime(5 * 60 * 1000);
+    await expect(confirm("delete_item", "i1", token, vi.fn())).rejects.toThrow(/invalid or expired/);
+  });
+
+  it("deletes straight away when confirmation is turned off", async () => {
+    vi.stubEnv("TEAMHOOD_CONFIRM_DELETES", "false");
+    const safety = await import("../src/safety.js");
+    const remove = vi.fn(async () => "deleted");
+    await expect(safety.confirmDeletion("delete_item", "i1", undefined, vi.fn(), remove)).resolves.toBe("deleted");
+  });
+});
+
+describe("read-only mode", () => {
+  const tools: Tool[] = [
+    { name: "get_item", annotations: { readOnlyHint: true }, inputSchema: { type: "object" } },
+    { name: "delete_item", annotations: { readOnlyHint: false }, inputSchema: { type: "object", properties: {} } },
+    { name: "update_item", inputSchema: { type: "object", properties: { dryRun: { type: "boolean" } } } },
+    { name: "export_board", annotations: { readOnlyHint: false }, inputSchema: { type: "object", properties: { outputPath: { type: "string" } } } },
+  ];
+
+  async function readOnlySafety(env: Record<string, string> = {}) {
+    vi.stubEnv("TEAMHOOD_READ_ONLY", "true");
+    for (const [name, value] of Object.entries(env)) vi.stubEnv(name, value);
+    return import("../src/safety.js");
+  }
+
+  it("hides writes except dry-run previews and inline exports", async () => {
+    const { visibleTools } = await readOnlySafety();
+    expect(visibleTools(tools).map((t) => t.name)).toEqual(["get_item", "update_item", "export_board"]);
+  });
+
+  it("allows only dry runs and calls without outputPath", async () => {
+    const { assertToolPermitted } = await readOnlySafety();
+    const [getItem, deleteItem, updateItem, exportBoard] = tools;
+    expect(() => assertToolPermitted(getItem, {})).not.toThrow();
+    expect(() => assertToolPermitted(deleteItem, {})).toThrow(/read-only mode .* delete_item would modify data/);
+    expect(() => assertToolPermitted(updateItem, {})).toThrow(/Only dryRun previews are available/);
+    expect(() => assertToolPermitted(updateItem, { dryRun: true })).not.toThrow();
+    expect(() => assertToolPermitted(exportBoard, {})).not.toThrow();
+    expect(() => assertToolPermitted(exportBoard, { outputPath: "board.json" })).toThrow(/cannot write outputPath/);
+  });
+
+  it("applies the tool allow-list on top", async () => {
+    const { assertToolPermitted, visibleTools } = await readOnlySafety({ TEAMHOOD_ALLOWED_TOOLS: "get_item, export_board" });
+    expect(visibleTools(tools).map((t) => t.name)).toEqual(["get_item", "export_board"]);
+    expect(() => assertToolPermitted(tools[2], { dryRun: true })).toThrow(/not in TEAMHOOD_ALLOWED_TOOLS/);
+  });
+});
@@ -0,0 +1,64 @@
+import { mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, expect, it } from "vitest";
+import { readSopsFile } from "../src/sops.js";
+
+// secrets.sops.yaml is encrypted for the age identity in age-key.txt, in the
+// sops file format: a 32-byte IV per value, the key path as additional data,
+// and a MAC over every value (booleans hashed as "True"/"False").
+const FIXTURE = join(import.meta.dirname, "fixtures", "secrets.sops.yaml");
+const env = { SOPS_AGE_KEY_FILE: join(import.meta.dirname, "fixtures", "age-key.txt") };
+
+function tempCopy(content: string): string {
+  const path = join(mkdtempSync(join(tmpdir(), "teamhood-sops-")), "secrets.yaml");
+  writeFileSync(path, content);
+  return path;
+}
+
+describe("readSopsFile", () => {
+  it("decrypts every value type and verifies the MAC", async () => {
+    const { data, encrypted } = await readSopsFile(FIXTURE, env);
+    expect(encrypted).toBe(true);
+    expect(data).toEqual({
+      TEAMHOOD_API_KEY: "th-key-123",
+      TEAMHOOD_TENANT: "acme",
+      retries: 3,
+      ratio: 0.5,
+      debug: true,
+      readonly: false,
+      profiles: { staging: { apiKey: "th-staging-456" } },
+      tags: ["alpha", "beta"],
+      comment_unencrypted: "left in clear",
+    });
+  });
+
+  it("fails the MAC check when an unencrypted value was edited", async () => {
+    const path = tempCopy(readFileSync(FIXTURE, "utf-8").replace("left in clear", "edited"));
+    await expect(readSopsFile(path, env)).rejects.toThrow(/failed its SOPS MAC check/);
+  });
+
+  it("verifies the MAC of files with encrypted comments, which it leaves out", async () => {
+    const comment = "#ENC[AES256_GCM,data:8Zm9vZA==,iv:kfBzV4BsavnvVCayBSGAkIoT01kzQS0TbEzW7jCo2vw=,tag:WS67xyh+RidewmRishmbiw==,type:comment]\n";
+    const withComment = comment + readFileSync(FIXTURE, "utf-8");
+    await expect(readSopsFile(tempCopy(withComment), env)).resolves.toMatchObject({ data: { comment_unencrypted: "left in clear" } });
+
+    const tampered = tempCopy(withComment.replace("left in clear", "edited"));
+    await expect(readSopsFile(tampered, env)).rejects.toThrow(/failed its SOPS MAC check/);
+  });
+
+  it("rejects a file without a matching age identity", async () => {
+    const otherKey = tempCopy("AGE-SECRET-KEY-1GFPYYSJZGFPYYSJZGFPYYSJZGFPYYSJZGFPYYSJZGFPYYSJZGFPQ4EGAEX\n");
+    await expect(readSopsFile(FIXTURE, { SOPS_AGE_KEY_FILE: otherKey })).rejects.toThrow(/None of the available age identities/);
+  });
+
+  it("does not run the sops binary unless TEAMHOOD_SOPS_BINARY is set", async () => {
+    const path = tempCopy("key: ENC[AES256_GCM,data:AA==,iv:AA==,tag:AA==,type:str]\nsops:\n    pgp:\n        - fp: ABCDEF\n");
+    await expect(readSopsFile(path, {})).rejects.toThrow(/TEAMHOOD_SOPS_BINARY/);
+  });
+
+  it("returns plain YAML as it is", async () => {
+    const path = tempCopy("TEAMHOOD_API_KEY: plain\n");
+    await expect(readSopsFile(path, {})).resolves.toEqual({ data: { TEAMHOOD_API_KEY: "plain" }, encrypted: false });
+  });
+});
@@ -0,0 +1,68 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { apiError, stubApi, useTestProfile } from "./fakeApi.js";
+
+// The journal location is read when the modules load
+const dir = mkdtempSync(join(tmpdir(), "teamhood-undo-"));
+process.env.TEAMHOOD_JOURNAL_PATH = join(dir, "journal.jsonl");
+const { recordChange } = await import("../src/journal.js");
+const { handleUndoTool } = await import("../src/undo.js");
+const { withProfile } = await import("../src/profiles.js");
+
+const run = (name: string, args: Record<string, unknown>) => withProfile(undefined, () => handleUndoTool(name, args));
+
+beforeAll(useTestProfile);
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+function deletion(before: Record<string, unknown>) {
+  return recordChange({
+    tool: "delete_item",
+    profile: "default",
+    operation: "delete",
+    itemId: "old",
+    before: { id: "old", title: "Gone", boardId: "b1", ...before },
+    changes: {},
+  });
+}
+
+describe("undo_change", () => {
+  it("recreates a deleted item and its follow-up fields", async () => {
+    const change = await deletion({ progress: 40 });
+    const requests = stubApi(({ method, path }) => {
+      if (method === "POST" && path === "/items") return { id: "new" };
+      if (path === "/items/new") return { id: "new", title: "Gone", progress: 0 };
+      throw new Error(`Unexpected ${method} ${path}`);
+    });
+    const result = await run("undo_change", { changeId: change.id });
+    expect(result).toMatchObject({ undone: true, deletedItemId: "old", recreatedItemId: "new", warnings: undefined });
+    expect(requests.find((r) => r.method === "PUT")?.body).toEqual({ data: { progress: 40 } });
+  });
+
+  it("keeps the recreated item when the follow-up update fails, and does not create it twice", async () => {
+    const change = await deletion({ parentId: "p1" });
+    const requests = stubApi(({ method, path }) => {
+      if (method === "POST" && path === "/items") return { id: "copy" };
+      if (method === "GET" && path === "/items/copy") return { id: "copy", title: "Gone" };
+      if (method === "PUT" && path === "/items/copy") return apiError(400, { title: "Parent not found" });
+      throw new Error(`Unexpected ${method} ${path}`);
+    });
+    const result = await run("undo_change", { changeId: change.id });
+    expect(result).toMatchObject({
+      undone: true,
+      recreatedItemId: "copy",
+      warnings: [expect.stringMatching(/^Item copy was recreated, but parentId could not be restored: .*Parent not found/)],
+    });
+
+    await expect(run("undo_change", { changeId: change.id })).rejects.toThrow(/was already undone/);
+    expect(requests.filter((r) => r.method === "POST")).toHaveLength(1);
+    const { changes } = (await run("list_recent_changes", {})) as { changes: Array<{ changeId: string }> };
+    expect(changes.find((c) => c.changeId === change.id)).toMatchObject({ recreatedItemId: "copy" });
+  });
+});
@@ -0,0 +1,118 @@
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { describe, expect, it } from "vitest";
+import { ValidationError } from "../src/errors.js";
+import { isIsoDate, validateResponse, validateToolArgs } from "../src/validation.js";
+
+const tool: Tool = {
+  name: "update_item",
+  inputSchema: {
+    type: "object",
+    properties: {
+      itemId: { type: "string" },
+      progress: { type: "integer", minimum: 0, maximum: 100 },
+      dueDate: { type: "string", format: "date-time" },
+      completed: { type: "boolean" },
+      color: { type: "string", enum: ["red", "green"] },
+      tags: { type: "array", items: { type: "string" } },
+      customFields: {
+        type: "object",
+        properties: { name: { type: "string" } },
+        additionalProperties: { type: "string" },
+      },
+    },
+    required: ["itemId"],
+  },
+};
+
+function errorFor(args: Record<string, unknown>): ValidationError {
+  try {
+    validateToolArgs(tool, args);
+  } catch (error) {
+    if (error instanceof ValidationError) return error;
+    throw error;
+  }
+  throw new Error("expected a ValidationError");
+}
+
+describe("validateToolArgs", () => {
+  it("accepts arguments that match the schema", () => {
+    expect(() =>
+      validateToolArgs(tool, {
+        itemId: "i1",
+        progress: 50,
+        dueDate: "2024-02-05T14:00:00Z",
+        completed: false,
+        color: "red",
+        tags: ["a", "b"],
+        customFields: { name: "x", Estimate: "3" },
+      })
+    ).not.toThrow();
+  });
+
+  it("treats null like an omitted optional argument", () => {
+    expect(() => validateToolArgs(tool, { itemId: "i1", dueDate: null })).not.toThrow();
+  });
+
+  it("requires required arguments, including empty strings", () => {
+    expect(errorFor({}).message).toBe("Invalid arguments for update_item: itemId is required");
+    expect(errorFor({ itemId: "" }).details.field).toBe("itemId");
+  });
+
+  it("checks types, ranges, enums and dates", () => {
+    const error = errorFor({ itemId: "i1", progress: 150, completed: "yes", color: "blue", dueDate: "next week" });
+    expect(error.message).toContain("progress must be <= 100 (got 150)");
+    expect(error.message).toContain("completed must be true or false (got \"yes\")");
+    expect(error.message).toContain('color must be one of "red", "green" (got "blue")');
+    expect(error.message).toContain("dueDate must be an ISO 8601 date");
+    expect(errorFor({ itemId: "i1", progress: 2.5 }).message).toContain("progress must be a whole number");
+  });
+
+  it("names array elements and nested fields by path", () => {
+    expect(errorFor({ itemId: "i1", tags: ["a", 3] }).message).toContain("tags[1] must be a string (got 3)");
+    const nested = errorFor({ itemId: "i1", customFields: { Estimate: 3 } });
+    expect(nested.message).toContain("customFields.Estimate must be a string");
+    expect(nested.details.field).toBe("customFields");
+  });
+
+  it("rejects arguments the tool does not know, with a hint for ID fields", () => {
+    expect(errorFor({ itemId: "i1", title: "x" }).message).toContain("title is not a recognised argument");
+    const error = errorFor({ itemId: 42 });
+    expect(error.details).toMatchObject({ field: "itemId", hint: "use list_items or get_item to find a valid itemId" });
+  });
+});
+
+describe("isIsoDate", () => {
+  it("accepts dates with and without a time and offset", () => {
+    for (const value of ["2024-02-05", "2024-02-05T14:00", "2024-02-05T14:00:00.123Z", "2024-02-05T14:00:00+02:00"]) {
+      expect(isIsoDate(value)).toBe(true);
+    }
+  });
+
+  it("rejects other formats and impossible dates", () => {
+    for (const value of ["05/02/2024", "2024-13-01", "tomorrow", "2024-02-05 14:00"]) {
+      expect(isIsoDate(value)).toBe(false);
+    }
+  });
+});
+
+describe("validateResponse", () => {
+  it("accepts the shapes the endpoints are expected to return", () => {
+    expect(() => validateResponse("/items/i1", "GET", { id: "i1" })).not.toThrow();
+    expect(() => validateResponse("/items?BoardId=b1", "GET", { items: [], totalCount: 0 })).not.toThrow();
+    expect(() => validateResponse("/boards/b1/statuses", "GET", [{ id: "s1" }])).not.toThrow();
+    // Endpoints without a rule are not checked
+    expect(() => validateResponse("/items/i1", "PUT", "ok")).not.toThrow();
+  });
+
+  it("fails on a response it does not understand", () => {
+    expect(() => validateResponse("/items/i1", "GET", [])).toThrow(
+      "Unexpected API response from GET /items/i1: expected an object, got array"
+    );
+    expect(() => validateResponse("/users", "GET", [{ id: "u1" }, { name: "x" }])).toThrow(
+      "element 1 is not an object with a string id"
+    );
+    expect(() => validateResponse("/logs?fromDate=x", "GET", "<html>")).toThrow(
+      /Unexpected API response from GET \/logs: expected an array or a paged result/
+    );
+  });
+});